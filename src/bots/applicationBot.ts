@@ -1,79 +1,203 @@
-import { Client } from "discord.js";
-import mysql from "mysql2";
+import { Client, Events } from "discord.js";
 import { PerscomService } from "../services/request_perscom";
-import { DatabaseService } from "../services/database";
+import { PerscomClient } from "../services/perscomClient";
 import { NotificationService } from "../services/notificationService";
+import { runApplicationCycle } from "../services/applicationCycle";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { ReviewService } from "../services/reviewService";
+import { isReviewCustomId } from "../services/reviewActions";
+import { AccountLinkService, isAccountLinkCustomId } from "../services/accountLinkService";
+import { MemberProvisioningService } from "../services/memberProvisioning";
+import { ReviewReminderService } from "../services/reviewReminders";
+import { InterviewService } from "../services/interviewService";
+import { isInterviewCustomId } from "../services/interviewActions";
+import { UserDeletionService } from "../services/userDeletionService";
+import { isDeletionCustomId } from "../services/deletionGuard";
+import { APPLICATION_JOBS, jobScheduler } from "../services/applicationJobs";
+import { NotificationOutboxDispatcher } from "../services/notificationOutbox";
+import { LeaveService } from "../services/leaveService";
+import { isLeaveCustomId } from "../services/leaveOfAbsence";
+import { InactivityService } from "../services/inactivityService";
+import { isInactivityCustomId } from "../services/inactivity";
 import { config } from "../config/config";
 
-// Optimized pool configuration with reasonable defaults
-const pool = mysql.createPool({
-    host: config.APPLICATION_DB.host,
-    port: config.APPLICATION_DB.port,
-    user: config.APPLICATION_DB.username,
-    password: config.APPLICATION_DB.password,
-    database: config.APPLICATION_DB.database,
-    waitForConnections: true,
-    connectionLimit: 5, // Reduced from 10 since the app doesn't need that many
-    queueLimit: 0,
-    enableKeepAlive: true,
-    keepAliveInitialDelay: 0
-});
-
-const poolPromise = pool.promise();
-
 export async function applicationBot(client: Client): Promise<void> {
-    client.once("ready", () => {
+    let backfillPending = config.PERSCOM_BACKFILL;
+    let lastDryRunReport = '';
+
+    client.once("ready", async () => {
         console.log(`Application Bot has logged in as ${client.user?.tag}`);
-        setInterval(sendMessageTask, 300000);
-        sendMessageTask();
+        await ensureSchema();
+        await jobScheduler.start();
     });
 
-    const notificationService = new NotificationService(client, config.APPLICATION_DISCORD_CHANNEL_ID, config.NEW_APPLICATION_CHANNEL_ID);
+    const notificationService = new NotificationService(
+        client, config.APPLICATION_DISCORD_CHANNEL_ID, config.NEW_APPLICATION_CHANNEL_ID, config.NOTIFICATION_DELIVERY
+    );
+    const perscomService = new PerscomService(new PerscomClient(config.BEARER_TOKEN_PERSCOM, {
+        baseUrl: config.PERSCOM_BASE_URL,
+        maxRetries: config.PERSCOM_MAX_RETRIES
+    }));
+    const accountLinkService = new AccountLinkService(client, config.NEW_APPLICATION_CHANNEL_ID);
+    const memberProvisioningService = new MemberProvisioningService(
+        client,
+        config.NEW_APPLICATION_CHANNEL_ID,
+        config.ACCEPTED_NICKNAME_FORMAT
+    );
+    const userDeletionService = new UserDeletionService(client, config.NEW_APPLICATION_CHANNEL_ID, perscomService, {
+        requireApproval: config.PERSCOM_DELETE_APPROVAL,
+        maxPerCycle: config.PERSCOM_MAX_DELETIONS_PER_CYCLE
+    });
+    const reviewReminderService = new ReviewReminderService(client, config.NEW_APPLICATION_CHANNEL_ID, {
+        reminderHours: config.REVIEW_REMINDER_HOURS,
+        escalationHours: config.REVIEW_ESCALATION_HOURS,
+        escalationRoleId: config.REVIEW_ESCALATION_ROLE_ID,
+        digestHourUtc: config.REVIEW_DIGEST_HOUR_UTC
+    });
+    const interviewService = new InterviewService(client, config.NEW_APPLICATION_CHANNEL_ID, config.INTERVIEW_REMINDER_MINUTES);
+    const outboxDispatcher = new NotificationOutboxDispatcher(notificationService, accountLinkService);
+    const leaveService = new LeaveService(client, config.NEW_APPLICATION_CHANNEL_ID);
+    const inactivityService = new InactivityService(client, config.INACTIVITY_CHANNEL_ID, leaveService, {
+        missedInARow: config.INACTIVITY_MISSED_RAIDS,
+        minRate: config.INACTIVITY_MIN_RATE,
+        windowWeeks: config.INACTIVITY_WINDOW_WEEKS,
+        roleId: config.INACTIVITY_ROLE_ID,
+        reportDay: config.INACTIVITY_REPORT_DAY,
+        reportHourUtc: config.INACTIVITY_REPORT_HOUR_UTC
+    });
+    const reviewService = new ReviewService(
+        { perscomService, notificationService, accountLinkService, memberProvisioningService, userDeletionService },
+        config.PERSCOM_HOLD_STATUS_ID
+    );
 
-    async function sendMessageTask(): Promise<void> {
-        let connection;
+    jobScheduler.register({
+        name: APPLICATION_JOBS.APPLICATION_CYCLE,
+        description: config.PERSCOM_WEBHOOK_SECRET
+            ? 'Reconcile PERSCOM submissions missed by webhooks'
+            : 'Sync PERSCOM submissions and act on decisions',
+        intervalMs: config.PERSCOM_POLL_MINUTES * 60000,
+        runOnStart: true,
+        run: sendMessageTask
+    });
+    jobScheduler.register({
+        name: APPLICATION_JOBS.NOTIFICATION_OUTBOX,
+        description: 'Deliver queued application notifications and retry failed ones',
+        intervalMs: 60000,
+        runOnStart: true,
+        run: outboxTask
+    });
+    jobScheduler.register({
+        name: APPLICATION_JOBS.REVIEW_REMINDERS,
+        description: 'Remind reviewers about waiting applications and post the daily digest',
+        intervalMs: 900000,
+        run: reviewReminderTask
+    });
+    jobScheduler.register({
+        name: APPLICATION_JOBS.INTERVIEW_REMINDERS,
+        description: 'Remind applicants and reviewers before interviews',
+        intervalMs: 300000,
+        run: interviewReminderTask
+    });
+    jobScheduler.register({
+        name: APPLICATION_JOBS.ARCHIVE_RETENTION,
+        description: 'Purge personal data from expired applicant archives',
+        intervalMs: 86400000,
+        runOnStart: true,
+        run: archiveRetentionTask
+    });
+    jobScheduler.register({
+        name: APPLICATION_JOBS.INACTIVITY_REPORT,
+        description: 'Post the weekly list of members missing raids',
+        intervalMs: 3600000,
+        run: inactivityReportTask
+    });
+
+    client.on(Events.InteractionCreate, async interaction => {
+        if ((interaction.isButton() || interaction.isStringSelectMenu() || interaction.isModalSubmit())
+            && isReviewCustomId(interaction.customId)) {
+            await reviewService.handleInteraction(interaction);
+        } else if (interaction.isButton() && isAccountLinkCustomId(interaction.customId)) {
+            await accountLinkService.handleInteraction(interaction);
+        } else if (interaction.isButton() && isInterviewCustomId(interaction.customId)) {
+            await interviewService.handleInteraction(interaction);
+        } else if (interaction.isButton() && isDeletionCustomId(interaction.customId)) {
+            await userDeletionService.handleInteraction(interaction);
+        } else if (interaction.isButton() && isLeaveCustomId(interaction.customId)) {
+            await leaveService.handleInteraction(interaction);
+        } else if ((interaction.isButton() || interaction.isModalSubmit()) && isInactivityCustomId(interaction.customId)) {
+            await inactivityService.handleInteraction(interaction);
+        }
+    });
+
+    async function ensureSchema(): Promise<void> {
         try {
-            connection = await poolPromise.getConnection();
-            const perscomService = new PerscomService(config.BEARER_TOKEN_PERSCOM);
-            const databaseService = new DatabaseService(connection);
+            await withApplicationDatabase(databaseService => databaseService.ensureSchema());
+        } catch (error) {
+            console.error('ApplicationBot schema error:', error);
+        }
+    }
 
-            await perscomService.clearCache();
-            const data = await perscomService.getAllForm1Data();
-            
-            const oldSubmissions = await databaseService.getFormsIdsTable();
-            const newSubmissions = data.filter(
-                newForm => !oldSubmissions.some(oldForm => oldForm.form_id === newForm.form_id)
-            );
+    async function sendMessageTask(): Promise<void> {
+        const backfill = backfillPending;
+        if (backfill) {
+            console.log('Running one-off PERSCOM backfill from page 1');
+        }
 
-            if (newSubmissions.length > 0) {
-                await databaseService.putFormIdsTable(newSubmissions);
-                await notificationService.notifyNewApplications(newSubmissions);
+        const report = await withApplicationDatabase(databaseService =>
+            runApplicationCycle(
+                {
+                    perscomService, databaseService, notificationService, accountLinkService, memberProvisioningService,
+                    userDeletionService
+                },
+                {
+                    backfill,
+                    reapplyCooldownDays: config.REAPPLY_COOLDOWN_DAYS,
+                    dryRun: config.PERSCOM_DRY_RUN,
+                    holdStatusId: config.PERSCOM_HOLD_STATUS_ID
+                }
+            )
+        );
+        if (report.dryRun) {
+            report.skippedWrites.forEach(write => console.log(`[dry run] ${write}`));
+            // Nothing is written, so every cycle sees the same work; only report it when it changes.
+            const summary = report.skippedWrites.join('\n');
+            if (summary && summary !== lastDryRunReport) {
+                await notificationService.notifyDryRun(report.skippedWrites);
             }
+            lastDryRunReport = summary;
+        } else {
+            backfillPending = false;
+            jobScheduler.trigger(APPLICATION_JOBS.NOTIFICATION_OUTBOX);
+        }
+    }
 
-            const [acceptedUsersDatabase, acceptedUsers] = await Promise.all([
-                databaseService.getUsersDatabase(),
-                perscomService.getSubmissionStatus(data, 7)
-            ]);
+    async function outboxTask(): Promise<void> {
+        const result = await withApplicationDatabase(databaseService => outboxDispatcher.dispatch(databaseService));
+        if (result.retrying > 0 || result.failed > 0) {
+            console.warn(`Notification outbox: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`);
+        }
+    }
 
-            const newAcceptedUsers = await databaseService.compareAndInsertUsers(acceptedUsers, acceptedUsersDatabase);
-            const deniedUsers = await perscomService.getSubmissionStatus(data, 8);
+    async function reviewReminderTask(): Promise<void> {
+        await withApplicationDatabase(async databaseService => {
+            await reviewReminderService.sendDueReminders(databaseService);
+            await reviewReminderService.sendDailyDigest(databaseService);
+        });
+    }
 
-            if (deniedUsers.length > 0) {
-                await notificationService.notifyDeniedUsers(deniedUsers, data);
-                await perscomService.deleteUsers(deniedUsers);
-                await databaseService.deleteOldForms(deniedUsers);
-            }
+    async function interviewReminderTask(): Promise<void> {
+        await withApplicationDatabase(databaseService => interviewService.sendDueReminders(databaseService));
+    }
 
-            if (newAcceptedUsers.length > 0) {
-                await notificationService.notifyAcceptedUsers(newAcceptedUsers, data);
-            }
+    async function inactivityReportTask(): Promise<void> {
+        await withApplicationDatabase(databaseService => inactivityService.sendWeeklyReport(databaseService));
+    }
 
-        } catch (error) {
-            console.error('ApplicationBot Error:', error);
-        } finally {
-            if (connection) {
-                connection.release();
-            }
+    async function archiveRetentionTask(): Promise<void> {
+        const before = new Date(Date.now() - config.ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        const purged = await withApplicationDatabase(databaseService => databaseService.purgeApplicantArchives(before));
+        if (purged > 0) {
+            console.log(`Purged personal data from ${purged} archived application(s)`);
         }
     }
-}
\ No newline at end of file
+}
@@ -3,8 +3,35 @@ import { config } from "../config/config";
 import { Command } from '../interfaces/Command';
 import { messageCommand } from '../commands/message';
 import { attendanceCommand } from '../commands/attendance';
+import { attendanceReportCommand } from '../commands/attendanceReport';
+import { denialReasonsCommand } from '../commands/denialReasons';
+import { reviewersCommand } from '../commands/reviewers';
+import { linkCommand } from '../commands/link';
+import { acceptanceRolesCommand } from '../commands/acceptanceRoles';
+import { applicationsCommand } from '../commands/applications';
+import { interviewsCommand } from '../commands/interviews';
+import { deletionsCommand } from '../commands/deletions';
+import { adminCommand } from '../commands/admin';
+import { eligibilityCommand } from '../commands/eligibility';
+import { raidScheduleCommand } from '../commands/raidSchedule';
+import { loaCommand } from '../commands/loa';
 
-const commands = [messageCommand, attendanceCommand];
+const commands = [
+    messageCommand,
+    attendanceCommand,
+    attendanceReportCommand,
+    raidScheduleCommand,
+    loaCommand,
+    denialReasonsCommand,
+    eligibilityCommand,
+    reviewersCommand,
+    linkCommand,
+    acceptanceRolesCommand,
+    applicationsCommand,
+    interviewsCommand,
+    deletionsCommand,
+    adminCommand
+];
 
 interface BotClient extends Client {
     commands: Collection<string, Command>;
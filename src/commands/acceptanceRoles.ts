@@ -0,0 +1,117 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { ALL_POSITIONS, AcceptanceRoleAction, AcceptanceRoleRule } from "../services/memberProvisioning";
+import { hasAdminRole } from "../utils/permissions";
+
+function formatRule(rule: AcceptanceRoleRule): string {
+    return `${rule.action === 'add' ? 'Add' : 'Remove'} <@&${rule.role_id}>`;
+}
+
+export const acceptanceRolesCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-acceptance-roles')
+        .setDescription('Manage the roles given or taken when an application is accepted')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('Show acceptance role rules for every position'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('Add or remove a role when a position is accepted')
+                .addStringOption(option =>
+                    option.setName('position')
+                        .setDescription(`PERSCOM position name, or "${ALL_POSITIONS}" for every position`)
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('Whether the role is added or removed')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'Add role', value: 'add' },
+                            { name: 'Remove role', value: 'remove' }
+                        ))
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('Role to add or remove')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('Delete an acceptance role rule')
+                .addStringOption(option =>
+                    option.setName('position')
+                        .setDescription(`PERSCOM position name, or "${ALL_POSITIONS}"`)
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('Whether the rule adds or removes the role')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'Add role', value: 'add' },
+                            { name: 'Remove role', value: 'remove' }
+                        ))
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('Role in the rule')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            if (subcommand === 'list') {
+                const rules = await databaseService.getAcceptanceRoleRules();
+                const byPosition = new Map<string, AcceptanceRoleRule[]>();
+                for (const rule of rules) {
+                    byPosition.set(rule.position, [...(byPosition.get(rule.position) || []), rule]);
+                }
+
+                const embed = new EmbedBuilder()
+                    .setTitle('Acceptance Roles')
+                    .setColor(Colors.Green)
+                    .setTimestamp();
+
+                if (byPosition.size === 0) {
+                    embed.setDescription('No acceptance role rules configured. Accepted applicants only get a nickname.');
+                } else {
+                    embed.addFields(Array.from(byPosition.entries()).slice(0, 25).map(([position, positionRules]) => ({
+                        name: position === ALL_POSITIONS ? 'All positions' : position,
+                        value: positionRules.map(formatRule).join('\n')
+                    })));
+                }
+
+                await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                return;
+            }
+
+            const rule: AcceptanceRoleRule = {
+                position: interaction.options.getString('position', true).trim(),
+                action: interaction.options.getString('action', true) as AcceptanceRoleAction,
+                role_id: interaction.options.getRole('role', true).id
+            };
+
+            const changed = subcommand === 'add'
+                ? await databaseService.addAcceptanceRoleRule(rule, interaction.user.id)
+                : await databaseService.removeAcceptanceRoleRule(rule);
+
+            const verb = rule.action === 'add' ? 'given' : 'removed from';
+            const content = subcommand === 'add'
+                ? changed
+                    ? `<@&${rule.role_id}> will be ${verb} accepted **${rule.position}** applicants.`
+                    : 'That rule already exists.'
+                : changed
+                    ? `<@&${rule.role_id}> will no longer be ${verb} accepted **${rule.position}** applicants.`
+                    : 'No such rule.';
+
+            await interaction.reply({ content, ephemeral: true, allowedMentions: { parse: [] } });
+        });
+    }
+};
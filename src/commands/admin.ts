@@ -0,0 +1,192 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { APPLICATION_JOBS, jobScheduler } from "../services/applicationJobs";
+import { JobStatus } from "../services/jobScheduler";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { MAX_OUTBOX_ATTEMPTS, OutboxMessage, describeOutboxMessage } from "../services/notificationOutbox";
+import { hasAdminRole } from "../utils/permissions";
+
+const JOB_CHOICES = Object.values(APPLICATION_JOBS).map(name => ({ name, value: name }));
+
+function toTimestamp(date: Date | string | null): string {
+    return date ? `<t:${Math.floor(new Date(date).getTime() / 1000)}:R>` : 'never';
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatInterval(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes} min`;
+    if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h`;
+    return `${Math.round(minutes / 1440)} days`;
+}
+
+function formatJob(job: JobStatus): string {
+    const state = job.running ? '▶️ running' : job.paused ? '⏸️ paused' : `next ${toTimestamp(job.next_run_at)}`;
+    const last = job.last_result
+        ? `${job.last_result === 'success' ? '✅' : '❌'} ${toTimestamp(job.last_finished_at)}`
+            + (job.last_duration_ms !== null ? ` in ${formatDuration(job.last_duration_ms)}` : '')
+        : 'not run yet';
+    const lines = [
+        `Every ${formatInterval(job.intervalMs)} · ${state}`,
+        `Last run: ${last}`
+    ];
+    if (job.last_result === 'failure') {
+        lines.push(`Failed ${job.consecutive_failures}× in a row: ${(job.last_error ?? 'unknown error').slice(0, 300)}`);
+    }
+    return lines.join('\n');
+}
+
+function formatOutboxMessage(message: OutboxMessage): string {
+    const state = message.status === 'failed'
+        ? `❌ gave up after ${message.attempts} attempts`
+        : message.attempts > 0
+            ? `🔁 attempt ${message.attempts + 1}/${MAX_OUTBOX_ATTEMPTS} ${toTimestamp(message.next_attempt_at)}`
+            : `⏳ queued ${toTimestamp(message.created_at)}`;
+    const error = message.last_error ? `: ${message.last_error.slice(0, 150)}` : '';
+    return `\`${message.id}\` ${describeOutboxMessage(message)} · ${state}${error}`;
+}
+
+export const adminCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-admin')
+        .setDescription('Bot administration')
+        .setDefaultMemberPermissions('0')
+        .addSubcommandGroup(group =>
+            group.setName('jobs')
+                .setDescription('Scheduled bot jobs')
+                .addSubcommand(subcommand =>
+                    subcommand.setName('list')
+                        .setDescription('Show every job with its last run and next run'))
+                .addSubcommand(subcommand =>
+                    subcommand.setName('pause')
+                        .setDescription('Stop a job from running on schedule')
+                        .addStringOption(option =>
+                            option.setName('job')
+                                .setDescription('Job to pause')
+                                .setRequired(true)
+                                .addChoices(...JOB_CHOICES)))
+                .addSubcommand(subcommand =>
+                    subcommand.setName('resume')
+                        .setDescription('Let a paused job run on schedule again')
+                        .addStringOption(option =>
+                            option.setName('job')
+                                .setDescription('Job to resume')
+                                .setRequired(true)
+                                .addChoices(...JOB_CHOICES)))
+                .addSubcommand(subcommand =>
+                    subcommand.setName('run')
+                        .setDescription('Run a job now')
+                        .addStringOption(option =>
+                            option.setName('job')
+                                .setDescription('Job to run')
+                                .setRequired(true)
+                                .addChoices(...JOB_CHOICES))))
+        .addSubcommandGroup(group =>
+            group.setName('outbox')
+                .setDescription('Application notifications waiting to be delivered')
+                .addSubcommand(subcommand =>
+                    subcommand.setName('list')
+                        .setDescription('Show notifications that are failing or not yet sent'))
+                .addSubcommand(subcommand =>
+                    subcommand.setName('retry')
+                        .setDescription('Queue a notification that was given up on again')
+                        .addIntegerOption(option =>
+                            option.setName('message_id')
+                                .setDescription('Outbox message ID from `/nswg-admin outbox list`')
+                                .setRequired(true)))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        if (interaction.options.getSubcommandGroup() === 'outbox') {
+            await handleOutbox(interaction);
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+        const name = interaction.options.getString('job');
+
+        if (subcommand === 'list') {
+            const jobs = jobScheduler.list();
+            const embed = new EmbedBuilder()
+                .setTitle('Scheduled Jobs')
+                .setColor(jobs.some(job => job.last_result === 'failure') ? Colors.Orange : Colors.Blue)
+                .setTimestamp();
+            if (jobs.length === 0) {
+                embed.setDescription('No jobs are registered.');
+            } else {
+                embed.addFields(jobs.map(job => ({ name: `${job.name}: ${job.description}`.slice(0, 256), value: formatJob(job) })));
+            }
+            await interaction.reply({ embeds: [embed], ephemeral: true });
+            return;
+        }
+
+        if (!name || !jobScheduler.has(name)) {
+            await interaction.reply({ content: `Unknown job \`${name}\`.`, ephemeral: true });
+            return;
+        }
+
+        switch (subcommand) {
+            case 'pause':
+            case 'resume': {
+                await jobScheduler.setPaused(name, subcommand === 'pause');
+                await interaction.reply({
+                    content: subcommand === 'pause'
+                        ? `Paused \`${name}\`. It can still be run with \`/nswg-admin jobs run\`.`
+                        : `Resumed \`${name}\`.`,
+                    ephemeral: true
+                });
+                break;
+            }
+            case 'run': {
+                await interaction.deferReply({ ephemeral: true });
+                const outcome = await jobScheduler.runNow(name);
+                await interaction.editReply({
+                    content: outcome.status === 'busy'
+                        ? `\`${name}\` is already running.`
+                        : outcome.status === 'ran' && outcome.run.result === 'success'
+                            ? `\`${name}\` finished in ${formatDuration(outcome.run.duration_ms)}.`
+                            : `\`${name}\` failed: ${outcome.status === 'ran' ? outcome.run.error : 'unknown job'}`
+                });
+                break;
+            }
+        }
+    }
+};
+
+async function handleOutbox(interaction: ChatInputCommandInteraction): Promise<void> {
+    await interaction.deferReply({ ephemeral: true });
+
+    if (interaction.options.getSubcommand() === 'retry') {
+        const id = interaction.options.getInteger('message_id', true);
+        const retried = await withApplicationDatabase(databaseService => databaseService.retryOutboxMessage(id));
+        if (retried) {
+            jobScheduler.trigger(APPLICATION_JOBS.NOTIFICATION_OUTBOX);
+        }
+        await interaction.editReply({
+            content: retried ? `Queued outbox message \`${id}\` again.` : `Outbox message \`${id}\` has not failed.`
+        });
+        return;
+    }
+
+    const messages = await withApplicationDatabase(databaseService => databaseService.getUnsentOutboxMessages());
+    const lines = messages.slice(0, 20).map(formatOutboxMessage);
+    if (messages.length > lines.length) {
+        lines.push(`…and ${messages.length - lines.length} more`);
+    }
+    const embed = new EmbedBuilder()
+        .setTitle('Notification Outbox')
+        .setColor(messages.some(message => message.status === 'failed') ? Colors.Red : Colors.Blue)
+        .setDescription(lines.length > 0 ? lines.join('\n').slice(0, 4096) : 'Every notification has been delivered.')
+        .setTimestamp();
+    await interaction.editReply({ embeds: [embed] });
+}
@@ -0,0 +1,331 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { isApplicationStaff } from "../services/staffAccess";
+import { Application, ApplicationState, PENDING_REVIEW_STATES } from "../services/applicationLifecycle";
+import { ApplicationFilter, DatabaseService } from "../services/database";
+import { formatHours, summarizeDecisionTimes } from "../services/applicationStats";
+import { ApplicantArchive, formatAnswerLabel } from "../services/applicantArchive";
+import { chunkLines, sendPaginatedEmbeds } from "../utils/pagination";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIST_PAGE_SIZE = 15;
+
+const STATE_CHOICES: { name: string; value: ApplicationState }[] = [
+    { name: 'Received', value: 'received' },
+    { name: 'Under review', value: 'under_review' },
+    { name: 'Accepted', value: 'accepted' },
+    { name: 'Denied', value: 'denied' },
+    { name: 'Interviewed', value: 'interviewed' },
+    { name: 'Enlisted', value: 'enlisted' }
+];
+
+const STATE_COLORS: Record<ApplicationState, number> = {
+    received: Colors.Blue,
+    under_review: Colors.Yellow,
+    accepted: Colors.Green,
+    denied: Colors.Red,
+    interviewed: Colors.Aqua,
+    enlisted: Colors.DarkGreen
+};
+
+function formatState(state: ApplicationState): string {
+    return state.replace('_', ' ');
+}
+
+function toTimestamp(date: Date | string, style: 'f' | 'R' | 'D' = 'R'): string {
+    return `<t:${Math.floor(new Date(date).getTime() / 1000)}:${style}>`;
+}
+
+function formatListLine(application: Application): string {
+    return `\`#${application.form_id}\` **${application.first_name}** · ${application.preferred_position}`
+        + ` · ${formatState(application.state)} · ${toTimestamp(application.created_at)}`;
+}
+
+async function listApplications(interaction: ChatInputCommandInteraction, databaseService: DatabaseService): Promise<void> {
+    const scope = interaction.options.getString('scope') ?? 'pending';
+    const status = interaction.options.getString('status') as ApplicationState | null;
+    const position = interaction.options.getString('position')?.trim() || undefined;
+    const days = interaction.options.getInteger('days') ?? 30;
+
+    const filter: ApplicationFilter = { position };
+    if (status) {
+        filter.states = [status];
+    } else if (scope === 'pending') {
+        filter.states = PENDING_REVIEW_STATES;
+    }
+    if (scope === 'recent') {
+        filter.since = new Date(Date.now() - days * DAY_MS);
+    }
+
+    const applications = await databaseService.searchApplications(filter);
+    const title = scope === 'pending' && !status
+        ? 'Pending Applications'
+        : scope === 'recent' ? `Applications (last ${days} days)` : 'Applications';
+    const criteria = [status && `status: ${formatState(status)}`, position && `position: ${position}`].filter(Boolean);
+
+    if (applications.length === 0) {
+        await interaction.editReply({
+            embeds: [new EmbedBuilder()
+                .setTitle(title)
+                .setColor(Colors.Blue)
+                .setDescription('No applications match.')]
+        });
+        return;
+    }
+
+    const pages = chunkLines(applications.map(formatListLine), LIST_PAGE_SIZE).map(lines => new EmbedBuilder()
+        .setTitle(`${title} (${applications.length})`)
+        .setColor(Colors.Blue)
+        .setDescription([criteria.length > 0 ? `*${criteria.join(', ')}*` : '', ...lines].filter(Boolean).join('\n')));
+
+    await sendPaginatedEmbeds(interaction, pages);
+}
+
+async function showApplication(interaction: ChatInputCommandInteraction, databaseService: DatabaseService): Promise<void> {
+    const formId = interaction.options.getInteger('form_id', true);
+    const application = await databaseService.getApplication(formId);
+    if (!application) {
+        await interaction.editReply({ content: `No tracked application with submission ID ${formId}.` });
+        return;
+    }
+
+    const [history, denial, link, post, interviews, deliveries, archive, outbox] = await Promise.all([
+        databaseService.getApplicationHistory(formId),
+        databaseService.getDenial(formId),
+        databaseService.getAccountLink(application.user_id),
+        databaseService.getApplicationPost(formId),
+        databaseService.getInterviewOutcomes(formId),
+        databaseService.getNotificationDeliveries(formId),
+        databaseService.getApplicantArchive(formId),
+        databaseService.getOutboxMessages(formId)
+    ]);
+
+    const links = [`[PERSCOM](https://nswg-1.com/admin/perscom/submissions/${formId})`];
+    if (post && interaction.guildId) {
+        links.push(`[Review post](https://discord.com/channels/${interaction.guildId}/${post.channel_id}/${post.message_id})`);
+    }
+
+    const details = new EmbedBuilder()
+        .setTitle(`Application #${formId}: ${application.first_name}`)
+        .setColor(STATE_COLORS[application.state])
+        .addFields(
+            { name: 'Status', value: formatState(application.state), inline: true },
+            { name: 'Position', value: application.preferred_position, inline: true },
+            { name: 'PERSCOM User', value: application.user_id.toString(), inline: true },
+            { name: 'Discord', value: link ? `<@${link.discord_id}>` : `${application.discord_name} (not linked)`, inline: true },
+            { name: 'Date of Birth', value: application.date_of_birth || 'Not provided', inline: true },
+            { name: 'Received', value: toTimestamp(application.created_at, 'f'), inline: true },
+            { name: 'Links', value: links.join(' · ') }
+        );
+
+    if (denial) {
+        details.addFields({
+            name: 'Denial',
+            value: [
+                denial.reason_label ? `**${denial.reason_label}**` : null,
+                denial.reason_message,
+                denial.note ? `Note: ${denial.note}` : null,
+                denial.denied_by ? `By <@${denial.denied_by}> ${toTimestamp(denial.denied_at)}` : toTimestamp(denial.denied_at)
+            ].filter(Boolean).join('\n').slice(0, 1024)
+        });
+    }
+
+    if (interviews.length > 0) {
+        details.addFields({
+            name: 'Interviews',
+            value: interviews.map(interview =>
+                `${toTimestamp(interview.recorded_at, 'D')} **${interview.outcome.replace('_', '-')}** by <@${interview.recorded_by}>`
+                + (interview.note ? ` — ${interview.note}` : '')
+            ).join('\n').slice(0, 1024)
+        });
+    }
+
+    if (deliveries.length > 0) {
+        details.addFields({
+            name: 'Notifications',
+            value: deliveries.map(delivery =>
+                `${toTimestamp(delivery.created_at, 'D')} ${delivery.outcome} via **${delivery.method === 'dm' ? 'DM' : 'channel'}**: `
+                + delivery.status + (delivery.detail ? ` — ${delivery.detail}` : '')
+            ).join('\n').slice(0, 1024)
+        });
+    }
+
+    const undelivered = outbox.filter(message => message.status !== 'sent');
+    if (undelivered.length > 0) {
+        details.addFields({
+            name: 'Undelivered Notifications',
+            value: undelivered.map(message =>
+                `\`${message.id}\` ${message.kind.replace('_', ' ')}: `
+                + (message.status === 'failed' ? 'gave up' : `${message.attempts} failed attempt(s)`)
+                + (message.last_error ? ` — ${message.last_error}` : '')
+            ).join('\n').slice(0, 1024)
+        });
+    }
+
+    if (archive) {
+        details.addFields({
+            name: 'Archive',
+            value: `Snapshot taken ${toTimestamp(archive.archived_at, 'D')}`
+                + (archive.purged_at ? `; personal data purged ${toTimestamp(archive.purged_at, 'D')}` : '')
+        });
+    }
+
+    const historyLines = history.map(entry => {
+        const from = entry.from_state ? `${formatState(entry.from_state)} → ` : '';
+        const actor = entry.actor_id ? ` by <@${entry.actor_id}>` : ` via ${entry.source.replace('_', ' ')}`;
+        const note = entry.note ? ` — ${entry.note}` : '';
+        return `${toTimestamp(entry.created_at, 'f')} ${from}**${formatState(entry.to_state)}**${actor}${note}`;
+    });
+
+    const historyPages = chunkLines(historyLines, 15).map(lines => new EmbedBuilder()
+        .setTitle(`Application #${formId}: History`)
+        .setColor(STATE_COLORS[application.state])
+        .setDescription(lines.join('\n')));
+
+    const archivePages = archive && !archive.purged_at ? [createArchiveEmbed(archive)] : [];
+    await sendPaginatedEmbeds(interaction, [details, ...historyPages, ...archivePages]);
+}
+
+function createArchiveEmbed(archive: ApplicantArchive): EmbedBuilder {
+    const answers = Object.entries(archive.answers ?? {})
+        .filter(([, value]) => value !== null && value !== undefined && value !== '')
+        .slice(0, 15)
+        .map(([field, value]) => ({
+            name: formatAnswerLabel(field).slice(0, 256),
+            value: String(typeof value === 'object' ? JSON.stringify(value) : value).slice(0, 1024)
+        }));
+
+    return new EmbedBuilder()
+        .setTitle(`Application #${archive.form_id}: Archived Submission`)
+        .setColor(Colors.DarkGrey)
+        .addFields(
+            { name: 'Name', value: archive.first_name || 'Unknown', inline: true },
+            { name: 'Discord Name', value: archive.discord_name || 'Unknown', inline: true },
+            { name: 'Date of Birth', value: archive.date_of_birth || 'Unknown', inline: true },
+            { name: 'Email', value: archive.email_address || 'Unknown', inline: true },
+            { name: 'Arma 3 ID', value: archive.arma_3_id || 'Unknown', inline: true },
+            { name: 'Position', value: archive.preferred_position || 'Unknown', inline: true },
+            {
+                name: 'Denial',
+                value: [
+                    archive.reason_label ? `**${archive.reason_label}**` : null,
+                    archive.reason_message,
+                    archive.denied_by ? `By <@${archive.denied_by}>` : null
+                ].filter(Boolean).join('\n').slice(0, 1024) || 'Not recorded'
+            },
+            ...answers
+        )
+        .setFooter({ text: 'Answers as submitted in PERSCOM before the user was deleted' });
+}
+
+async function showStatistics(interaction: ChatInputCommandInteraction, databaseService: DatabaseService): Promise<void> {
+    const days = interaction.options.getInteger('days') ?? 90;
+    const [counts, decisionTimes, oldestPending] = await Promise.all([
+        databaseService.getApplicationStateCounts(),
+        databaseService.getDecisionTimes(new Date(Date.now() - days * DAY_MS)),
+        databaseService.getOldestApplication(PENDING_REVIEW_STATES)
+    ]);
+    const summary = summarizeDecisionTimes(decisionTimes);
+    const waiting = PENDING_REVIEW_STATES.reduce((sum, state) => sum + (counts.get(state) ?? 0), 0);
+    const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+
+    const embed = new EmbedBuilder()
+        .setTitle('Application Queue Statistics')
+        .setColor(Colors.Blue)
+        .addFields(
+            {
+                name: `By Status (${total} total)`,
+                value: STATE_CHOICES.map(choice => `${choice.name}: **${counts.get(choice.value) ?? 0}**`).join('\n')
+            },
+            {
+                name: `Decisions (last ${days} days)`,
+                value: [
+                    `Decided: **${summary.decided}**`,
+                    `Median time to decision: **${formatHours(summary.medianHours)}**`,
+                    `Average time to decision: **${formatHours(summary.averageHours)}**`
+                ].join('\n')
+            },
+            {
+                name: 'Queue',
+                value: oldestPending
+                    ? `${waiting} waiting; oldest is #${oldestPending.form_id} (${oldestPending.first_name}) from ${toTimestamp(oldestPending.created_at)}`
+                    : 'Nothing waiting for review.'
+            }
+        )
+        .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+export const applicationsCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-applications')
+        .setDescription('Browse the application queue')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('List pending or recent applications')
+                .addStringOption(option =>
+                    option.setName('scope')
+                        .setDescription('Which applications to list (default: pending)')
+                        .setRequired(false)
+                        .addChoices(
+                            { name: 'Pending review', value: 'pending' },
+                            { name: 'Recent', value: 'recent' },
+                            { name: 'All', value: 'all' }
+                        ))
+                .addStringOption(option =>
+                    option.setName('status')
+                        .setDescription('Only this status')
+                        .setRequired(false)
+                        .addChoices(...STATE_CHOICES))
+                .addStringOption(option =>
+                    option.setName('position')
+                        .setDescription('Only positions containing this text')
+                        .setRequired(false))
+                .addIntegerOption(option =>
+                    option.setName('days')
+                        .setDescription('How far back "recent" goes (default: 30)')
+                        .setRequired(false)
+                        .setMinValue(1)
+                        .setMaxValue(365)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('show')
+                .setDescription("Show an applicant's details and history")
+                .addIntegerOption(option =>
+                    option.setName('form_id')
+                        .setDescription('PERSCOM submission ID')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('stats')
+                .setDescription('Show queue statistics')
+                .addIntegerOption(option =>
+                    option.setName('days')
+                        .setDescription('Window for decision times (default: 90)')
+                        .setRequired(false)
+                        .setMinValue(1)
+                        .setMaxValue(365))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        await interaction.deferReply({ ephemeral: true });
+
+        await withApplicationDatabase(async databaseService => {
+            if (!await isApplicationStaff(databaseService, interaction)) {
+                await interaction.editReply({ content: 'You do not have permission to use this command.' });
+                return;
+            }
+
+            switch (interaction.options.getSubcommand()) {
+                case 'list':
+                    await listApplications(interaction, databaseService);
+                    break;
+                case 'show':
+                    await showApplication(interaction, databaseService);
+                    break;
+                case 'stats':
+                    await showStatistics(interaction, databaseService);
+                    break;
+            }
+        });
+    }
+};
@@ -1,8 +1,18 @@
 import { ChatInputCommandInteraction, SlashCommandBuilder, StringSelectMenuBuilder, ActionRowBuilder, EmbedBuilder, Colors, StringSelectMenuInteraction, ComponentType,
-    Guild } from "discord.js";
+    AttachmentBuilder, GuildMember } from "discord.js";
 import Table from 'cli-table3';
 import { Command } from "../interfaces/Command";
-import { getPlayerAttendance, AttendanceRecord, TRACKING_START_DATE } from "../services/attendanceService";
+import { getPlayerAttendance, AttendanceRecord } from "../services/attendanceService";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import {
+    RaidSchedule, TRACKING_START_DATE, TRACKING_START_KEY, attendanceRate, dateKey, todayKey, weekdayOf
+} from "../services/raidSchedule";
+import { LeaveRequest } from "../services/leaveOfAbsence";
+import { normalizePlayerName, resolveReportRange, tallyMemberAttendance } from "../services/attendanceReport";
+import { exportFileName, formatAttendanceExport, isExportFormat } from "../services/attendanceExport";
+import { loadAttendanceExport } from "../services/attendanceExportService";
+import { fetchGuildMembers } from "../utils/discordMembers";
+import { hasAdminRole } from "../utils/permissions";
 
 function getMemberOptions(members: Array<{ id: string, displayName: string }>, page: number = 0) {
     const ITEMS_PER_PAGE = 24;
@@ -30,23 +40,59 @@ function getMemberOptions(members: Array<{ id: string, displayName: string }>, p
 export const attendanceCommand: Command = {
     data: new SlashCommandBuilder()
         .setName('nswg-attendance')
-        .setDescription('View member attendance calendar')
-        .addStringOption(option =>
-            option.setName('month')
-                .setDescription('Select which month to view')
-                .setRequired(false)
-                .addChoices(
-                    { name: '📆 Choose Custom Date', value: 'custom' },
-                    { name: '⬅️ Last Month', value: 'last' },
-                    { name: '⬅️ Two Months Ago', value: 'two_months_ago' },
-                    { name: '⬅️ Three Months Ago', value: 'three_months_ago' }
-                ))
-        .addStringOption(option =>
-            option.setName('custom_date')
-                .setDescription('For custom date, enter MM/YYYY format (e.g., 02/2024)')
-                .setRequired(false)) as SlashCommandBuilder,
+        .setDescription('View or export member attendance')
+        .addSubcommand(subcommand =>
+            subcommand.setName('view')
+                .setDescription('View member attendance calendar')
+                .addStringOption(option =>
+                    option.setName('month')
+                        .setDescription('Select which month to view')
+                        .setRequired(false)
+                        .addChoices(
+                            { name: '📆 Choose Custom Date', value: 'custom' },
+                            { name: '⬅️ Last Month', value: 'last' },
+                            { name: '⬅️ Two Months Ago', value: 'two_months_ago' },
+                            { name: '⬅️ Three Months Ago', value: 'three_months_ago' }
+                        ))
+                .addStringOption(option =>
+                    option.setName('custom_date')
+                        .setDescription('For custom date, enter MM/YYYY format (e.g., 02/2024)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('export')
+                .setDescription('Staff only: download attendance as a CSV or JSON file')
+                .addStringOption(option =>
+                    option.setName('format')
+                        .setDescription('File format (default: CSV)')
+                        .setRequired(false)
+                        .addChoices({ name: 'CSV', value: 'csv' }, { name: 'JSON', value: 'json' }))
+                .addUserOption(option =>
+                    option.setName('member')
+                        .setDescription('Only this member')
+                        .setRequired(false))
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('Only members with this role (default: whole unit)')
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName('month')
+                        .setDescription('Month in MM/YYYY format (default: this month)')
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName('from')
+                        .setDescription('Start of a date range, YYYY-MM-DD (overrides month)')
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName('to')
+                        .setDescription('End of the date range, YYYY-MM-DD (default: today)')
+                        .setRequired(false))) as SlashCommandBuilder,
 
     async execute(interaction: ChatInputCommandInteraction) {
+        if (interaction.options.getSubcommand() === 'export') {
+            await exportAttendance(interaction);
+            return;
+        }
+
         try {
             await interaction.deferReply();
 
@@ -226,12 +272,20 @@ export const attendanceCommand: Command = {
             };
 
             try {
-                const attendanceData = await getPlayerAttendance(memberInfo.displayName);
+                const [attendanceData, [schedule, leave]] = await Promise.all([
+                    getPlayerAttendance(memberInfo.displayName),
+                    withApplicationDatabase(databaseService => Promise.all([
+                        databaseService.getRaidSchedule(),
+                        databaseService.getLeaveRequests(memberInfo.id)
+                    ]))
+                ]);
                 const calendar = generateCalendarEmbed(
                     memberInfo.displayName,
                     attendanceData,
                     currentYear,
-                    currentMonth
+                    currentMonth,
+                    schedule,
+                    leave
                 );
 
                 await interaction.deleteReply();
@@ -265,71 +319,61 @@ export const attendanceCommand: Command = {
     }
 };
 
-async function fetchGuildMembers(guild: Guild) {
-    try {
-        console.log(`Attempting to fetch members for server: ${guild.name} (ID: ${guild.id})`);
-        console.log(`Current cache size: ${guild.members.cache.size}`);
-        
-        if (guild.members.cache.size > 0) {
-            console.log(`Using ${guild.members.cache.size} cached members from ${guild.name}`);
-            return Array.from(guild.members.cache.values());
-        }
+async function exportAttendance(interaction: ChatInputCommandInteraction): Promise<void> {
+    if (!hasAdminRole(interaction.member as GuildMember)) {
+        await interaction.reply({
+            content: 'You do not have permission to use this command.',
+            ephemeral: true
+        });
+        return;
+    }
+    if (!interaction.guild) {
+        await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+        return;
+    }
 
-        if (guild.features.includes('COMMUNITY')) {
-            console.log(`${guild.name} is a community server, attempting chunk-based fetch...`);
-            try {
-                const members = await guild.members.fetch({ withPresences: false });
-                console.log(`Successfully fetched ${members.size} members from community server ${guild.name}`);
-                return Array.from(members.values());
-            } catch (chunkError) {
-                console.error(`Chunk fetch failed for community server ${guild.name}:`, chunkError);
-            }
-        }
+    const format = interaction.options.getString('format') ?? 'csv';
+    const range = resolveReportRange(
+        interaction.options.getString('month')?.trim() ?? null,
+        interaction.options.getString('from')?.trim() ?? null,
+        interaction.options.getString('to')?.trim() ?? null,
+        todayKey(),
+        TRACKING_START_KEY
+    );
+    if (typeof range === 'string' || !isExportFormat(format)) {
+        await interaction.reply({ content: typeof range === 'string' ? range : 'Unknown format.', ephemeral: true });
+        return;
+    }
+    const member = interaction.options.getUser('member');
+    const role = interaction.options.getRole('role');
 
-        console.log(`Fetching members for ${guild.name} using regular fetch...`);
-        const members = await guild.members.fetch({
-            time: 120000, 
-            withPresences: false
-        });
-        
-        console.log(`Successfully fetched ${members.size} members from ${guild.name}`);
-        
-        const sampleMembers = Array.from(members.values()).slice(0, 3);
-        sampleMembers.forEach(member => {
-            console.log(`Sample member: ${member.user.tag} (${member.displayName})`);
-        });
-        
-        return Array.from(members.values());
-    } catch (error) {
-        console.error(`Error fetching guild members for ${guild.name}:`, error);
-        if (error instanceof Error) {
-            console.error('Error details:', error.message);
-            if ('code' in error) {
-                const errorCode = (error as any).code;
-                console.error('Discord error code:', errorCode);
-                
-                if (errorCode === 50001) {
-                    console.error('Missing access - Bot lacks necessary permissions');
-                } else if (errorCode === 50013) {
-                    console.error('Missing permissions - Bot needs additional permissions');
-                }
-            }
-        }
+    await interaction.deferReply({ ephemeral: true });
 
-        if (guild.members.cache.size > 0) {
-            console.warn(`Falling back to cached members (${guild.members.cache.size} members) for ${guild.name}`);
-            return Array.from(guild.members.cache.values());
-        }
-        
-        return null;
+    const data = await loadAttendanceExport(interaction.guild, {
+        range,
+        memberIds: member ? [member.id] : [],
+        roleId: role?.id ?? null
+    });
+    if (data.members.length === 0) {
+        await interaction.editReply({ content: 'No members match.' });
+        return;
     }
+
+    const scope = member ? `<@${member.id}>` : role ? `members of ${role.name}` : 'the whole unit';
+    await interaction.editReply({
+        content: `Attendance for ${scope}: ${data.members.length} member(s), ${data.raids.length} raid(s) from ${range.from} to ${range.to}.`,
+        files: [new AttachmentBuilder(Buffer.from(formatAttendanceExport(data, format)), { name: exportFileName(range, format) })],
+        allowedMentions: { parse: [] }
+    });
 }
 
 function generateCalendarEmbed(
     memberName: string, 
     attendanceData: AttendanceRecord[], 
     year: number, 
-    month: number
+    month: number,
+    schedule: RaidSchedule,
+    leave: LeaveRequest[]
 ): EmbedBuilder {
     console.log('Generating calendar for:', {
         memberName,
@@ -341,25 +385,10 @@ function generateCalendarEmbed(
     const calendar = new EmbedBuilder()
         .setTitle(`Attendance Calendar for ${memberName}`)
         .setColor(Colors.Blue)
-        .setDescription('Monthly Calendar View\n🟩 = Present | 🟥 = Absent | ⬜ = Not a Raid Day');
+        .setDescription('Monthly Calendar View\n🟩 = Present | 🟥 = Absent | 🟦 = Excused | ⬜ = Not a Raid Day');
 
-    const normalizedMemberName = memberName.replace(/\s+/g, '');
-    console.log('Normalized member name:', normalizedMemberName);
-    
-    const monthAttendance = attendanceData.filter(record => {
-        const normalizedRecordName = record.player.replace(/\s+/g, '');
-        const matchesMonth = record.date.getUTCFullYear() === year && record.date.getUTCMonth() === month;
-        const matchesName = normalizedRecordName === normalizedMemberName;
-        return matchesMonth && matchesName;
-    });
-
-    console.log('Filtered attendance records for month:', monthAttendance);
-
-    const overallAttendance = attendanceData.filter(record => {
-        const normalizedRecordName = record.player.replace(/\s+/g, '');
-        return record.date >= TRACKING_START_DATE && 
-               normalizedRecordName === normalizedMemberName;
-    });
+    const normalizedMemberName = normalizePlayerName(memberName);
+    const memberRecords = attendanceData.filter(record => normalizePlayerName(record.player) === normalizedMemberName);
 
     const table = new Table({
         chars: {
@@ -389,89 +418,36 @@ function generateCalendarEmbed(
         hAlign: 'center'
     })));
 
-    const firstDay = new Date(Date.UTC(year, month, 1));
     const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
     let currentWeek = new Array(7).fill({ content: '  ', hAlign: 'center' });
-    let totalRaidDays = 0;
-    let attendedRaidDays = 0;
-
-    const isRaidDay = (date: Date): boolean => {
-        // First check if date matches tracking start date exactly
-        if (date.getUTCFullYear() === TRACKING_START_DATE.getUTCFullYear() &&
-            date.getUTCMonth() === TRACKING_START_DATE.getUTCMonth() &&
-            date.getUTCDate() === TRACKING_START_DATE.getUTCDate()) {
-            return true;
-        }
-        
-        // Then do the normal checks
-        if (date < TRACKING_START_DATE) {
-            return false;
-        }
 
-        // Raid days are Wednesday and Saturday in local time (EST)
-        // We're checking the raid_type from the record if available
-        // Otherwise use the day of week
-        const dayOfWeek = date.getUTCDay();
-        return dayOfWeek === 3 || dayOfWeek === 6; // Wednesday and Saturday
-    };
-
-    const compareDates = (date1: Date, date2: Date): boolean => {
-        const date1Time = Date.UTC(date1.getUTCFullYear(), date1.getUTCMonth(), date1.getUTCDate());
-        const date2Time = Date.UTC(date2.getUTCFullYear(), date2.getUTCMonth(), date2.getUTCDate());
-        return date1Time === date2Time;
-    };
-
-    const isCurrentMonth = year === new Date().getUTCFullYear() && month === new Date().getUTCMonth();
-    const lastDayToCount = isCurrentMonth ? new Date() : new Date(Date.UTC(year, month + 1, 0));
+    // Raid dates are Eastern calendar dates; the current month only counts up to today.
+    const today = todayKey();
+    const monthEnd = dateKey(year, month, lastDay);
+    const monthTally = tallyMemberAttendance(
+        schedule, memberRecords, leave, { from: dateKey(year, month, 1), to: monthEnd < today ? monthEnd : today }
+    );
+    const raidDays = new Set(monthTally.raidDays);
+    const attendedDays = new Set(monthTally.attended);
+    const excusedRaidDays = new Set(monthTally.excused);
 
     for (let day = 1; day <= lastDay; day++) {
-        const date = new Date(Date.UTC(year, month, day)); 
-        const dayOfWeek = date.getUTCDay();
-        const raidDay = isRaidDay(date);
+        const key = dateKey(year, month, day);
+        const dayOfWeek = weekdayOf(key);
 
         let dayText = day.toString().padStart(2);
         let cellStyle = { hAlign: 'center' as const };
 
-        if (raidDay && date <= lastDayToCount) {
-            totalRaidDays++;
-            
-            const wasPresent = monthAttendance.some(record => {
-                // Check if we have a direct match for this date in UTC
-                const recordDate = new Date(Date.UTC(
-                    record.date.getUTCFullYear(),
-                    record.date.getUTCMonth(), 
-                    record.date.getUTCDate()
-                ));
-                
-                const calendarDate = new Date(Date.UTC(year, month, day));
-                
-                // If the record has a raid_type field containing SAT or WED,
-                // use that to determine if this is a match for this day
-                if (record.raid_type) {
-                    const isWednesday = record.raid_type.includes('WED') && dayOfWeek === 3;
-                    const isSaturday = record.raid_type.includes('SAT') && dayOfWeek === 6;
-                    
-                    if (isWednesday || isSaturday) {
-                        // Check if the month and year match
-                        const sameMonth = record.date.getUTCMonth() === month;
-                        const sameYear = record.date.getUTCFullYear() === year;
-                        
-                        if (sameMonth && sameYear) {
-                            return true;
-                        }
-                    }
-                }
-                
-                // Fall back to direct date comparison
-                return recordDate.getTime() === calendarDate.getTime();
-            });
-            
-            if (wasPresent) {
-                attendedRaidDays++;
+        if (raidDays.has(key)) {
+            if (attendedDays.has(key)) {
                 dayText = `\x1b[32;1m${dayText}\x1b[0m`; // Green for present
             } else {
                 dayText = `\x1b[31;1m${dayText}\x1b[0m`; // Red for absent
             }
+        } else if (excusedRaidDays.has(key)) {
+            dayText = `\x1b[34;1m${dayText}\x1b[0m`; // Blue for excused
+        } else if (schedule.isCancelled(key)) {
+            dayText = `\x1b[30m${dayText}\x1b[0m`; // Grey for cancelled
         }
 
         currentWeek[dayOfWeek] = { content: dayText, ...cellStyle };
@@ -486,27 +462,21 @@ function generateCalendarEmbed(
     calendarText += table.toString();
     calendarText += '\n```';
 
-    let totalOverallRaidDays = 0;
-    let totalOverallAttendedDays = overallAttendance.length;
-
-    let currentDate = new Date(TRACKING_START_DATE);
-    const today = new Date();
-    
-    while (currentDate <= today) {
-        if (isRaidDay(currentDate)) {
-            totalOverallRaidDays++;
-        }
-        currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    const monthlyAttendanceRate = totalRaidDays ? Math.round((attendedRaidDays / totalRaidDays) * 100) : 0;
-    const overallAttendanceRate = totalOverallRaidDays ? Math.round((totalOverallAttendedDays / totalOverallRaidDays) * 100) : 0;
+    const overallTally = tallyMemberAttendance(schedule, memberRecords, leave, { from: schedule.trackingStart, to: today });
+    const totalRaidDays = monthTally.raidDays.length;
+    const attendedRaidDays = monthTally.attended.length;
 
-    if (attendedRaidDays === 0 && totalRaidDays === 0) {
+    if (attendedRaidDays === 0 && totalRaidDays === 0 && monthTally.excused.length === 0) {
         calendarText += `\nNo attendance data available yet. Tracking begins ${TRACKING_START_DATE.toLocaleDateString()}`;
     } else {
-        calendarText += `\nThis Month's Attendance: ${monthlyAttendanceRate}% (${attendedRaidDays}/${totalRaidDays} raids)`;
-        calendarText += `\nOverall Attendance: ${overallAttendanceRate}% (${totalOverallAttendedDays}/${totalOverallRaidDays} total raids)`;
+        calendarText += `\nThis Month's Attendance: ${attendanceRate(monthTally)}% (${attendedRaidDays}/${totalRaidDays} raids)`;
+        calendarText += `\nOverall Attendance: ${attendanceRate(overallTally)}% (${overallTally.attended.length}/${overallTally.raidDays.length} total raids)`;
+    }
+    if (monthTally.excused.length > 0) {
+        calendarText += `\nBlue dates were excused (${monthTally.excused.length} raid${monthTally.excused.length === 1 ? '' : 's'} on leave) and do not count.`;
+    }
+    if (schedule.exceptions.some(exception => exception.kind === 'cancelled' && exception.date.startsWith(monthEnd.slice(0, 7)))) {
+        calendarText += '\nGrey dates were cancelled.';
     }
 
     calendar.setDescription(calendarText);
@@ -0,0 +1,151 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { getAttendanceBetween } from "../services/attendanceService";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import {
+    AttendanceSort, MemberAttendance, buildAttendanceReport, resolveReportRange, sortAttendanceReport
+} from "../services/attendanceReport";
+import { TRACKING_START_KEY, addDays, formatDateKey, todayKey } from "../services/raidSchedule";
+import { fetchGuildMembers } from "../utils/discordMembers";
+import { chunkLines, sendPaginatedEmbeds } from "../utils/pagination";
+import { hasAdminRole } from "../utils/permissions";
+
+const REPORT_PAGE_SIZE = 25;
+const DEFAULT_THRESHOLD = 50;
+
+const SORT_CHOICES: { name: string; value: AttendanceSort }[] = [
+    { name: 'Lowest attendance first', value: 'rate_asc' },
+    { name: 'Highest attendance first', value: 'rate_desc' },
+    { name: 'Most raids missed first', value: 'missed' },
+    { name: 'Name', value: 'name' }
+];
+
+function formatReportLine(row: MemberAttendance, threshold: number): string {
+    const excused = row.tally.excused.length > 0 ? ` · ${row.tally.excused.length} excused` : '';
+    if (row.rate === null) {
+        return `▫️ ${row.displayName} · no raids to count${excused}`;
+    }
+    const summary = `${row.rate}% (${row.tally.attended.length}/${row.tally.raidDays.length})${excused}`;
+    return row.rate < threshold ? `⚠️ **${row.displayName}** · **${summary}**` : `✅ ${row.displayName} · ${summary}`;
+}
+
+export const attendanceReportCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-attendance-report')
+        .setDescription('Show every member\'s attendance rate for a month or date range')
+        .setDefaultMemberPermissions('0')
+        .addStringOption(option =>
+            option.setName('month')
+                .setDescription('Month in MM/YYYY format (default: this month)')
+                .setRequired(false))
+        .addStringOption(option =>
+            option.setName('from')
+                .setDescription('Start of a date range, YYYY-MM-DD (overrides month)')
+                .setRequired(false))
+        .addStringOption(option =>
+            option.setName('to')
+                .setDescription('End of the date range, YYYY-MM-DD (default: today)')
+                .setRequired(false))
+        .addRoleOption(option =>
+            option.setName('role')
+                .setDescription('Only members with this role')
+                .setRequired(false))
+        .addStringOption(option =>
+            option.setName('sort')
+                .setDescription('Order of the roster (default: lowest attendance first)')
+                .setRequired(false)
+                .addChoices(...SORT_CHOICES))
+        .addIntegerOption(option =>
+            option.setName('threshold')
+                .setDescription(`Highlight members below this percentage (default: ${DEFAULT_THRESHOLD})`)
+                .setRequired(false)
+                .setMinValue(0)
+                .setMaxValue(100)) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+        if (!interaction.guild) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const range = resolveReportRange(
+            interaction.options.getString('month')?.trim() ?? null,
+            interaction.options.getString('from')?.trim() ?? null,
+            interaction.options.getString('to')?.trim() ?? null,
+            todayKey(),
+            TRACKING_START_KEY
+        );
+        if (typeof range === 'string') {
+            await interaction.reply({ content: range, ephemeral: true });
+            return;
+        }
+        const role = interaction.options.getRole('role');
+        const sort = (interaction.options.getString('sort') ?? 'rate_asc') as AttendanceSort;
+        const threshold = interaction.options.getInteger('threshold') ?? DEFAULT_THRESHOLD;
+
+        await interaction.deferReply({ ephemeral: true });
+
+        const members = await fetchGuildMembers(interaction.guild);
+        if (!members) {
+            await interaction.editReply({
+                content: 'Unable to fetch server members. Please ensure the bot has the correct permissions and try again.'
+            });
+            return;
+        }
+        const roster = members
+            .filter(member => !member.user.bot && (!role || member.roles.cache.has(role.id)))
+            .map(member => ({ id: member.id, displayName: member.displayName }));
+
+        // Raids run past midnight, so the last night's records can be logged the next morning.
+        const [records, [schedule, leave]] = await Promise.all([
+            getAttendanceBetween(new Date(`${range.from}T00:00:00Z`), new Date(`${addDays(range.to, 2)}T00:00:00Z`)),
+            withApplicationDatabase(databaseService => Promise.all([
+                databaseService.getRaidSchedule(),
+                databaseService.getApprovedLeaveBetween(range.from, range.to)
+            ]))
+        ]);
+
+        const period = range.from === range.to
+            ? formatDateKey(range.from)
+            : `${formatDateKey(range.from)} – ${formatDateKey(range.to)}`;
+        const raidCount = schedule.raidDays(range.from, range.to).length;
+        const title = `Attendance Report · ${period}`;
+
+        if (roster.length === 0 || raidCount === 0) {
+            await interaction.editReply({
+                embeds: [new EmbedBuilder()
+                    .setTitle(title)
+                    .setColor(Colors.Blue)
+                    .setDescription(roster.length === 0 ? 'No members match.' : 'No raids were scheduled in this period.')]
+            });
+            return;
+        }
+
+        const rows = sortAttendanceReport(buildAttendanceReport(schedule, roster, records, leave, range), sort);
+        const counted = rows.filter(row => row.rate !== null);
+        const expected = counted.reduce((sum, row) => sum + row.tally.raidDays.length, 0);
+        const attended = counted.reduce((sum, row) => sum + row.tally.attended.length, 0);
+        const below = counted.filter(row => row.rate! < threshold).length;
+        const average = expected > 0 ? `${Math.round((attended / expected) * 100)}%` : 'n/a';
+        const header = [
+            ...(role ? [`*Role: ${role.name}*`] : []),
+            `${raidCount} raids · ${rows.length} members · unit average **${average}**`,
+            `⚠️ ${below} below ${threshold}%`,
+            ''
+        ];
+
+        const pages = chunkLines(rows.map(row => formatReportLine(row, threshold)), REPORT_PAGE_SIZE).map(lines => new EmbedBuilder()
+            .setTitle(title)
+            .setColor(below > 0 ? Colors.Orange : Colors.Green)
+            .setDescription([...header, ...lines].join('\n')));
+
+        await sendPaginatedEmbeds(interaction, pages);
+    }
+};
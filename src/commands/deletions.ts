@@ -0,0 +1,140 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { UserDeletionService } from "../services/userDeletionService";
+import { UserDeletion } from "../services/deletionGuard";
+import { PerscomService } from "../services/request_perscom";
+import { PerscomClient } from "../services/perscomClient";
+import { hasAdminRole } from "../utils/permissions";
+import { config } from "../config/config";
+
+function formatDeletion(deletion: UserDeletion): string {
+    const requested = Math.floor(new Date(deletion.requested_at).getTime() / 1000);
+    return `\`#${deletion.form_id}\` **${deletion.first_name}** · PERSCOM user ${deletion.perscom_user_id} · <t:${requested}:R>`;
+}
+
+function createUserDeletionService(interaction: ChatInputCommandInteraction): UserDeletionService {
+    const perscomService = new PerscomService(new PerscomClient(config.BEARER_TOKEN_PERSCOM, {
+        baseUrl: config.PERSCOM_BASE_URL,
+        maxRetries: config.PERSCOM_MAX_RETRIES
+    }));
+    return new UserDeletionService(interaction.client, config.NEW_APPLICATION_CHANNEL_ID, perscomService, {
+        requireApproval: config.PERSCOM_DELETE_APPROVAL,
+        maxPerCycle: config.PERSCOM_MAX_DELETIONS_PER_CYCLE
+    });
+}
+
+export const deletionsCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-deletions')
+        .setDescription('Review queued PERSCOM deletions of denied applicants')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('status')
+                .setDescription('Show whether deletions are suspended and what is queued'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('approve')
+                .setDescription('Delete queued applicants from PERSCOM')
+                .addIntegerOption(option =>
+                    option.setName('form_id')
+                        .setDescription('Only this submission (default: everything queued)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('keep')
+                .setDescription('Keep a queued applicant in PERSCOM')
+                .addIntegerOption(option =>
+                    option.setName('form_id')
+                        .setDescription('PERSCOM submission ID')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('resume')
+                .setDescription('Lift a suspension so denials are deleted again')) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        await withApplicationDatabase(async databaseService => {
+            switch (interaction.options.getSubcommand()) {
+                case 'status': {
+                    const [suspension, pending] = await Promise.all([
+                        databaseService.getDeletionSuspension(),
+                        databaseService.getPendingUserDeletions()
+                    ]);
+                    const lines = pending.slice(0, 30).map(formatDeletion);
+                    if (pending.length > lines.length) {
+                        lines.push(`…and ${pending.length - lines.length} more`);
+                    }
+
+                    const embed = new EmbedBuilder()
+                        .setTitle('PERSCOM Deletions')
+                        .setColor(suspension ? Colors.Red : Colors.Blue)
+                        .addFields(
+                            {
+                                name: 'Guard',
+                                value: suspension
+                                    ? `Suspended <t:${Math.floor(new Date(suspension.suspended_at).getTime() / 1000)}:R>: ${suspension.reason}`
+                                    : `Active (${config.PERSCOM_DELETE_APPROVAL ? 'approval required' : 'automatic'}, `
+                                        + `max ${config.PERSCOM_MAX_DELETIONS_PER_CYCLE} per batch)`
+                            },
+                            { name: `Queued (${pending.length})`, value: lines.length > 0 ? lines.join('\n').slice(0, 1024) : 'Nothing queued.' }
+                        )
+                        .setTimestamp();
+                    await interaction.editReply({ embeds: [embed] });
+                    break;
+                }
+                case 'approve': {
+                    const formId = interaction.options.getInteger('form_id');
+                    const pending = formId !== null
+                        ? (await databaseService.getPendingUserDeletions()).filter(deletion => deletion.form_id === formId)
+                        : await databaseService.getPendingUserDeletions();
+                    if (pending.length === 0) {
+                        await interaction.editReply({ content: formId !== null ? `#${formId} is not queued for deletion.` : 'Nothing is queued.' });
+                        return;
+                    }
+
+                    const approved: UserDeletion[] = [];
+                    for (const deletion of pending) {
+                        if (await databaseService.decideUserDeletion(deletion.form_id, 'approved', interaction.user.id)) {
+                            approved.push(deletion);
+                        }
+                    }
+                    const result = await createUserDeletionService(interaction).deleteApproved(databaseService, approved);
+                    await interaction.editReply({
+                        content: [
+                            `Deleted ${result.deleted.length} PERSCOM user(s).`,
+                            result.failed.length > 0
+                                ? `Failed: ${result.failed.map(deletion => `#${deletion.form_id}`).join(', ')}; remove them by hand.`
+                                : null
+                        ].filter(Boolean).join(' ')
+                    });
+                    break;
+                }
+                case 'keep': {
+                    const formId = interaction.options.getInteger('form_id', true);
+                    const kept = await databaseService.decideUserDeletion(formId, 'kept', interaction.user.id);
+                    await interaction.editReply({
+                        content: kept ? `#${formId} will be kept in PERSCOM.` : `#${formId} is not queued for deletion.`
+                    });
+                    break;
+                }
+                case 'resume': {
+                    const resumed = await databaseService.resumeDeletions();
+                    await interaction.editReply({
+                        content: resumed
+                            ? 'Deletions resumed. Anything still queued needs `/nswg-deletions approve` or `keep`.'
+                            : 'Deletions were not suspended.'
+                    });
+                    break;
+                }
+            }
+        });
+    }
+};
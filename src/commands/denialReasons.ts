@@ -0,0 +1,97 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { hasAdminRole } from "../utils/permissions";
+
+export const denialReasonsCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-denial-reasons')
+        .setDescription('Manage the reasons reviewers can pick when denying an application')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('List denial reasons')
+                .addBooleanOption(option =>
+                    option.setName('include_removed')
+                        .setDescription('Also show removed reasons')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('Add a denial reason')
+                .addStringOption(option =>
+                    option.setName('label')
+                        .setDescription('Short name reviewers pick from (e.g. "Age requirement")')
+                        .setRequired(true)
+                        .setMaxLength(100))
+                .addStringOption(option =>
+                    option.setName('message')
+                        .setDescription('Text shown to the applicant')
+                        .setRequired(true)
+                        .setMaxLength(1000)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('Stop offering a denial reason')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Reason ID from /nswg-denial-reasons list')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('restore')
+                .setDescription('Offer a removed denial reason again')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Reason ID from /nswg-denial-reasons list')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            switch (subcommand) {
+                case 'list': {
+                    const reasons = await databaseService.getDenialReasons(
+                        interaction.options.getBoolean('include_removed') ?? false
+                    );
+                    const embed = new EmbedBuilder()
+                        .setTitle('Denial Reasons')
+                        .setColor(Colors.Red)
+                        .setDescription(reasons.length === 0
+                            ? 'No denial reasons configured.'
+                            : reasons.map(reason =>
+                                `**${reason.id}. ${reason.label}**${reason.active ? '' : ' (removed)'}\n${reason.message}`
+                            ).join('\n\n'))
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true });
+                    break;
+                }
+                case 'add': {
+                    const label = interaction.options.getString('label', true);
+                    const message = interaction.options.getString('message', true);
+                    const id = await databaseService.addDenialReason(label, message, interaction.user.id);
+                    await interaction.reply({ content: `Added denial reason ${id}: **${label}**`, ephemeral: true });
+                    break;
+                }
+                case 'remove':
+                case 'restore': {
+                    const id = interaction.options.getInteger('id', true);
+                    const updated = await databaseService.setDenialReasonActive(id, subcommand === 'restore');
+                    await interaction.reply({
+                        content: updated
+                            ? `Denial reason ${id} ${subcommand === 'restore' ? 'restored' : 'removed'}.`
+                            : `No denial reason with ID ${id}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+            }
+        });
+    }
+};
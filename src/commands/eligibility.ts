@@ -0,0 +1,130 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import {
+    ELIGIBILITY_RULE_LABELS, EligibilityRule, describeRule, isEligibilityAction, isEligibilityRuleType, parseRuleValue
+} from "../services/eligibility";
+import { hasAdminRole } from "../utils/permissions";
+
+const ACTION_LABELS = {
+    flag: 'Flag for reviewers',
+    hold: 'Put on hold',
+    deny: 'Deny automatically'
+};
+
+function formatRule(rule: EligibilityRule): string {
+    const action = rule.action === 'deny'
+        ? `${ACTION_LABELS.deny} (${rule.reason_label ?? 'default reason'})`
+        : ACTION_LABELS[rule.action];
+    return `**${rule.id}.** ${describeRule(rule)} · ${action}`;
+}
+
+export const eligibilityCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-eligibility')
+        .setDescription('Manage the eligibility rules checked on new applications')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('List eligibility rules'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('Check new applications against a rule')
+                .addStringOption(option =>
+                    option.setName('type')
+                        .setDescription('What to check')
+                        .setRequired(true)
+                        .addChoices(...Object.entries(ELIGIBILITY_RULE_LABELS).map(([value, name]) => ({ name, value }))))
+                .addStringOption(option =>
+                    option.setName('value')
+                        .setDescription('Minimum age, Arma 3 ID regular expression, or comma-separated positions')
+                        .setRequired(true)
+                        .setMaxLength(1000))
+                .addStringOption(option =>
+                    option.setName('action')
+                        .setDescription('What happens when an application clearly fails (default: flag)')
+                        .setRequired(false)
+                        .addChoices(...Object.entries(ACTION_LABELS).map(([value, name]) => ({ name, value }))))
+                .addIntegerOption(option =>
+                    option.setName('denial_reason')
+                        .setDescription('Denial reason ID sent when denying automatically (see /nswg-denial-reasons list)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('Stop checking a rule')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Rule ID from /nswg-eligibility list')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            switch (subcommand) {
+                case 'list': {
+                    const rules = await databaseService.getEligibilityRules();
+                    const embed = new EmbedBuilder()
+                        .setTitle('Eligibility Rules')
+                        .setColor(Colors.Blue)
+                        .setDescription(rules.length === 0
+                            ? 'No eligibility rules configured.'
+                            : rules.map(formatRule).join('\n').slice(0, 4096))
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true });
+                    break;
+                }
+                case 'add': {
+                    const type = interaction.options.getString('type', true);
+                    const action = interaction.options.getString('action') ?? 'flag';
+                    const reasonId = interaction.options.getInteger('denial_reason');
+                    if (!isEligibilityRuleType(type) || !isEligibilityAction(action)) {
+                        await interaction.reply({ content: 'Unknown rule type or action.', ephemeral: true });
+                        return;
+                    }
+
+                    let value: string;
+                    try {
+                        value = parseRuleValue(type, interaction.options.getString('value', true));
+                    } catch (error) {
+                        await interaction.reply({ content: error instanceof Error ? error.message : String(error), ephemeral: true });
+                        return;
+                    }
+                    if (reasonId !== null && action !== 'deny') {
+                        await interaction.reply({ content: 'A denial reason only applies to rules that deny automatically.', ephemeral: true });
+                        return;
+                    }
+                    const reason = reasonId !== null ? await databaseService.getDenialReason(reasonId) : null;
+                    if (reasonId !== null && !reason?.active) {
+                        await interaction.reply({ content: `No active denial reason with ID ${reasonId}.`, ephemeral: true });
+                        return;
+                    }
+
+                    const id = await databaseService.addEligibilityRule(type, value, action, reasonId, interaction.user.id);
+                    await interaction.reply({
+                        content: `Added eligibility rule ${id}: ${describeRule({ type, value })} · ${ACTION_LABELS[action]}`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'remove': {
+                    const id = interaction.options.getInteger('id', true);
+                    const removed = await databaseService.removeEligibilityRule(id);
+                    await interaction.reply({
+                        content: removed ? `Eligibility rule ${id} removed.` : `No eligibility rule with ID ${id}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+            }
+        });
+    }
+};
@@ -0,0 +1,275 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { DatabaseService } from "../services/database";
+import { isApplicationStaff } from "../services/staffAccess";
+import { InterviewOutcome, formatSlotTime, parseSlotStart } from "../services/interviewActions";
+import { ApplicationCycleServices, applyApplicationTransitions } from "../services/applicationCycle";
+import { APPLICATION_JOBS, jobScheduler } from "../services/applicationJobs";
+import { PerscomService, SUBMISSION_STATUSES } from "../services/request_perscom";
+import { PerscomClient } from "../services/perscomClient";
+import { NotificationService } from "../services/notificationService";
+import { AccountLinkService } from "../services/accountLinkService";
+import { MemberProvisioningService } from "../services/memberProvisioning";
+import { UserDeletionService } from "../services/userDeletionService";
+import { hasAdminRole } from "../utils/permissions";
+import { config } from "../config/config";
+
+const OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+    pass: 'Passed',
+    fail: 'Failed',
+    no_show: 'No-show'
+};
+
+const INTERVIEW_FAILED_REASON = 'You did not pass the interview.';
+
+/** For when another change to the application landed between loading it and moving it. */
+async function replyChanged(interaction: ChatInputCommandInteraction, databaseService: DatabaseService, formId: number): Promise<void> {
+    const current = await databaseService.getApplication(formId);
+    const content = `Application #${formId} changed while this was being saved and is now `
+        + `${current ? current.state.replace('_', ' ') : 'not tracked'}. Nothing was recorded.`;
+    if (interaction.deferred) {
+        await interaction.editReply({ content });
+    } else {
+        await interaction.reply({ content, ephemeral: true });
+    }
+}
+
+/** The services an interview outcome runs through, so a failed interview is denied like any other application. */
+function createApplicationServices(
+    interaction: ChatInputCommandInteraction,
+    databaseService: DatabaseService
+): ApplicationCycleServices {
+    const perscomService = new PerscomService(new PerscomClient(config.BEARER_TOKEN_PERSCOM, {
+        baseUrl: config.PERSCOM_BASE_URL,
+        maxRetries: config.PERSCOM_MAX_RETRIES
+    }));
+    return {
+        perscomService,
+        databaseService,
+        notificationService: new NotificationService(
+            interaction.client, config.APPLICATION_DISCORD_CHANNEL_ID, config.NEW_APPLICATION_CHANNEL_ID,
+            config.NOTIFICATION_DELIVERY
+        ),
+        accountLinkService: new AccountLinkService(interaction.client, config.NEW_APPLICATION_CHANNEL_ID),
+        memberProvisioningService: new MemberProvisioningService(
+            interaction.client, config.NEW_APPLICATION_CHANNEL_ID, config.ACCEPTED_NICKNAME_FORMAT
+        ),
+        userDeletionService: new UserDeletionService(interaction.client, config.NEW_APPLICATION_CHANNEL_ID, perscomService, {
+            requireApproval: config.PERSCOM_DELETE_APPROVAL,
+            maxPerCycle: config.PERSCOM_MAX_DELETIONS_PER_CYCLE
+        })
+    };
+}
+
+export const interviewsCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-interviews')
+        .setDescription('Publish interview slots and record interview outcomes')
+        .addSubcommand(subcommand =>
+            subcommand.setName('add-slot')
+                .setDescription('Publish a slot accepted applicants can book with you')
+                .addStringOption(option =>
+                    option.setName('start')
+                        .setDescription('Start time in UTC, YYYY-MM-DD HH:MM (e.g. 2025-03-10 23:30)')
+                        .setRequired(true))
+                .addIntegerOption(option =>
+                    option.setName('duration')
+                        .setDescription('Length in minutes (default: 30)')
+                        .setRequired(false)
+                        .setMinValue(10)
+                        .setMaxValue(180)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('slots')
+                .setDescription('List upcoming interview slots'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove-slot')
+                .setDescription('Withdraw an unbooked slot')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Slot ID from /nswg-interviews slots')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('outcome')
+                .setDescription('Record the result of an interview')
+                .addIntegerOption(option =>
+                    option.setName('form_id')
+                        .setDescription('PERSCOM submission ID')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('result')
+                        .setDescription('How the interview went')
+                        .setRequired(true)
+                        .addChoices(
+                            { name: 'Pass', value: 'pass' },
+                            { name: 'Fail', value: 'fail' },
+                            { name: 'No-show', value: 'no_show' }
+                        ))
+                .addStringOption(option =>
+                    option.setName('note')
+                        .setDescription('Optional note for the record')
+                        .setRequired(false)
+                        .setMaxLength(1000)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('enlist')
+                .setDescription('Mark an applicant who passed their interview as enlisted')
+                .addIntegerOption(option =>
+                    option.setName('form_id')
+                        .setDescription('PERSCOM submission ID')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            if (!await isApplicationStaff(databaseService, interaction)) {
+                await interaction.reply({ content: 'You do not have permission to use this command.', ephemeral: true });
+                return;
+            }
+
+            switch (subcommand) {
+                case 'add-slot': {
+                    const startsAt = parseSlotStart(interaction.options.getString('start', true));
+                    if (!startsAt) {
+                        await interaction.reply({ content: 'Use the format `YYYY-MM-DD HH:MM` in UTC.', ephemeral: true });
+                        return;
+                    }
+                    if (startsAt.getTime() <= Date.now()) {
+                        await interaction.reply({ content: 'That time has already passed.', ephemeral: true });
+                        return;
+                    }
+
+                    const duration = interaction.options.getInteger('duration') ?? 30;
+                    const id = await databaseService.addInterviewSlot(interaction.user.id, startsAt, duration);
+                    await interaction.reply({
+                        content: `Published slot ${id}: ${formatSlotTime({ starts_at: startsAt, duration_minutes: duration })}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'slots': {
+                    const slots = await databaseService.getUpcomingInterviewSlots();
+                    const lines = slots.slice(0, 40).map(slot =>
+                        `\`${slot.id}\` ${formatSlotTime(slot)} · <@${slot.reviewer_id}> · `
+                        + (slot.form_id !== null ? `booked by #${slot.form_id}` : 'open')
+                    );
+                    const embed = new EmbedBuilder()
+                        .setTitle('Upcoming Interview Slots')
+                        .setColor(Colors.Blue)
+                        .setDescription(lines.length > 0 ? lines.join('\n') : 'No upcoming slots. Add one with `/nswg-interviews add-slot`.')
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                    break;
+                }
+                case 'remove-slot': {
+                    const id = interaction.options.getInteger('id', true);
+                    const slot = await databaseService.getInterviewSlot(id);
+                    if (!slot) {
+                        await interaction.reply({ content: `No slot with ID ${id}.`, ephemeral: true });
+                        return;
+                    }
+                    if (slot.reviewer_id !== interaction.user.id && !hasAdminRole(interaction.member)) {
+                        await interaction.reply({ content: 'You can only withdraw your own slots.', ephemeral: true });
+                        return;
+                    }
+
+                    const removed = await databaseService.removeInterviewSlot(id);
+                    await interaction.reply({
+                        content: removed
+                            ? `Withdrew slot ${id}.`
+                            : `Slot ${id} is booked by application #${slot.form_id}; ask the applicant to pick another slot first.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'outcome': {
+                    const formId = interaction.options.getInteger('form_id', true);
+                    const outcome = interaction.options.getString('result', true) as InterviewOutcome;
+                    const note = interaction.options.getString('note');
+
+                    const application = await databaseService.getApplication(formId);
+                    if (!application || application.state !== 'accepted') {
+                        await interaction.reply({
+                            content: `Application #${formId} is ${application ? application.state.replace('_', ' ') : 'not tracked'}, not awaiting an interview.`,
+                            ephemeral: true
+                        });
+                        return;
+                    }
+
+                    await interaction.deferReply({ ephemeral: true });
+
+                    // A pass waits in 'interviewed' for `enlist`; a fail denies the application like a reviewer would.
+                    let perscomUpdated = true;
+                    if (outcome !== 'no_show') {
+                        const services = createApplicationServices(interaction, databaseService);
+                        const applied = await applyApplicationTransitions(
+                            services,
+                            [{
+                                application,
+                                target: outcome === 'pass' ? 'interviewed' : 'denied',
+                                denial: outcome === 'fail'
+                                    ? {
+                                        reason_id: null,
+                                        reason_label: 'Interview',
+                                        reason_message: INTERVIEW_FAILED_REASON,
+                                        note,
+                                        denied_by: interaction.user.id
+                                    }
+                                    : undefined
+                            }],
+                            'discord',
+                            interaction.user.id,
+                            [`Interview: ${OUTCOME_LABELS[outcome]}`, note].filter(Boolean).join(' — '),
+                            async ({ target }) => {
+                                if (target !== 'denied') return;
+                                try {
+                                    await services.perscomService.setSubmissionStatus(formId, SUBMISSION_STATUSES.DENIED);
+                                } catch (error) {
+                                    console.error(`Error setting the PERSCOM status of #${formId}:`, error);
+                                    perscomUpdated = false;
+                                }
+                            }
+                        );
+                        if (applied.length === 0) {
+                            await replyChanged(interaction, databaseService, formId);
+                            return;
+                        }
+                        if (outcome === 'fail') {
+                            jobScheduler.trigger(APPLICATION_JOBS.NOTIFICATION_OUTBOX);
+                        }
+                    }
+
+                    const slot = await databaseService.getBookedInterviewSlot(formId);
+                    await databaseService.recordInterviewOutcome(formId, slot?.id ?? null, outcome, note, interaction.user.id);
+
+                    const results: Record<InterviewOutcome, string> = {
+                        pass: `Recorded a passed interview for ${application.first_name}. Use \`/nswg-interviews enlist\` once they have enlisted.`,
+                        fail: `Recorded a failed interview for ${application.first_name}; their application is now denied.`
+                            + (perscomUpdated ? '' : ' PERSCOM could not be updated, so please set the submission to Denied there.'),
+                        no_show: `Recorded a no-show for ${application.first_name}. They can book another slot.`
+                    };
+                    await interaction.editReply({ content: results[outcome] });
+                    break;
+                }
+                case 'enlist': {
+                    const formId = interaction.options.getInteger('form_id', true);
+                    const application = await databaseService.getApplication(formId);
+                    if (!application || application.state !== 'interviewed') {
+                        await interaction.reply({
+                            content: `Application #${formId} is ${application ? application.state.replace('_', ' ') : 'not tracked'}, not a passed interview.`,
+                            ephemeral: true
+                        });
+                        return;
+                    }
+
+                    if (!await databaseService.transitionApplication(formId, 'interviewed', 'enlisted', 'discord', interaction.user.id)) {
+                        await replyChanged(interaction, databaseService, formId);
+                        return;
+                    }
+                    await interaction.reply({ content: `Marked ${application.first_name} as enlisted.`, ephemeral: true });
+                    break;
+                }
+            }
+        });
+    }
+};
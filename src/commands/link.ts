@@ -0,0 +1,129 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { AccountLinkService } from "../services/accountLinkService";
+import { AccountLink } from "../services/database";
+import { isApplicationStaff } from "../services/staffAccess";
+import { config } from "../config/config";
+
+function formatLink(link: AccountLink): string {
+    const linkedBy = link.linked_by ? ` by <@${link.linked_by}>` : '';
+    return `PERSCOM user **${link.perscom_user_id}** ↔ <@${link.discord_id}> (${link.method}${linkedBy})`;
+}
+
+export const linkCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-link')
+        .setDescription('Link PERSCOM accounts to Discord accounts')
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('Link a PERSCOM user to a Discord account')
+                .addIntegerOption(option =>
+                    option.setName('perscom_user_id')
+                        .setDescription('PERSCOM user ID')
+                        .setRequired(true))
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('Discord user to link (staff only, defaults to you)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('Unlink a PERSCOM user')
+                .addIntegerOption(option =>
+                    option.setName('perscom_user_id')
+                        .setDescription('PERSCOM user ID')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('show')
+                .setDescription('Show the link for a PERSCOM user or Discord user')
+                .addIntegerOption(option =>
+                    option.setName('perscom_user_id')
+                        .setDescription('PERSCOM user ID')
+                        .setRequired(false))
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('Discord user (defaults to you)')
+                        .setRequired(false))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            const staff = await isApplicationStaff(databaseService, interaction);
+
+            switch (subcommand) {
+                case 'add': {
+                    const perscomUserId = interaction.options.getInteger('perscom_user_id', true);
+                    const user = interaction.options.getUser('user') ?? interaction.user;
+
+                    if (staff) {
+                        await databaseService.saveAccountLink(perscomUserId, user.id, 'staff', interaction.user.id);
+                        await interaction.reply({
+                            content: `Linked PERSCOM user **${perscomUserId}** to <@${user.id}>.`,
+                            ephemeral: true,
+                            allowedMentions: { parse: [] }
+                        });
+                        return;
+                    }
+
+                    if (user.id !== interaction.user.id) {
+                        await interaction.reply({ content: 'You can only link your own Discord account.', ephemeral: true });
+                        return;
+                    }
+
+                    const existing = await databaseService.getAccountLink(perscomUserId);
+                    if (existing?.discord_id === user.id) {
+                        await interaction.reply({ content: 'Your account is already linked.', ephemeral: true });
+                        return;
+                    }
+
+                    const accountLinkService = new AccountLinkService(interaction.client, config.NEW_APPLICATION_CHANNEL_ID);
+                    const requested = await accountLinkService.requestSelfLink(databaseService, perscomUserId, user.id);
+                    await interaction.reply({
+                        content: requested
+                            ? 'Link request sent. Staff will confirm it shortly.'
+                            : 'Could not reach staff right now. Please try again later.',
+                        ephemeral: true
+                    });
+                    return;
+                }
+                case 'remove': {
+                    const perscomUserId = interaction.options.getInteger('perscom_user_id', true);
+                    const existing = await databaseService.getAccountLink(perscomUserId);
+                    if (!existing) {
+                        await interaction.reply({ content: `PERSCOM user ${perscomUserId} is not linked.`, ephemeral: true });
+                        return;
+                    }
+                    if (!staff && existing.discord_id !== interaction.user.id) {
+                        await interaction.reply({ content: 'You can only unlink your own account.', ephemeral: true });
+                        return;
+                    }
+
+                    await databaseService.removeAccountLink(perscomUserId);
+                    await interaction.reply({ content: `Unlinked PERSCOM user **${perscomUserId}**.`, ephemeral: true });
+                    return;
+                }
+                case 'show': {
+                    const perscomUserId = interaction.options.getInteger('perscom_user_id');
+                    const user = interaction.options.getUser('user') ?? interaction.user;
+                    if (!staff && (perscomUserId !== null || user.id !== interaction.user.id)) {
+                        await interaction.reply({ content: 'You can only look up your own links.', ephemeral: true });
+                        return;
+                    }
+
+                    const links = perscomUserId !== null
+                        ? [await databaseService.getAccountLink(perscomUserId)].filter((link): link is AccountLink => link !== null)
+                        : await databaseService.getAccountLinksForDiscordUser(user.id);
+
+                    const embed = new EmbedBuilder()
+                        .setTitle('Account Links')
+                        .setColor(Colors.Blue)
+                        .setDescription(links.length > 0 ? links.map(formatLink).join('\n') : 'No linked accounts.')
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                    return;
+                }
+            }
+        });
+    }
+};
@@ -0,0 +1,189 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { LeaveService } from "../services/leaveService";
+import {
+    LeaveCancellation, LeaveRequest, LeaveStatus, MAX_LEAVE_DAYS, findOverlappingLeave, formatLeavePeriod,
+    validateLeaveDates
+} from "../services/leaveOfAbsence";
+import { addDays, formatDateKey, todayKey } from "../services/raidSchedule";
+import { hasAdminRole } from "../utils/permissions";
+import { config } from "../config/config";
+
+const STATUS_LABELS: Record<LeaveStatus, string> = {
+    pending: '⏳ Pending',
+    approved: '✅ Approved',
+    denied: '❌ Denied',
+    cancelled: '➖ Cancelled'
+};
+
+function formatRequest(request: LeaveRequest, showMember: boolean): string {
+    const member = showMember ? `<@${request.discord_id}> · ` : '';
+    return `**${request.id}.** ${member}${formatLeavePeriod(request)} · ${STATUS_LABELS[request.status]}\n> ${request.reason.slice(0, 200)}`;
+}
+
+export const loaCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-loa')
+        .setDescription('Request a leave of absence from raids')
+        .addSubcommand(subcommand =>
+            subcommand.setName('request')
+                .setDescription('Ask staff to excuse you from raids for a date range')
+                .addStringOption(option =>
+                    option.setName('start')
+                        .setDescription('First day of leave, YYYY-MM-DD (US Eastern)')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('end')
+                        .setDescription('Last day of leave, YYYY-MM-DD (US Eastern)')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('reason')
+                        .setDescription('Why you will be away')
+                        .setRequired(true)
+                        .setMaxLength(500)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('Show leave requests')
+                .addUserOption(option =>
+                    option.setName('member')
+                        .setDescription('Staff only: show this member\'s requests')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('cancel')
+                .setDescription('Withdraw a pending or upcoming leave request, or end current leave early')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Request ID from /nswg-loa list')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('pending')
+                .setDescription('Staff only: show requests waiting for a decision'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('approve')
+                .setDescription('Staff only: approve a leave request')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Request ID')
+                        .setRequired(true)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('deny')
+                .setDescription('Staff only: deny a leave request')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Request ID')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        const subcommand = interaction.options.getSubcommand();
+        const isAdmin = hasAdminRole(interaction.member as GuildMember);
+        const targetUser = interaction.options.getUser('member');
+
+        if ((['pending', 'approve', 'deny'].includes(subcommand) || (targetUser && targetUser.id !== interaction.user.id))
+            && !isAdmin) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const leaveService = new LeaveService(interaction.client, config.NEW_APPLICATION_CHANNEL_ID);
+        const today = todayKey();
+
+        await withApplicationDatabase(async databaseService => {
+            switch (subcommand) {
+                case 'request': {
+                    const start = interaction.options.getString('start', true).trim();
+                    const end = interaction.options.getString('end', true).trim();
+                    const reason = interaction.options.getString('reason', true).trim();
+                    const problem = validateLeaveDates(start, end, today);
+                    if (problem) {
+                        await interaction.reply({ content: problem, ephemeral: true });
+                        return;
+                    }
+                    const overlapping = findOverlappingLeave(await databaseService.getLeaveRequests(interaction.user.id), start, end);
+                    if (overlapping) {
+                        await interaction.reply({
+                            content: `Request ${overlapping.id} (${formatLeavePeriod(overlapping)}) already covers some of these days.`,
+                            ephemeral: true
+                        });
+                        return;
+                    }
+
+                    const id = await databaseService.createLeaveRequest(interaction.user.id, start, end, reason);
+                    const request = await databaseService.getLeaveRequest(id);
+                    if (request) {
+                        await leaveService.postApprovalRequest(request);
+                    }
+                    await interaction.reply({
+                        content: `Leave request ${id} for ${formatLeavePeriod({ start_date: start, end_date: end })} was sent to staff. `
+                            + 'You will get a DM once it is decided.',
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'list': {
+                    const member = targetUser ?? interaction.user;
+                    const requests = (await databaseService.getLeaveRequests(member.id)).slice(0, 10);
+                    const embed = new EmbedBuilder()
+                        .setTitle(`Leave of Absence · ${member.username}`)
+                        .setColor(Colors.Blue)
+                        .setDescription(requests.length > 0
+                            ? requests.map(request => formatRequest(request, false)).join('\n').slice(0, 4096)
+                            : `No leave requests. Use \`/nswg-loa request\` for up to ${MAX_LEAVE_DAYS} days at a time.`)
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                    break;
+                }
+                case 'cancel': {
+                    const id = interaction.options.getInteger('id', true);
+                    const cancellation = await databaseService.cancelLeaveRequest(id, interaction.user.id, today);
+                    const replies: Record<LeaveCancellation, string> = {
+                        cancelled: `Leave request ${id} cancelled.`,
+                        ended: `Leave request ${id} ended early; it now covers up to ${formatDateKey(addDays(today, -1))}.`
+                    };
+                    await interaction.reply({
+                        content: cancellation
+                            ? replies[cancellation]
+                            : `You have no pending or current leave request ${id}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'pending': {
+                    const requests = await databaseService.getPendingLeaveRequests();
+                    const embed = new EmbedBuilder()
+                        .setTitle('Pending Leave Requests')
+                        .setColor(Colors.Orange)
+                        .setDescription(requests.length > 0
+                            ? requests.map(request => formatRequest(request, true)).join('\n').slice(0, 4096)
+                            : 'No leave requests are waiting for a decision.')
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                    break;
+                }
+                case 'approve':
+                case 'deny': {
+                    const id = interaction.options.getInteger('id', true);
+                    const decision = subcommand === 'approve' ? 'approved' : 'denied';
+                    const request = await leaveService.decide(databaseService, id, decision, interaction.user.id);
+                    if (!request) {
+                        const current = await databaseService.getLeaveRequest(id);
+                        await interaction.reply({
+                            content: current ? `Leave request ${id} was already ${current.status}.` : `No leave request with ID ${id}.`,
+                            ephemeral: true
+                        });
+                        return;
+                    }
+                    await interaction.reply({
+                        content: `Leave request ${id} for <@${request.discord_id}> ${decision}.`,
+                        ephemeral: true,
+                        allowedMentions: { parse: [] }
+                    });
+                    break;
+                }
+            }
+        });
+    }
+};
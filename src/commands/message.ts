@@ -1,9 +1,6 @@
 import { ChannelType, ChatInputCommandInteraction, ModalBuilder, TextInputBuilder, TextInputStyle, ActionRowBuilder, SlashCommandBuilder, TextChannel, StringSelectMenuBuilder, ComponentType, StringSelectMenuInteraction, GuildMember, ButtonBuilder, ButtonStyle, ButtonInteraction, EmbedBuilder, Interaction } from "discord.js";
 import { Command } from "../interfaces/Command";
-
-const ALLOWED_ROLES = {
-    ADMIN: '1338753333518667817',
-} as const;
+import { hasAdminRole } from "../utils/permissions";
 
 export const messageCommand: Command = {
     data: new SlashCommandBuilder()
@@ -12,12 +9,7 @@ export const messageCommand: Command = {
         .setDefaultMemberPermissions('0'),
 
     async execute(interaction: ChatInputCommandInteraction) {
-        const member = interaction.member as GuildMember;
-        const hasPermission = Object.values(ALLOWED_ROLES).some(roleId => 
-            member.roles.cache.has(roleId)
-        );
-
-        if (!hasPermission) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
             await interaction.reply({
                 content: 'You do not have permission to use this command.',
             });
@@ -0,0 +1,199 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { WEEKDAY_NAMES, addDays, formatDateKey, isDateKey, todayKey } from "../services/raidSchedule";
+import { hasAdminRole } from "../utils/permissions";
+
+const WEEKDAY_CHOICES = WEEKDAY_NAMES.map((name, index) => ({ name, value: index }));
+
+/** Reads an optional `YYYY-MM-DD` option, or null when it was given but is not a date. */
+function getDateOption(interaction: ChatInputCommandInteraction, name: string, fallback: string): string | null {
+    const value = interaction.options.getString(name)?.trim() ?? fallback;
+    return isDateKey(value) ? value : null;
+}
+
+export const raidScheduleCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-raid-schedule')
+        .setDescription('Manage raid nights, cancellations and extra ops (US Eastern dates)')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('Show weekly raid nights and upcoming changes'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('add-night')
+                .setDescription('Hold a raid every week on this day')
+                .addIntegerOption(option =>
+                    option.setName('weekday')
+                        .setDescription('Day of the week (Eastern)')
+                        .setRequired(true)
+                        .addChoices(...WEEKDAY_CHOICES))
+                .addStringOption(option =>
+                    option.setName('label')
+                        .setDescription('Name shown on the schedule (e.g. "Thursday ops")')
+                        .setRequired(false)
+                        .setMaxLength(100))
+                .addStringOption(option =>
+                    option.setName('starting')
+                        .setDescription('First raid date, YYYY-MM-DD (default: today)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('end-night')
+                .setDescription('Stop a weekly raid night; earlier weeks still count')
+                .addIntegerOption(option =>
+                    option.setName('id')
+                        .setDescription('Raid night ID from /nswg-raid-schedule list')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('starting')
+                        .setDescription('First date without the raid, YYYY-MM-DD (default: tomorrow)')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('cancel')
+                .setDescription('Cancel the raid on one date')
+                .addStringOption(option =>
+                    option.setName('date')
+                        .setDescription('Raid date, YYYY-MM-DD')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('label')
+                        .setDescription('Why it was cancelled (e.g. "Thanksgiving")')
+                        .setRequired(false)
+                        .setMaxLength(100)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('extra-op')
+                .setDescription('Add a one-off op that counts toward attendance')
+                .addStringOption(option =>
+                    option.setName('date')
+                        .setDescription('Op date, YYYY-MM-DD')
+                        .setRequired(true))
+                .addStringOption(option =>
+                    option.setName('label')
+                        .setDescription('Name of the op')
+                        .setRequired(false)
+                        .setMaxLength(100)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('clear')
+                .setDescription('Remove a cancellation or extra op')
+                .addStringOption(option =>
+                    option.setName('date')
+                        .setDescription('Date, YYYY-MM-DD')
+                        .setRequired(true))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+        const today = todayKey();
+
+        await withApplicationDatabase(async databaseService => {
+            switch (subcommand) {
+                case 'list': {
+                    const schedule = await databaseService.getRaidSchedule();
+                    const nights = schedule.currentRules(today);
+                    const upcoming = schedule.exceptions.filter(exception => exception.date >= today).slice(0, 20);
+                    const embed = new EmbedBuilder()
+                        .setTitle('Raid Schedule')
+                        .setColor(Colors.Blue)
+                        .addFields(
+                            {
+                                name: 'Weekly (US Eastern)',
+                                value: nights.length > 0
+                                    ? nights.map(rule => `**${rule.id}.** ${WEEKDAY_NAMES[rule.weekday]}`
+                                        + (rule.label ? ` · ${rule.label}` : '')
+                                        + ` · since ${formatDateKey(rule.effective_from)}`).join('\n')
+                                    : 'No weekly raid nights.'
+                            },
+                            {
+                                name: 'Upcoming Changes',
+                                value: upcoming.length > 0
+                                    ? upcoming.map(exception => `${formatDateKey(exception.date)}: `
+                                        + (exception.kind === 'cancelled' ? '❌ Cancelled' : '➕ Extra op')
+                                        + (exception.label ? ` (${exception.label})` : '')).join('\n').slice(0, 1024)
+                                    : 'None.'
+                            }
+                        )
+                        .setTimestamp();
+                    await interaction.reply({ embeds: [embed], ephemeral: true });
+                    break;
+                }
+                case 'add-night': {
+                    const weekday = interaction.options.getInteger('weekday', true);
+                    const starting = getDateOption(interaction, 'starting', today);
+                    if (!starting) {
+                        await interaction.reply({ content: 'Dates must be in YYYY-MM-DD format.', ephemeral: true });
+                        return;
+                    }
+                    const id = await databaseService.addRaidRule(
+                        weekday, interaction.options.getString('label'), starting, interaction.user.id
+                    );
+                    await interaction.reply({
+                        content: `Added raid night ${id}: every ${WEEKDAY_NAMES[weekday]} from ${formatDateKey(starting)}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'end-night': {
+                    const id = interaction.options.getInteger('id', true);
+                    const starting = getDateOption(interaction, 'starting', addDays(today, 1));
+                    if (!starting) {
+                        await interaction.reply({ content: 'Dates must be in YYYY-MM-DD format.', ephemeral: true });
+                        return;
+                    }
+                    const ended = await databaseService.endRaidRule(id, starting);
+                    await interaction.reply({
+                        content: ended
+                            ? `Raid night ${id} ends; no raid from ${formatDateKey(starting)}.`
+                            : `No current raid night ${id} that started before ${formatDateKey(starting)}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'cancel':
+                case 'extra-op': {
+                    const date = getDateOption(interaction, 'date', '');
+                    if (!date) {
+                        await interaction.reply({ content: 'Dates must be in YYYY-MM-DD format.', ephemeral: true });
+                        return;
+                    }
+                    const schedule = await databaseService.getRaidSchedule();
+                    if (subcommand === 'cancel' && schedule.raidOn(date)?.kind !== 'weekly') {
+                        await interaction.reply({ content: `${formatDateKey(date)} is not a weekly raid night.`, ephemeral: true });
+                        return;
+                    }
+                    await databaseService.setRaidException(
+                        date, subcommand === 'cancel' ? 'cancelled' : 'extra', interaction.options.getString('label'), interaction.user.id
+                    );
+                    await interaction.reply({
+                        content: subcommand === 'cancel'
+                            ? `Cancelled the raid on ${formatDateKey(date)}.`
+                            : `Added an extra op on ${formatDateKey(date)}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'clear': {
+                    const date = getDateOption(interaction, 'date', '');
+                    if (!date) {
+                        await interaction.reply({ content: 'Dates must be in YYYY-MM-DD format.', ephemeral: true });
+                        return;
+                    }
+                    const removed = await databaseService.removeRaidException(date);
+                    await interaction.reply({
+                        content: removed
+                            ? `${formatDateKey(date)} follows the weekly schedule again.`
+                            : `Nothing was cancelled or added on ${formatDateKey(date)}.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+            }
+        });
+    }
+};
@@ -0,0 +1,122 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder, EmbedBuilder, Colors, GuildMember } from "discord.js";
+import { Command } from "../interfaces/Command";
+import { withApplicationDatabase } from "../services/applicationDatabase";
+import { DEFAULT_ROUTE, ReviewerRoute } from "../services/reviewerRouting";
+import { hasAdminRole } from "../utils/permissions";
+
+function readRoute(interaction: ChatInputCommandInteraction): ReviewerRoute | null {
+    const position = interaction.options.getString('position', true).trim();
+    const role = interaction.options.getRole('role');
+    const user = interaction.options.getUser('user');
+
+    if ((role && user) || (!role && !user)) {
+        return null;
+    }
+
+    return role
+        ? { position, target_type: 'role', target_id: role.id }
+        : { position, target_type: 'user', target_id: user!.id };
+}
+
+function formatTarget(route: ReviewerRoute): string {
+    return route.target_type === 'role' ? `<@&${route.target_id}>` : `<@${route.target_id}>`;
+}
+
+export const reviewersCommand: Command = {
+    data: new SlashCommandBuilder()
+        .setName('nswg-reviewers')
+        .setDescription('Manage which reviewers are pinged for each application position')
+        .setDefaultMemberPermissions('0')
+        .addSubcommand(subcommand =>
+            subcommand.setName('list')
+                .setDescription('Show reviewer routes for every position'))
+        .addSubcommand(subcommand =>
+            subcommand.setName('add')
+                .setDescription('Route a position to a reviewer role or user')
+                .addStringOption(option =>
+                    option.setName('position')
+                        .setDescription(`PERSCOM position name, or "${DEFAULT_ROUTE}" for positions without a route`)
+                        .setRequired(true))
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('Reviewer role')
+                        .setRequired(false))
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('Reviewer user')
+                        .setRequired(false)))
+        .addSubcommand(subcommand =>
+            subcommand.setName('remove')
+                .setDescription('Remove a reviewer role or user from a position')
+                .addStringOption(option =>
+                    option.setName('position')
+                        .setDescription(`PERSCOM position name, or "${DEFAULT_ROUTE}"`)
+                        .setRequired(true))
+                .addRoleOption(option =>
+                    option.setName('role')
+                        .setDescription('Reviewer role')
+                        .setRequired(false))
+                .addUserOption(option =>
+                    option.setName('user')
+                        .setDescription('Reviewer user')
+                        .setRequired(false))) as SlashCommandBuilder,
+
+    async execute(interaction: ChatInputCommandInteraction) {
+        if (!hasAdminRole(interaction.member as GuildMember)) {
+            await interaction.reply({
+                content: 'You do not have permission to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+
+        await withApplicationDatabase(async databaseService => {
+            if (subcommand === 'list') {
+                const routes = await databaseService.getReviewerRoutes();
+                const byPosition = new Map<string, ReviewerRoute[]>();
+                for (const route of routes) {
+                    byPosition.set(route.position, [...(byPosition.get(route.position) || []), route]);
+                }
+
+                const embed = new EmbedBuilder()
+                    .setTitle('Application Reviewers')
+                    .setColor(Colors.Blue)
+                    .setTimestamp();
+
+                if (byPosition.size === 0) {
+                    embed.setDescription('No reviewer routes configured. New applications will not ping anyone.');
+                } else {
+                    embed.addFields(Array.from(byPosition.entries()).slice(0, 25).map(([position, positionRoutes]) => ({
+                        name: position === DEFAULT_ROUTE ? 'Default (unmapped positions)' : position,
+                        value: positionRoutes.map(formatTarget).join(', ')
+                    })));
+                }
+
+                await interaction.reply({ embeds: [embed], ephemeral: true, allowedMentions: { parse: [] } });
+                return;
+            }
+
+            const route = readRoute(interaction);
+            if (!route) {
+                await interaction.reply({ content: 'Provide exactly one of `role` or `user`.', ephemeral: true });
+                return;
+            }
+
+            const changed = subcommand === 'add'
+                ? await databaseService.addReviewerRoute(route, interaction.user.id)
+                : await databaseService.removeReviewerRoute(route);
+
+            const content = subcommand === 'add'
+                ? changed
+                    ? `${formatTarget(route)} will now review **${route.position}** applications.`
+                    : `${formatTarget(route)} already reviews **${route.position}** applications.`
+                : changed
+                    ? `${formatTarget(route)} no longer reviews **${route.position}** applications.`
+                    : `${formatTarget(route)} was not a reviewer for **${route.position}**.`;
+
+            await interaction.reply({ content, ephemeral: true, allowedMentions: { parse: [] } });
+        });
+    }
+};
@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { DEFAULT_DELIVERY_MODES, DeliveryMode, NotificationDeliveryModes, isDeliveryMode } from '../services/notificationDelivery';
 
 if (process.env.NODE_ENV !== 'production') {
     const result = dotenv.config({
@@ -27,9 +28,59 @@ interface Config {
     APPLICATION_DB: DbConfig;
     ATTENDANCE_DB: DbConfig;
     BEARER_TOKEN_PERSCOM: string;
+    PERSCOM_BASE_URL: string;
+    PERSCOM_MAX_RETRIES: number;
+    PERSCOM_BACKFILL: boolean;
+    PERSCOM_HOLD_STATUS_ID: number | null;
+    PERSCOM_DRY_RUN: boolean;
+    PERSCOM_WEBHOOK_SECRET: string | null;
+    PERSCOM_POLL_MINUTES: number;
+    PERSCOM_DELETE_APPROVAL: boolean;
+    PERSCOM_MAX_DELETIONS_PER_CYCLE: number;
+    ARCHIVE_RETENTION_DAYS: number;
+    ACCEPTED_NICKNAME_FORMAT: string;
+    REAPPLY_COOLDOWN_DAYS: number;
+    REVIEW_REMINDER_HOURS: number;
+    REVIEW_ESCALATION_HOURS: number;
+    REVIEW_ESCALATION_ROLE_ID: string | null;
+    REVIEW_DIGEST_HOUR_UTC: number;
+    INTERVIEW_REMINDER_MINUTES: number;
+    INACTIVITY_CHANNEL_ID: string;
+    INACTIVITY_ROLE_ID: string | null;
+    INACTIVITY_MISSED_RAIDS: number;
+    INACTIVITY_MIN_RATE: number;
+    INACTIVITY_WINDOW_WEEKS: number;
+    INACTIVITY_REPORT_DAY: number;
+    INACTIVITY_REPORT_HOUR_UTC: number;
+    NOTIFICATION_DELIVERY: NotificationDeliveryModes;
     API_KEY: string;
 }
 
+function parseDeliveryMode(varName: string, fallback: DeliveryMode): DeliveryMode {
+    const value = process.env[varName];
+    if (!value) {
+        return fallback;
+    }
+    if (!isDeliveryMode(value)) {
+        throw new Error(`${varName} must be one of dm, channel or both (got "${value}")`);
+    }
+    return value;
+}
+
+/** Reads a whole-number setting, failing at startup on typos rather than running with NaN. */
+function parseIntegerSetting(varName: string, fallback: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+    const value = process.env[varName]?.trim();
+    if (!value) {
+        return fallback;
+    }
+    const parsed = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (!(parsed >= min && parsed <= max)) {
+        const range = max === Number.MAX_SAFE_INTEGER ? `at least ${min}` : `between ${min} and ${max}`;
+        throw new Error(`${varName} must be a whole number ${range} (got "${value}")`);
+    }
+    return parsed;
+}
+
 function validateConfig(): Config {
     const requiredEnvVars = [
         'DISCORD_TOKEN',
@@ -73,6 +124,37 @@ function validateConfig(): Config {
             database: process.env.ATTENDANCE_DB_NAME!
         },
         BEARER_TOKEN_PERSCOM: process.env.BEARER_TOKEN_PERSCOM!,
+        PERSCOM_BASE_URL: process.env.PERSCOM_BASE_URL || 'https://api.perscom.io/v2',
+        PERSCOM_MAX_RETRIES: parseIntegerSetting('PERSCOM_MAX_RETRIES', 3, 0),
+        PERSCOM_BACKFILL: process.env.PERSCOM_BACKFILL === 'true',
+        PERSCOM_HOLD_STATUS_ID: process.env.PERSCOM_HOLD_STATUS_ID ? parseIntegerSetting('PERSCOM_HOLD_STATUS_ID', 0, 1) : null,
+        PERSCOM_DRY_RUN: process.env.PERSCOM_DRY_RUN === 'true',
+        PERSCOM_WEBHOOK_SECRET: process.env.PERSCOM_WEBHOOK_SECRET || null,
+        // With webhooks the poll only reconciles missed events, so it can run far less often.
+        PERSCOM_POLL_MINUTES: parseIntegerSetting('PERSCOM_POLL_MINUTES', process.env.PERSCOM_WEBHOOK_SECRET ? 30 : 5, 1),
+        PERSCOM_DELETE_APPROVAL: process.env.PERSCOM_DELETE_APPROVAL === 'true',
+        PERSCOM_MAX_DELETIONS_PER_CYCLE: parseIntegerSetting('PERSCOM_MAX_DELETIONS_PER_CYCLE', 5, 0),
+        ARCHIVE_RETENTION_DAYS: parseIntegerSetting('ARCHIVE_RETENTION_DAYS', 365, 1),
+        ACCEPTED_NICKNAME_FORMAT: process.env.ACCEPTED_NICKNAME_FORMAT ?? 'Rct. {first_name}',
+        REAPPLY_COOLDOWN_DAYS: parseIntegerSetting('REAPPLY_COOLDOWN_DAYS', 14, 0),
+        REVIEW_REMINDER_HOURS: parseIntegerSetting('REVIEW_REMINDER_HOURS', 48, 1),
+        REVIEW_ESCALATION_HOURS: parseIntegerSetting('REVIEW_ESCALATION_HOURS', 96, 1),
+        REVIEW_ESCALATION_ROLE_ID: process.env.REVIEW_ESCALATION_ROLE_ID || null,
+        REVIEW_DIGEST_HOUR_UTC: parseIntegerSetting('REVIEW_DIGEST_HOUR_UTC', 14, 0, 23),
+        INTERVIEW_REMINDER_MINUTES: parseIntegerSetting('INTERVIEW_REMINDER_MINUTES', 60, 1),
+        INACTIVITY_CHANNEL_ID: process.env.INACTIVITY_CHANNEL_ID || process.env.NEW_APPLICATION_CHANNEL_ID!,
+        // Without a role, anyone with attendance in the last couple of months is checked.
+        INACTIVITY_ROLE_ID: process.env.INACTIVITY_ROLE_ID || null,
+        INACTIVITY_MISSED_RAIDS: parseIntegerSetting('INACTIVITY_MISSED_RAIDS', 3, 1),
+        INACTIVITY_MIN_RATE: parseIntegerSetting('INACTIVITY_MIN_RATE', 50, 0, 100),
+        INACTIVITY_WINDOW_WEEKS: parseIntegerSetting('INACTIVITY_WINDOW_WEEKS', 4, 1),
+        // 0 = Sunday; Monday 16:00 UTC by default, after the weekend raid.
+        INACTIVITY_REPORT_DAY: parseIntegerSetting('INACTIVITY_REPORT_DAY', 1, 0, 6),
+        INACTIVITY_REPORT_HOUR_UTC: parseIntegerSetting('INACTIVITY_REPORT_HOUR_UTC', 16, 0, 23),
+        NOTIFICATION_DELIVERY: {
+            accepted: parseDeliveryMode('ACCEPTED_NOTIFICATION_DELIVERY', DEFAULT_DELIVERY_MODES.accepted),
+            denied: parseDeliveryMode('DENIED_NOTIFICATION_DELIVERY', DEFAULT_DELIVERY_MODES.denied)
+        },
         API_KEY: process.env.API_KEY!
     };
 }
@@ -3,7 +3,8 @@ import { Client, GatewayIntentBits } from "discord.js";
 import { commandBot } from "./bots/commandBot";
 import { serverStatusBot } from "./bots/serverStatusBot";
 import { config } from "./config/config";
-import { app } from "./services/serverStatusService";
+import { app, mountAttendanceApi } from "./services/serverStatusService";
+import { jobScheduler } from "./services/applicationJobs";
 
 const API_PORT = process.env.PORT || 3000;
 
@@ -22,6 +23,7 @@ async function main() {
         await applicationBot(client);
         await commandBot(client);
         await serverStatusBot(client);
+        mountAttendanceApi(client);
 
         await client.login(config.DISCORD_TOKEN);
 
@@ -31,6 +33,7 @@ async function main() {
 
         const shutdown = () => {
             console.log('Shutting down gracefully...');
+            jobScheduler.stop();
             client.destroy();
             process.exit(0);
         };
@@ -0,0 +1,200 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, Client, Colors, EmbedBuilder, Guild, Interaction,
+    TextChannel
+} from "discord.js";
+import { DatabaseService } from "./database";
+import { Form1Submission } from "./request_perscom";
+import { withApplicationDatabase } from "./applicationDatabase";
+import { isApplicationStaff } from "./staffAccess";
+import { DiscordMember, matchDiscordMember } from "../utils/discordMembers";
+
+type Applicant = Pick<Form1Submission, 'user_id' | 'first_name' | 'discord_name'>;
+
+const CONFIRM_PREFIX = 'account-link-confirm-';
+const NONE_PREFIX = 'account-link-none-';
+
+export function parseAccountLinkCustomId(customId: string): { perscomUserId: number; discordId: string | null } | null {
+    const confirm = customId.match(/^account-link-confirm-(\d+)-(\d+)$/);
+    if (confirm) {
+        return { perscomUserId: parseInt(confirm[1], 10), discordId: confirm[2] };
+    }
+    const none = customId.match(/^account-link-none-(\d+)$/);
+    return none ? { perscomUserId: parseInt(none[1], 10), discordId: null } : null;
+}
+
+export function isAccountLinkCustomId(customId: string): boolean {
+    return customId.startsWith(CONFIRM_PREFIX) || customId.startsWith(NONE_PREFIX);
+}
+
+/**
+ * Owns the PERSCOM user ↔ Discord member links that notifications mention.
+ * Stored links always win; unlinked applicants are matched against the guild
+ * once and ambiguous matches are posted for staff to confirm.
+ */
+export class AccountLinkService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+
+    constructor(client: Client, staffChannelId: string) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+    }
+
+    private async getStaffChannel(): Promise<TextChannel | null> {
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return null;
+        }
+        return channel;
+    }
+
+    private async getGuildMembers(guild: Guild): Promise<DiscordMember[]> {
+        try {
+            const members = await guild.members.fetch();
+            return members.map(member => ({
+                username: member.user.username,
+                discord_id: member.user.id,
+                nickname: member.nickname,
+                displayName: member.displayName
+            }));
+        } catch (error) {
+            console.error('Error fetching guild members:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Returns the linked Discord ID for each applicant that has one, linking
+     * confident matches on the way.
+     */
+    async resolveDiscordIds(databaseService: DatabaseService, applicants: Applicant[]): Promise<Map<number, string>> {
+        const links = await databaseService.getAccountLinks(applicants.map(applicant => applicant.user_id));
+        const unlinked = applicants.filter(applicant => !links.has(applicant.user_id));
+        if (unlinked.length === 0) {
+            return links;
+        }
+
+        const channel = await this.getStaffChannel();
+        if (!channel) {
+            return links;
+        }
+        const members = await this.getGuildMembers(channel.guild);
+
+        for (const applicant of unlinked) {
+            if (links.has(applicant.user_id)) continue;
+
+            const { match, candidates } = matchDiscordMember(members, applicant.discord_name, applicant.first_name);
+            if (match) {
+                await databaseService.saveAccountLink(applicant.user_id, match.discord_id, 'auto', null);
+                links.set(applicant.user_id, match.discord_id);
+            } else if (!await databaseService.hasAccountLinkRequest(applicant.user_id)) {
+                const message = await channel.send({
+                    embeds: [this.createLinkRequestEmbed(applicant, candidates)],
+                    components: [this.createLinkRequestRow(applicant.user_id, candidates)],
+                    allowedMentions: { parse: [] }
+                });
+                await databaseService.saveAccountLinkRequest(applicant.user_id, message.id);
+            }
+        }
+
+        return links;
+    }
+
+    /** Staff confirmation for a self-service `/nswg-link add`. */
+    async requestSelfLink(databaseService: DatabaseService, perscomUserId: number, discordId: string): Promise<boolean> {
+        const channel = await this.getStaffChannel();
+        if (!channel) {
+            return false;
+        }
+
+        const embed = new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setTitle('Account Link Request')
+            .setDescription(`<@${discordId}> says they are PERSCOM user **${perscomUserId}**.`)
+            .setTimestamp();
+        const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`${CONFIRM_PREFIX}${perscomUserId}-${discordId}`)
+                .setLabel('Confirm')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(`${NONE_PREFIX}${perscomUserId}`)
+                .setLabel('Reject')
+                .setStyle(ButtonStyle.Secondary)
+        );
+
+        const message = await channel.send({ embeds: [embed], components: [row], allowedMentions: { parse: [] } });
+        await databaseService.saveAccountLinkRequest(perscomUserId, message.id);
+        return true;
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        if (!interaction.isButton()) return;
+        try {
+            await this.handleButton(interaction);
+        } catch (error) {
+            console.error('Error handling account link:', error);
+            await interaction.reply({ content: 'Failed to update this account link. Please use `/nswg-link`.', ephemeral: true })
+                .catch(() => {});
+        }
+    }
+
+    private createLinkRequestEmbed(applicant: Applicant, candidates: DiscordMember[]): EmbedBuilder {
+        return new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setTitle('Confirm Discord Account')
+            .setDescription(candidates.length > 0
+                ? `Which Discord member is **${applicant.first_name}**?`
+                : `No Discord member matches **${applicant.first_name}**. Link them with \`/nswg-link add\`.`)
+            .addFields(
+                { name: 'PERSCOM User', value: applicant.user_id.toString(), inline: true },
+                { name: 'Discord Name on Application', value: applicant.discord_name || 'Not provided', inline: true }
+            )
+            .setTimestamp();
+    }
+
+    private createLinkRequestRow(perscomUserId: number, candidates: DiscordMember[]): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            ...candidates.map(candidate => new ButtonBuilder()
+                .setCustomId(`${CONFIRM_PREFIX}${perscomUserId}-${candidate.discord_id}`)
+                .setLabel(candidate.displayName === candidate.username
+                    ? candidate.username
+                    : `${candidate.displayName} (${candidate.username})`)
+                .setStyle(ButtonStyle.Primary)),
+            new ButtonBuilder()
+                .setCustomId(`${NONE_PREFIX}${perscomUserId}`)
+                .setLabel(candidates.length > 0 ? 'None of these' : 'Dismiss')
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    private async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const parsed = parseAccountLinkCustomId(interaction.customId);
+        if (!parsed) return;
+
+        await withApplicationDatabase(async databaseService => {
+            if (!await isApplicationStaff(databaseService, interaction)) {
+                await interaction.reply({ content: 'Only staff can confirm account links.', ephemeral: true });
+                return;
+            }
+
+            const embed = EmbedBuilder.from(interaction.message.embeds[0]);
+            if (parsed.discordId) {
+                await databaseService.saveAccountLink(parsed.perscomUserId, parsed.discordId, 'staff', interaction.user.id);
+                embed.setColor(Colors.Green).addFields({
+                    name: 'Linked',
+                    value: `<@${parsed.discordId}> confirmed by <@${interaction.user.id}>`
+                });
+            } else {
+                await databaseService.dismissAccountLinkRequest(parsed.perscomUserId, interaction.user.id);
+                embed.setColor(Colors.Grey).addFields({
+                    name: 'Not Linked',
+                    value: `Dismissed by <@${interaction.user.id}>. Use \`/nswg-link add\` to link manually.`
+                });
+            }
+
+            await interaction.update({ embeds: [embed], components: [], allowedMentions: { parse: [] } });
+        });
+    }
+}
@@ -0,0 +1,76 @@
+import { Application, ApplicationDenial } from "./applicationLifecycle";
+
+export const DEFAULT_ARCHIVE_RETENTION_DAYS = 365;
+
+/**
+ * Local copy of a denied applicant's submission, taken before they are
+ * removed from PERSCOM. Personal fields are cleared once the retention period
+ * ends; the decision itself is kept.
+ */
+export interface ApplicantArchive {
+    form_id: number;
+    perscom_user_id: number;
+    first_name: string | null;
+    discord_name: string | null;
+    date_of_birth: string | null;
+    email_address: string | null;
+    arma_3_id: string | null;
+    preferred_position: string | null;
+    /** Every other answer on the form, keyed by PERSCOM field name. */
+    answers: Record<string, unknown> | null;
+    reason_label: string | null;
+    reason_message: string | null;
+    denied_by: string | null;
+    archived_at: Date;
+    purged_at: Date | null;
+}
+
+/** Submission fields that are PERSCOM bookkeeping or already have their own column. */
+const NON_ANSWER_FIELDS = new Set([
+    'id', 'form_id', 'user_id', 'created_at', 'updated_at', 'label', 'first_name', 'discord_name', 'date_of_birth',
+    'email_address', 'arma_3_id', 'preferred_position', 'statuses', 'form', 'user'
+]);
+
+export function submissionAnswers(submission: Record<string, unknown> | null): Record<string, unknown> | null {
+    if (!submission) {
+        return null;
+    }
+    return Object.fromEntries(Object.entries(submission).filter(([field]) => !NON_ANSWER_FIELDS.has(field)));
+}
+
+/**
+ * Builds the archive row from the tracked application, its denial and, when
+ * PERSCOM still returned it, the full submission. PERSCOM values win over the
+ * local copy since they are the most recent.
+ */
+export function buildApplicantArchive(
+    application: Application,
+    denial: (ApplicationDenial & { denied_at?: Date }) | null,
+    submission: Record<string, unknown> | null
+): Omit<ApplicantArchive, 'archived_at' | 'purged_at'> {
+    const field = (name: string, fallback: string | undefined): string | null => {
+        const value = submission?.[name];
+        return typeof value === 'string' && value.trim() ? value : fallback || null;
+    };
+
+    return {
+        form_id: application.form_id,
+        perscom_user_id: application.user_id,
+        first_name: field('first_name', application.first_name),
+        discord_name: field('discord_name', application.discord_name),
+        date_of_birth: field('date_of_birth', application.date_of_birth),
+        email_address: field('email_address', application.email_address),
+        arma_3_id: field('arma_3_id', application.arma_3_id),
+        preferred_position: field('preferred_position', application.preferred_position),
+        answers: submissionAnswers(submission),
+        reason_label: denial?.reason_label ?? null,
+        reason_message: denial?.reason_message ?? null,
+        denied_by: denial?.denied_by ?? null
+    };
+}
+
+/** Turns a PERSCOM field name like `why_do_you_want_to_join` into a label. */
+export function formatAnswerLabel(field: string): string {
+    const words = field.replace(/_/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
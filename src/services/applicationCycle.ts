@@ -0,0 +1,294 @@
+import { PerscomService, SUBMISSION_STATUSES } from "./request_perscom";
+import { DatabaseService } from "./database";
+import { NotificationService } from "./notificationService";
+import { AccountLinkService } from "./accountLinkService";
+import { MemberProvisioningService } from "./memberProvisioning";
+import { UserDeletionService } from "./userDeletionService";
+import {
+    DEFAULT_REAPPLY_COOLDOWN_DAYS, cooldownStart, findCooldownFlags, identitiesFor, normalizeArmaId, normalizeEmail
+} from "./reapplicationCooldown";
+import { NewOutboxMessage } from "./notificationOutbox";
+import { EligibilityResult, checkEligibility, describeRule, summarizeEligibility } from "./eligibility";
+import {
+    Application, ApplicationDenial, ApplicationState, DEFAULT_DENIAL_REASON, POLLED_STATES, TransitionSource,
+    canTransition, isStillPolled, stateForStatus
+} from "./applicationLifecycle";
+
+export interface ApplicationCycleServices {
+    perscomService: PerscomService;
+    databaseService: DatabaseService;
+    notificationService: NotificationService;
+    accountLinkService: AccountLinkService;
+    memberProvisioningService: MemberProvisioningService;
+    userDeletionService: UserDeletionService;
+}
+
+export interface ApplicationTransition {
+    application: Application;
+    target: ApplicationState;
+    /** Reviewer-chosen reason; denials without one fall back to the default reason. */
+    denial?: ApplicationDenial;
+    /** History note for this transition alone, in place of the batch's note. */
+    note?: string;
+}
+
+/**
+ * Records each transition, queueing the applicant's notification in the same
+ * transaction, and runs its follow-up: denied applicants are queued for removal
+ * from PERSCOM and accepted applicants are given their on-acceptance roles and
+ * nickname. `onApplied` runs as soon as a transition is recorded, before the
+ * follow-ups, so a decision that lost a race is never written anywhere else.
+ * Denials made by an eligibility rule always wait for an admin to approve
+ * their PERSCOM deletion. Returns the transitions that were actually applied.
+ */
+export async function applyApplicationTransitions(
+    { databaseService, accountLinkService, memberProvisioningService, userDeletionService }: ApplicationCycleServices,
+    transitions: ApplicationTransition[],
+    source: TransitionSource,
+    actorId: string | null = null,
+    note: string | null = null,
+    onApplied?: (transition: ApplicationTransition) => Promise<void>
+): Promise<ApplicationTransition[]> {
+    const applied: ApplicationTransition[] = [];
+
+    for (const transition of transitions) {
+        const { application, target } = transition;
+        if (target === application.state || !canTransition(application.state, target, source)) {
+            continue;
+        }
+
+        const denial = target === 'denied'
+            ? transition.denial ?? {
+                reason_id: null,
+                reason_label: null,
+                reason_message: DEFAULT_DENIAL_REASON,
+                note: null,
+                denied_by: actorId
+            }
+            : undefined;
+        const outbox: NewOutboxMessage[] = [];
+        if (target === 'accepted') {
+            outbox.push({ kind: 'accepted', form_id: application.form_id, payload: {} });
+        } else if (denial) {
+            outbox.push({
+                kind: 'denied',
+                form_id: application.form_id,
+                payload: { denial_reason: denial.reason_message, denial_note: denial.note }
+            });
+        }
+
+        const moved = await databaseService.transitionApplication(
+            application.form_id, application.state, target, source, actorId, transition.note ?? note, outbox
+        );
+        if (!moved) {
+            continue;
+        }
+        await onApplied?.(transition);
+
+        if (denial) {
+            await databaseService.recordDenial(application.form_id, denial);
+            applied.push({ ...transition, denial });
+        } else {
+            applied.push(transition);
+        }
+    }
+
+    const deniedUsers = applied.filter(t => t.target === 'denied').map(t => t.application);
+    const acceptedUsers = applied.filter(t => t.target === 'accepted').map(t => t.application);
+
+    if (deniedUsers.length > 0) {
+        const discordIds = await accountLinkService.resolveDiscordIds(databaseService, deniedUsers);
+        await databaseService.saveDenialRecords(applied
+            .filter(t => t.target === 'denied')
+            .map(({ application, denial }) => ({
+                form_id: application.form_id,
+                perscom_user_id: application.user_id,
+                discord_id: discordIds.get(application.user_id) ?? null,
+                email_address: normalizeEmail(application.email_address),
+                arma_3_id: normalizeArmaId(application.arma_3_id),
+                reason_label: denial?.reason_label ?? null,
+                reason_message: denial?.reason_message ?? DEFAULT_DENIAL_REASON
+            })));
+        await userDeletionService.requestDeletions(databaseService, deniedUsers, source === 'eligibility');
+    }
+
+    if (acceptedUsers.length > 0) {
+        const discordIds = await accountLinkService.resolveDiscordIds(databaseService, acceptedUsers);
+        await memberProvisioningService.provisionAcceptedUsers(databaseService, acceptedUsers, discordIds);
+    }
+
+    return applied;
+}
+
+/**
+ * Holds or denies new applications that clearly failed an eligibility rule
+ * set to do so, in PERSCOM as well as locally. All of a cycle's decisions go
+ * out as one batch so the deletion guard sees how many were denied at once.
+ * Reviewers can still override the decision from the review post.
+ */
+async function applyEligibilityDecisions(
+    services: ApplicationCycleServices,
+    eligibility: Map<number, EligibilityResult>,
+    holdStatusId: number | null
+): Promise<void> {
+    const { perscomService, databaseService } = services;
+    const transitions: ApplicationTransition[] = [];
+
+    for (const [formId, { action, rule }] of eligibility) {
+        if (!action || !rule) continue;
+        const application = await databaseService.getApplication(formId);
+        if (!application) continue;
+
+        transitions.push({
+            application,
+            target: action === 'deny' ? 'denied' : 'under_review',
+            denial: action === 'deny'
+                ? {
+                    reason_id: rule.denial_reason_id,
+                    reason_label: rule.reason_label,
+                    reason_message: rule.reason_message ?? DEFAULT_DENIAL_REASON,
+                    note: null,
+                    denied_by: null
+                }
+                : undefined,
+            note: `Failed eligibility rule: ${describeRule(rule)}`
+        });
+    }
+
+    await applyApplicationTransitions(services, transitions, 'eligibility', null, null, async ({ application, target }) => {
+        const statusId = target === 'denied' ? SUBMISSION_STATUSES.DENIED : holdStatusId;
+        if (statusId === null) return;
+        try {
+            await perscomService.setSubmissionStatus(application.form_id, statusId);
+        } catch (error) {
+            console.error(`Error setting the PERSCOM status of application #${application.form_id}:`, error);
+        }
+    });
+}
+
+export interface ApplicationCycleOptions {
+    /** Ignore the stored sync cursor and walk every PERSCOM page from page 1. */
+    backfill?: boolean;
+    /** Days after a denial during which a new submission from the same person is flagged. */
+    reapplyCooldownDays?: number;
+    /** Read from PERSCOM as usual but only report the writes the cycle would make. */
+    dryRun?: boolean;
+    /** PERSCOM status given to applications an eligibility rule puts on hold. */
+    holdStatusId?: number | null;
+}
+
+export interface ApplicationCycleReport {
+    dryRun: boolean;
+    /** Writes skipped in a dry run, in the order the cycle would have made them. */
+    skippedWrites: string[];
+}
+
+function describeTransition({ application, target }: ApplicationTransition): string[] {
+    const name = `#${application.form_id} (${application.first_name})`;
+    const writes = [`Move ${name} from ${application.state.replace('_', ' ')} to ${target.replace('_', ' ')}`];
+    if (target === 'denied') {
+        writes.push(`Record the denial of ${name}, notify them and queue PERSCOM user ${application.user_id} for deletion`);
+    } else if (target === 'accepted') {
+        writes.push(`Notify ${name} of acceptance and apply their acceptance roles and nickname`);
+    }
+    return writes;
+}
+
+export async function runApplicationCycle(
+    services: ApplicationCycleServices,
+    options: ApplicationCycleOptions = {}
+): Promise<ApplicationCycleReport> {
+    const { perscomService, databaseService, accountLinkService } = services;
+    const dryRun = options.dryRun ?? false;
+    const skippedWrites: string[] = [];
+
+    // Clearing the PERSCOM cache changes no data, so dry runs still do it to read fresh results.
+    try {
+        await perscomService.clearCache();
+    } catch (error) {
+        console.warn('Failed to clear PERSCOM cache:', error instanceof Error ? error.message : error);
+    }
+
+    const cursor = options.backfill ? null : await databaseService.getSyncCursor();
+    const sync = await perscomService.syncForm1Submissions(cursor);
+
+    if (sync.submissions.length > 0) {
+        if (dryRun) {
+            skippedWrites.push(`Store ${sync.submissions.length} synced submission(s)`);
+        } else {
+            await databaseService.upsertSubmissions(sync.submissions);
+            const settled = await databaseService.settleLegacyApplications();
+            if (settled > 0) {
+                console.log(`Marked ${settled} migrated application(s) accepted by the previous bot`);
+            }
+        }
+    }
+
+    const existingIds = await databaseService.getExistingApplicationIds(sync.submissions.map(s => s.form_id));
+    const newSubmissions = sync.submissions.filter(submission => !existingIds.has(submission.form_id));
+
+    const rules = newSubmissions.length > 0 ? await databaseService.getEligibilityRules() : [];
+
+    if (newSubmissions.length > 0 && dryRun) {
+        skippedWrites.push(...newSubmissions.flatMap(submission => {
+            const writes = [
+                `Track and announce new application #${submission.form_id} (${submission.first_name}, ${submission.preferred_position})`
+            ];
+            const { action, rule } = checkEligibility(submission, rules);
+            if (action && rule) {
+                writes.push(`${action === 'deny' ? 'Deny' : 'Hold'} #${submission.form_id} for failing "${describeRule(rule)}"`);
+            }
+            return writes;
+        }));
+    } else if (newSubmissions.length > 0) {
+        const eligibility = new Map(newSubmissions.map(submission =>
+            [submission.form_id, checkEligibility(submission, rules)] as const
+        ));
+        const discordIds = await accountLinkService.resolveDiscordIds(databaseService, newSubmissions);
+        const cooldownDays = options.reapplyCooldownDays ?? DEFAULT_REAPPLY_COOLDOWN_DAYS;
+        const recentDenials = await databaseService.getDenialRecordsSince(
+            cooldownStart(cooldownDays),
+            identitiesFor(newSubmissions, discordIds)
+        );
+        const cooldownFlags = findCooldownFlags(newSubmissions, discordIds, recentDenials, cooldownDays);
+        await databaseService.createApplications(newSubmissions, 'perscom_poll', newSubmissions.map(submission => ({
+            kind: 'new_application',
+            form_id: submission.form_id,
+            payload: {
+                cooldownFlag: cooldownFlags.get(submission.form_id),
+                eligibility: summarizeEligibility(eligibility.get(submission.form_id)!)
+            }
+        })));
+        await applyEligibilityDecisions(services, eligibility, options.holdStatusId ?? null);
+    }
+
+    if (sync.cursor && dryRun) {
+        skippedWrites.push(`Advance the sync cursor to submission #${sync.cursor.last_submission_id}`);
+    } else if (sync.cursor) {
+        await databaseService.saveSyncCursor(sync.cursor);
+    }
+
+    const now = new Date();
+    const pending = (await databaseService.getApplications(POLLED_STATES))
+        .filter(application => isStillPolled(application, now));
+    const statuses = await perscomService.resolveSubmissionStatuses(pending);
+
+    const transitions: ApplicationTransition[] = [];
+    for (const application of pending) {
+        const target = stateForStatus(statuses.get(application.form_id));
+        if (target) {
+            transitions.push({ application, target });
+        }
+    }
+
+    if (dryRun) {
+        skippedWrites.push(...transitions
+            .filter(({ application, target }) => target !== application.state
+                && canTransition(application.state, target, 'perscom_poll'))
+            .flatMap(describeTransition));
+    } else {
+        await applyApplicationTransitions(services, transitions, 'perscom_poll');
+    }
+
+    return { dryRun, skippedWrites };
+}
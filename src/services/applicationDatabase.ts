@@ -0,0 +1,28 @@
+import mysql from "mysql2";
+import { config } from "../config/config";
+import { DatabaseService } from "./database";
+
+// Optimized pool configuration with reasonable defaults
+const pool = mysql.createPool({
+    host: config.APPLICATION_DB.host,
+    port: config.APPLICATION_DB.port,
+    user: config.APPLICATION_DB.username,
+    password: config.APPLICATION_DB.password,
+    database: config.APPLICATION_DB.database,
+    waitForConnections: true,
+    connectionLimit: 5, // Reduced from 10 since the app doesn't need that many
+    queueLimit: 0,
+    enableKeepAlive: true,
+    keepAliveInitialDelay: 0
+});
+
+const poolPromise = pool.promise();
+
+export async function withApplicationDatabase<T>(task: (databaseService: DatabaseService) => Promise<T>): Promise<T> {
+    const connection = await poolPromise.getConnection();
+    try {
+        return await task(new DatabaseService(connection));
+    } finally {
+        connection.release();
+    }
+}
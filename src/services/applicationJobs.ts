@@ -0,0 +1,20 @@
+import { JobScheduler } from "./jobScheduler";
+import { withApplicationDatabase } from "./applicationDatabase";
+
+/** Names of the jobs the application bot registers, in the order `/nswg-admin jobs` lists them. */
+export const APPLICATION_JOBS = {
+    APPLICATION_CYCLE: 'application-cycle',
+    NOTIFICATION_OUTBOX: 'notification-outbox',
+    REVIEW_REMINDERS: 'review-reminders',
+    INTERVIEW_REMINDERS: 'interview-reminders',
+    ARCHIVE_RETENTION: 'archive-retention',
+    INACTIVITY_REPORT: 'inactivity-report'
+} as const;
+
+/** Shared by the application bot, which registers and starts the jobs, and the admin command. */
+export const jobScheduler = new JobScheduler({
+    getJobStates: () => withApplicationDatabase(databaseService => databaseService.getJobStates()),
+    saveJobRun: (name, run, consecutiveFailures) =>
+        withApplicationDatabase(databaseService => databaseService.saveJobRun(name, run, consecutiveFailures)),
+    setJobPaused: (name, paused) => withApplicationDatabase(databaseService => databaseService.setJobPaused(name, paused))
+});
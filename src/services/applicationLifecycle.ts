@@ -0,0 +1,98 @@
+import { Form1Submission, SUBMISSION_STATUSES, SubmissionStatus } from "./request_perscom";
+
+export type ApplicationState =
+    | 'received'
+    | 'under_review'
+    | 'accepted'
+    | 'denied'
+    | 'interviewed'
+    | 'enlisted';
+
+export type TransitionSource = 'perscom_poll' | 'discord' | 'eligibility' | 'migration';
+
+export interface Application extends Form1Submission {
+    state: ApplicationState;
+    created_at: Date;
+    state_changed_at: Date;
+}
+
+export interface ApplicationHistoryEntry {
+    form_id: number;
+    from_state: ApplicationState | null;
+    to_state: ApplicationState;
+    source: TransitionSource;
+    actor_id: string | null;
+    note: string | null;
+    created_at: Date;
+}
+
+export interface DenialReason {
+    id: number;
+    label: string;
+    message: string;
+    active: boolean;
+}
+
+export interface ApplicationDenial {
+    reason_id: number | null;
+    reason_label: string | null;
+    reason_message: string;
+    note: string | null;
+    denied_by: string | null;
+}
+
+/** Used when a denial arrives without a reviewer-chosen reason, e.g. straight from PERSCOM. */
+export const DEFAULT_DENIAL_REASON = 'Your application was not accepted at this time.';
+
+const TRANSITIONS: Record<ApplicationState, ApplicationState[]> = {
+    received: ['under_review', 'accepted', 'denied'],
+    under_review: ['received', 'accepted', 'denied'],
+    accepted: ['under_review', 'denied', 'interviewed'],
+    denied: ['under_review', 'accepted'],
+    interviewed: ['denied', 'enlisted'],
+    enlisted: []
+};
+
+/** States whose PERSCOM status is still polled for a decision, acceptances only while `isStillPolled`. */
+export const POLLED_STATES: ApplicationState[] = ['received', 'under_review', 'accepted'];
+
+/** How long an acceptance is re-checked for a reversal in PERSCOM; after that only a webhook reports one. */
+export const ACCEPTED_RECHECK_DAYS = 7;
+
+/** States still waiting on a reviewer's decision. */
+export const PENDING_REVIEW_STATES: ApplicationState[] = ['received', 'under_review'];
+
+/**
+ * Only a reviewer may put an accepted application back on hold: PERSCOM
+ * still reports it accepted, or lags behind a Discord acceptance, so a poll
+ * making that move would be undone or would undo the reviewer.
+ */
+export function canTransition(from: ApplicationState, to: ApplicationState, source: TransitionSource): boolean {
+    if (from === 'accepted' && to === 'under_review' && source !== 'discord') {
+        return false;
+    }
+    return TRANSITIONS[from].includes(to);
+}
+
+/** Whether the poll still asks PERSCOM about an application in one of the `POLLED_STATES`. */
+export function isStillPolled(application: Pick<Application, 'state' | 'state_changed_at'>, now: Date): boolean {
+    if (application.state !== 'accepted') {
+        return true;
+    }
+    const acceptedFor = now.getTime() - new Date(application.state_changed_at).getTime();
+    return acceptedFor < ACCEPTED_RECHECK_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export function stateForStatus(status: SubmissionStatus | null | undefined): ApplicationState | null {
+    if (!status) {
+        return null;
+    }
+    switch (status.id) {
+        case SUBMISSION_STATUSES.ACCEPTED:
+            return 'accepted';
+        case SUBMISSION_STATUSES.DENIED:
+            return 'denied';
+        default:
+            return 'under_review';
+    }
+}
@@ -0,0 +1,41 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DecisionTimeSummary {
+    decided: number;
+    medianHours: number | null;
+    averageHours: number | null;
+}
+
+export function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export function summarizeDecisionTimes(rows: { created_at: Date; decided_at: Date }[]): DecisionTimeSummary {
+    const hours = rows
+        .map(row => (new Date(row.decided_at).getTime() - new Date(row.created_at).getTime()) / HOUR_MS)
+        .filter(value => value >= 0);
+
+    return {
+        decided: hours.length,
+        medianHours: median(hours),
+        averageHours: hours.length > 0 ? hours.reduce((sum, value) => sum + value, 0) / hours.length : null
+    };
+}
+
+/** "5h" under two days, "3d 4h" beyond. */
+export function formatHours(hours: number | null): string {
+    if (hours === null) {
+        return 'n/a';
+    }
+    if (hours < 48) {
+        return `${Math.round(hours)}h`;
+    }
+    const days = Math.floor(hours / 24);
+    const remainder = Math.round(hours - days * 24);
+    return remainder > 0 ? `${days}d ${remainder}h` : `${days}d`;
+}
@@ -0,0 +1,145 @@
+import { AttendanceRecord } from "./attendanceService";
+import { ReportRange, buildAttendanceReport, normalizePlayerName, resolveReportRange } from "./attendanceReport";
+import { LeaveRequest } from "./leaveOfAbsence";
+import { RaidSchedule, raidDateKey } from "./raidSchedule";
+
+export type ExportFormat = 'csv' | 'json';
+
+export type NightStatus = 'present' | 'absent' | 'excused';
+
+export interface ExportedMember {
+    discord_id: string;
+    name: string;
+    /** Null when every raid in the range was excused. */
+    rate: number | null;
+    attended: number;
+    expected: number;
+    excused: number;
+    nights: { date: string; status: NightStatus; minutes: number }[];
+}
+
+export interface AttendanceExport {
+    from: string;
+    to: string;
+    generated_at: string;
+    raids: string[];
+    members: ExportedMember[];
+}
+
+/** Which members to export; with neither set, every member of the unit. */
+export interface ExportFilter {
+    range: ReportRange;
+    memberIds: string[];
+    roleId: string | null;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+    return value === 'csv' || value === 'json';
+}
+
+/** Rates come from the same tally as the calendar and report; minutes are summed per raid night. */
+export function buildAttendanceExport(
+    schedule: RaidSchedule,
+    members: { id: string; displayName: string }[],
+    records: AttendanceRecord[],
+    leave: LeaveRequest[],
+    range: ReportRange,
+    now: Date = new Date()
+): AttendanceExport {
+    const minutes = new Map<string, number>();
+    for (const record of records) {
+        const key = `${normalizePlayerName(record.player)} ${raidDateKey(record.date)}`;
+        minutes.set(key, (minutes.get(key) ?? 0) + (Number.isFinite(record.minutes) ? record.minutes : 0));
+    }
+
+    const rows = buildAttendanceReport(schedule, members, records, leave, range)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName));
+    const raids = schedule.raidDays(range.from, range.to);
+
+    return {
+        from: range.from,
+        to: range.to,
+        generated_at: now.toISOString(),
+        raids,
+        members: rows.map(row => {
+            const attended = new Set(row.tally.attended);
+            const excused = new Set(row.tally.excused);
+            const player = normalizePlayerName(row.displayName);
+            return {
+                discord_id: row.id,
+                name: row.displayName,
+                rate: row.rate,
+                attended: row.tally.attended.length,
+                expected: row.tally.raidDays.length,
+                excused: row.tally.excused.length,
+                nights: raids.map(date => ({
+                    date,
+                    status: attended.has(date) ? 'present' : excused.has(date) ? 'excused' : 'absent',
+                    minutes: minutes.get(`${player} ${date}`) ?? 0
+                }))
+            };
+        })
+    };
+}
+
+/**
+ * Quotes a CSV cell when needed and defuses values a spreadsheet would run
+ * as a formula, since member names are user-controlled.
+ */
+function csvCell(value: string | number | null): string {
+    let text = value === null ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per member per raid night, which pivots cleanly in a spreadsheet. */
+export function toAttendanceCsv(data: AttendanceExport): string {
+    const lines = [['date', 'discord_id', 'member', 'status', 'minutes', 'rate'].join(',')];
+    for (const member of data.members) {
+        for (const night of member.nights) {
+            lines.push([night.date, member.discord_id, member.name, night.status, night.minutes, member.rate].map(csvCell).join(','));
+        }
+    }
+    return `${lines.join('\r\n')}\r\n`;
+}
+
+export function formatAttendanceExport(data: AttendanceExport, format: ExportFormat): string {
+    return format === 'csv' ? toAttendanceCsv(data) : JSON.stringify(data, null, 2);
+}
+
+export function exportFileName(range: ReportRange, format: ExportFormat): string {
+    return `nswg-attendance-${range.from}-to-${range.to}.${format}`;
+}
+
+function queryValue(query: Record<string, unknown>, name: string): string | null {
+    const value = query[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Reads `GET /api/attendance` query parameters: `from`/`to` or `month`,
+ * `member` (comma-separated Discord IDs), `role` and `format`. Returns a
+ * message for the caller when a parameter is unusable.
+ */
+export function parseExportQuery(
+    query: Record<string, unknown>, today: string, trackingStart: string
+): { filter: ExportFilter; format: ExportFormat } | string {
+    const format = queryValue(query, 'format') ?? 'json';
+    if (!isExportFormat(format)) {
+        return 'format must be csv or json';
+    }
+    const memberIds = (queryValue(query, 'member') ?? '').split(',').map(id => id.trim()).filter(Boolean);
+    const roleId = queryValue(query, 'role');
+    if (memberIds.some(id => !/^\d+$/.test(id)) || (roleId && !/^\d+$/.test(roleId))) {
+        return 'member and role must be Discord IDs';
+    }
+    const range = resolveReportRange(
+        queryValue(query, 'month'), queryValue(query, 'from'), queryValue(query, 'to'), today, trackingStart
+    );
+    if (typeof range === 'string') {
+        return range.replace(/`/g, '');
+    }
+    return { filter: { range, memberIds, roleId }, format };
+}
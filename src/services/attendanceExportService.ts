@@ -0,0 +1,67 @@
+import { Guild } from "discord.js";
+import { Request, Response } from "express";
+import { getAttendanceBetween } from "./attendanceService";
+import { withApplicationDatabase } from "./applicationDatabase";
+import {
+    AttendanceExport, ExportFilter, buildAttendanceExport, exportFileName, formatAttendanceExport, parseExportQuery
+} from "./attendanceExport";
+import { TRACKING_START_KEY, addDays, todayKey } from "./raidSchedule";
+import { fetchGuildMembers } from "../utils/discordMembers";
+
+/** Gathers the roster, `RaidActivity` rows, raid schedule and approved leave behind an export. */
+export async function loadAttendanceExport(guild: Guild, filter: ExportFilter, now: Date = new Date()): Promise<AttendanceExport> {
+    const members = await fetchGuildMembers(guild);
+    if (!members) {
+        throw new Error(`could not fetch members of ${guild.name}`);
+    }
+    const roster = members
+        .filter(member => !member.user.bot
+            && (filter.memberIds.length === 0 || filter.memberIds.includes(member.id))
+            && (!filter.roleId || member.roles.cache.has(filter.roleId)))
+        .map(member => ({ id: member.id, displayName: member.displayName }));
+
+    // Raids run past midnight, so the last night's records can be logged the next morning.
+    const [records, [schedule, leave]] = await Promise.all([
+        getAttendanceBetween(new Date(`${filter.range.from}T00:00:00Z`), new Date(`${addDays(filter.range.to, 2)}T00:00:00Z`)),
+        withApplicationDatabase(databaseService => Promise.all([
+            databaseService.getRaidSchedule(),
+            databaseService.getApprovedLeaveBetween(filter.range.from, filter.range.to)
+        ]))
+    ]);
+
+    return buildAttendanceExport(schedule, roster, records, leave, filter.range, now);
+}
+
+/**
+ * `GET /api/attendance`: the same export as `/nswg-attendance export`,
+ * filtered by query parameters. `getGuild` returns null until Discord is ready.
+ */
+export function createAttendanceExportHandler(getGuild: () => Guild | null) {
+    return async (req: Request, res: Response): Promise<void> => {
+        const parsed = parseExportQuery(req.query as Record<string, unknown>, todayKey(), TRACKING_START_KEY);
+        if (typeof parsed === 'string') {
+            res.status(400).json({ error: parsed });
+            return;
+        }
+        const guild = getGuild();
+        if (!guild) {
+            res.status(503).json({ error: 'Discord is not connected yet' });
+            return;
+        }
+
+        try {
+            const data = await loadAttendanceExport(guild, parsed.filter);
+            if (parsed.format === 'csv') {
+                res.status(200)
+                    .type('text/csv')
+                    .attachment(exportFileName(parsed.filter.range, 'csv'))
+                    .send(formatAttendanceExport(data, 'csv'));
+            } else {
+                res.status(200).json(data);
+            }
+        } catch (error) {
+            console.error('Error exporting attendance:', error);
+            res.status(500).json({ error: 'Internal server error' });
+        }
+    };
+}
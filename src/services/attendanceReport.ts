@@ -0,0 +1,132 @@
+import { AttendanceRecord } from "./attendanceService";
+import { LeaveRequest, isExcusedStatus, leaveDays } from "./leaveOfAbsence";
+import { AttendanceTally, RaidSchedule, attendanceRate, dateKey, isDateKey, raidDateKey, tallyAttendance } from "./raidSchedule";
+
+export interface ReportRange {
+    /** `YYYY-MM-DD`, inclusive. */
+    from: string;
+    /** `YYYY-MM-DD`, inclusive. */
+    to: string;
+}
+
+export type AttendanceSort = 'rate_asc' | 'rate_desc' | 'name' | 'missed';
+
+export interface MemberAttendance {
+    id: string;
+    displayName: string;
+    tally: AttendanceTally;
+    /** Null when every raid in the range was excused. */
+    rate: number | null;
+}
+
+/** Attendance is logged under the in-game name, which matches the Discord display name without spaces. */
+export function normalizePlayerName(name: string): string {
+    return name.replace(/\s+/g, '');
+}
+
+/**
+ * One member's raid nights in a range. Records marked excused and days on
+ * approved leave are excused; any other record counts as attendance. The
+ * calendar and the unit report both tally through here.
+ */
+export function tallyMemberAttendance(
+    schedule: RaidSchedule, records: AttendanceRecord[], leave: LeaveRequest[], range: ReportRange
+): AttendanceTally {
+    const excusedDays = leaveDays(leave, range.from, range.to);
+    const present: Date[] = [];
+    for (const record of records) {
+        if (isExcusedStatus(record.status)) {
+            excusedDays.add(raidDateKey(record.date));
+        } else {
+            present.push(record.date);
+        }
+    }
+    return tallyAttendance(schedule, present, range.from, range.to, excusedDays);
+}
+
+export function buildAttendanceReport(
+    schedule: RaidSchedule,
+    members: { id: string; displayName: string }[],
+    records: AttendanceRecord[],
+    leave: LeaveRequest[],
+    range: ReportRange
+): MemberAttendance[] {
+    const recordsByPlayer = new Map<string, AttendanceRecord[]>();
+    for (const record of records) {
+        const player = normalizePlayerName(record.player);
+        recordsByPlayer.set(player, [...recordsByPlayer.get(player) ?? [], record]);
+    }
+
+    return members.map(member => {
+        const tally = tallyMemberAttendance(
+            schedule,
+            recordsByPlayer.get(normalizePlayerName(member.displayName)) ?? [],
+            leave.filter(request => request.discord_id === member.id),
+            range
+        );
+        return { ...member, tally, rate: tally.raidDays.length > 0 ? attendanceRate(tally) : null };
+    });
+}
+
+/** Members with no countable raids sort after everyone else. */
+export function sortAttendanceReport(rows: MemberAttendance[], sort: AttendanceSort): MemberAttendance[] {
+    const byName = (a: MemberAttendance, b: MemberAttendance) => a.displayName.localeCompare(b.displayName);
+    const missed = (row: MemberAttendance) => row.tally.raidDays.length - row.tally.attended.length;
+
+    return [...rows].sort((a, b) => {
+        if (sort === 'name') {
+            return byName(a, b);
+        }
+        if ((a.rate === null) !== (b.rate === null)) {
+            return a.rate === null ? 1 : -1;
+        }
+        const difference = sort === 'missed'
+            ? missed(b) - missed(a)
+            : sort === 'rate_desc' ? (b.rate ?? 0) - (a.rate ?? 0) : (a.rate ?? 0) - (b.rate ?? 0);
+        return difference || byName(a, b);
+    });
+}
+
+/**
+ * Works out the report period from a `MM/YYYY` month or a `from`/`to` date
+ * range (a range wins). Defaults to the current month and never runs past
+ * today. Returns a message for the user when the input is unusable.
+ */
+export function resolveReportRange(
+    month: string | null, from: string | null, to: string | null, today: string, trackingStart: string
+): ReportRange | string {
+    let range: ReportRange;
+    if (from || to) {
+        if (!from) {
+            return 'Give a `from` date as well as a `to` date.';
+        }
+        if (!isDateKey(from) || (to && !isDateKey(to))) {
+            return 'Dates must be in YYYY-MM-DD format.';
+        }
+        range = { from, to: to ?? today };
+    } else if (month) {
+        const match = month.match(/^(0[1-9]|1[0-2])\/(\d{4})$/);
+        if (!match) {
+            return 'Invalid month. Please use MM/YYYY format (e.g., 02/2025).';
+        }
+        const year = parseInt(match[2], 10);
+        const monthIndex = parseInt(match[1], 10) - 1;
+        range = { from: dateKey(year, monthIndex, 1), to: dateKey(year, monthIndex + 1, 0) };
+    } else {
+        range = { from: `${today.slice(0, 7)}-01`, to: today };
+    }
+
+    if (range.to > today) {
+        range.to = today;
+    }
+    if (range.from > range.to) {
+        return 'The report must start on or before today and before its end date.';
+    }
+    if (range.to < trackingStart) {
+        return `Attendance tracking began ${trackingStart}.`;
+    }
+    if (range.from < trackingStart) {
+        range.from = trackingStart;
+    }
+    return range;
+}
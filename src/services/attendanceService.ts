@@ -112,7 +112,6 @@ class DatabaseConnectionManager {
     }
 }
 
-export const TRACKING_START_DATE = new Date(Date.UTC(2025, 1, 8)); 
 export interface AttendanceRecord {
     date: Date;
     minutes: number;
@@ -162,3 +161,26 @@ export async function getPlayerAttendance(playerNickname: string): Promise<Atten
         throw error;
     }
 }
+
+/** Every member's attendance logged between `from` (inclusive) and `to` (exclusive). */
+export async function getAttendanceBetween(from: Date, to: Date): Promise<AttendanceRecord[]> {
+    try {
+        const pool = await dbManager.getConnection();
+
+        const result = await pool.query(
+            'SELECT date, player, minutes, raid_type, status FROM RaidActivity WHERE date >= $1 AND date < $2',
+            [from.getTime(), to.getTime()]
+        );
+
+        return result.rows.map(row => ({
+            date: new Date(Number(row.date)),
+            minutes: Number(row.minutes),
+            raid_type: row.raid_type,
+            status: row.status,
+            player: row.player
+        }));
+    } catch (error) {
+        console.error('Error fetching attendance:', error instanceof Error ? error.message : 'Unknown error');
+        throw error;
+    }
+}
@@ -1,10 +1,334 @@
 import { PoolConnection } from "mysql2/promise";
-import { AcceptedUsers, DeniedUsers, Form1Submission } from "./request_perscom";
+import { Form1Submission, SubmissionSyncCursor } from "./request_perscom";
+import {
+    Application, ApplicationDenial, ApplicationHistoryEntry, ApplicationState, DenialReason, PENDING_REVIEW_STATES,
+    TransitionSource
+} from "./applicationLifecycle";
+import { DEFAULT_ROUTE, ReviewerRoute } from "./reviewerRouting";
+import { AcceptanceRoleRule } from "./memberProvisioning";
+import { DenialIdentities, DenialRecord } from "./reapplicationCooldown";
+import { ApplicationPost, PendingReview, ReminderStage } from "./reviewReminders";
+import { InterviewOutcome, InterviewOutcomeRecord, InterviewSlot } from "./interviewActions";
+import { NotificationDelivery, NotificationDeliveryRecord } from "./notificationDelivery";
+import { DeletionSuspension, UserDeletion } from "./deletionGuard";
+import { ApplicantArchive } from "./applicantArchive";
+import { JobRun, JobState } from "./jobScheduler";
+import { NewOutboxMessage, OutboxMessage, outboxKey, parseOutboxPayload } from "./notificationOutbox";
+import { EligibilityAction, EligibilityRule, EligibilityRuleType } from "./eligibility";
+import { RaidException, RaidExceptionKind, RaidRule, RaidSchedule, TRACKING_START_KEY, addDays } from "./raidSchedule";
+import { LeaveCancellation, LeaveRequest } from "./leaveOfAbsence";
 
-export interface FormIdsTable {
-    form_id: number;
+export interface ApplicationFilter {
+    states?: ApplicationState[];
+    /** Case-insensitive substring of the preferred position. */
+    position?: string;
+    /** Only applications received on or after this time. */
+    since?: Date;
+    limit?: number;
 }
 
+export type AccountLinkMethod = 'auto' | 'staff' | 'self';
+
+export interface AccountLink {
+    perscom_user_id: number;
+    discord_id: string;
+    method: AccountLinkMethod;
+    linked_by: string | null;
+    created_at: Date;
+}
+
+const SUBMISSION_SYNC_CURSOR = 'form1_submissions';
+const USER_DELETION_GUARD = 'perscom_user_deletions';
+
+const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS perscom_sync_cursor (
+        name VARCHAR(64) PRIMARY KEY,
+        last_submission_id INT NOT NULL,
+        last_updated_at VARCHAR(64) NOT NULL,
+        synced_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS form1_submissions (
+        form_id INT PRIMARY KEY,
+        user_id INT NOT NULL,
+        first_name VARCHAR(255) NOT NULL,
+        discord_name VARCHAR(255) NOT NULL,
+        preferred_position VARCHAR(255) NOT NULL,
+        date_of_birth VARCHAR(64),
+        email_address VARCHAR(255),
+        arma_3_id VARCHAR(64),
+        updated_at VARCHAR(64),
+        INDEX idx_form1_submissions_user_id (user_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS applications (
+        form_id INT PRIMARY KEY,
+        state VARCHAR(32) NOT NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        state_changed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_applications_state (state)
+    )`,
+    `CREATE TABLE IF NOT EXISTS legacy_applications (
+        form_id INT PRIMARY KEY
+    )`,
+    `CREATE TABLE IF NOT EXISTS application_history (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        form_id INT NOT NULL,
+        from_state VARCHAR(32),
+        to_state VARCHAR(32) NOT NULL,
+        source VARCHAR(32) NOT NULL,
+        actor_id VARCHAR(32),
+        note TEXT,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_application_history_form_id (form_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS denial_reasons (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        label VARCHAR(100) NOT NULL,
+        message VARCHAR(1000) NOT NULL,
+        active TINYINT(1) NOT NULL DEFAULT 1,
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS application_denials (
+        form_id INT PRIMARY KEY,
+        reason_id INT,
+        reason_label VARCHAR(100),
+        reason_message VARCHAR(1000) NOT NULL,
+        note TEXT,
+        denied_by VARCHAR(32),
+        denied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS application_posts (
+        form_id INT PRIMARY KEY,
+        channel_id VARCHAR(32) NOT NULL,
+        message_id VARCHAR(32) NOT NULL,
+        posted_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        reminded_at DATETIME,
+        escalated_at DATETIME
+    )`,
+    `CREATE TABLE IF NOT EXISTS review_digests (
+        digest_date DATE PRIMARY KEY,
+        sent_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS inactivity_reports (
+        report_week DATE PRIMARY KEY,
+        flagged INT NOT NULL DEFAULT 0,
+        sent_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS interview_slots (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        reviewer_id VARCHAR(32) NOT NULL,
+        starts_at DATETIME NOT NULL,
+        duration_minutes INT NOT NULL,
+        form_id INT,
+        booked_at DATETIME,
+        reminded_at DATETIME,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_interview_slots_starts_at (starts_at),
+        INDEX idx_interview_slots_form_id (form_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS interview_outcomes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        form_id INT NOT NULL,
+        slot_id INT,
+        outcome VARCHAR(16) NOT NULL,
+        note TEXT,
+        recorded_by VARCHAR(32) NOT NULL,
+        recorded_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_interview_outcomes_form_id (form_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS denial_records (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        form_id INT NOT NULL,
+        perscom_user_id INT NOT NULL,
+        discord_id VARCHAR(32),
+        email_address VARCHAR(255),
+        arma_3_id VARCHAR(64),
+        reason_label VARCHAR(100),
+        reason_message VARCHAR(1000) NOT NULL,
+        denied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_denial_records_discord_id (discord_id),
+        INDEX idx_denial_records_email_address (email_address),
+        INDEX idx_denial_records_arma_3_id (arma_3_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        form_id INT,
+        perscom_user_id INT NOT NULL,
+        discord_id VARCHAR(32),
+        outcome VARCHAR(16) NOT NULL,
+        method VARCHAR(16) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        detail VARCHAR(255),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_notification_deliveries_form_id (form_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS notification_outbox (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        idempotency_key VARCHAR(25) NOT NULL UNIQUE,
+        kind VARCHAR(32) NOT NULL,
+        form_id INT NOT NULL,
+        payload TEXT,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_error VARCHAR(1000),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        sent_at DATETIME,
+        INDEX idx_notification_outbox_due (status, next_attempt_at),
+        INDEX idx_notification_outbox_form_id (form_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS perscom_user_deletions (
+        form_id INT PRIMARY KEY,
+        perscom_user_id INT NOT NULL,
+        first_name VARCHAR(255) NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        requested_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        decided_by VARCHAR(32),
+        decided_at DATETIME,
+        detail VARCHAR(255),
+        INDEX idx_perscom_user_deletions_status (status)
+    )`,
+    `CREATE TABLE IF NOT EXISTS applicant_archives (
+        form_id INT PRIMARY KEY,
+        perscom_user_id INT NOT NULL,
+        first_name VARCHAR(255),
+        discord_name VARCHAR(255),
+        date_of_birth VARCHAR(64),
+        email_address VARCHAR(255),
+        arma_3_id VARCHAR(64),
+        preferred_position VARCHAR(255),
+        answers TEXT,
+        reason_label VARCHAR(100),
+        reason_message VARCHAR(1000),
+        denied_by VARCHAR(32),
+        archived_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        purged_at DATETIME,
+        INDEX idx_applicant_archives_perscom_user_id (perscom_user_id),
+        INDEX idx_applicant_archives_archived_at (archived_at)
+    )`,
+    `CREATE TABLE IF NOT EXISTS perscom_guards (
+        name VARCHAR(64) PRIMARY KEY,
+        reason VARCHAR(255) NOT NULL,
+        suspended_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        name VARCHAR(64) PRIMARY KEY,
+        paused TINYINT(1) NOT NULL DEFAULT 0,
+        last_started_at DATETIME,
+        last_finished_at DATETIME,
+        last_duration_ms INT,
+        last_result VARCHAR(16),
+        last_error VARCHAR(1000),
+        consecutive_failures INT NOT NULL DEFAULT 0
+    )`,
+    `CREATE TABLE IF NOT EXISTS reviewer_routes (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        position VARCHAR(255) NOT NULL,
+        target_type VARCHAR(8) NOT NULL,
+        target_id VARCHAR(32) NOT NULL,
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_reviewer_routes (position, target_type, target_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS acceptance_role_rules (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        position VARCHAR(255) NOT NULL,
+        action VARCHAR(8) NOT NULL,
+        role_id VARCHAR(32) NOT NULL,
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_acceptance_role_rules (position, action, role_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS eligibility_rules (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        type VARCHAR(32) NOT NULL,
+        value VARCHAR(1000) NOT NULL,
+        action VARCHAR(8) NOT NULL DEFAULT 'flag',
+        denial_reason_id INT,
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS raid_schedule_rules (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        weekday TINYINT NOT NULL,
+        label VARCHAR(100),
+        effective_from DATE NOT NULL,
+        effective_until DATE,
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS raid_schedule_exceptions (
+        date DATE PRIMARY KEY,
+        kind VARCHAR(16) NOT NULL,
+        label VARCHAR(100),
+        created_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )`,
+    `CREATE TABLE IF NOT EXISTS leave_requests (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        discord_id VARCHAR(32) NOT NULL,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        reason VARCHAR(500) NOT NULL,
+        status VARCHAR(16) NOT NULL DEFAULT 'pending',
+        requested_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        decided_by VARCHAR(32),
+        decided_at DATETIME,
+        INDEX idx_leave_requests_discord_id (discord_id),
+        INDEX idx_leave_requests_status (status)
+    )`,
+    `CREATE TABLE IF NOT EXISTS account_links (
+        perscom_user_id INT PRIMARY KEY,
+        discord_id VARCHAR(32) NOT NULL,
+        method VARCHAR(16) NOT NULL,
+        linked_by VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_account_links_discord_id (discord_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS account_link_requests (
+        perscom_user_id INT PRIMARY KEY,
+        message_id VARCHAR(32),
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        dismissed_by VARCHAR(32),
+        dismissed_at DATETIME
+    )`
+];
+
+// Seeded once so reviewers start with the reasons the bot used to pick automatically.
+const DEFAULT_DENIAL_REASONS = [
+    ['Age requirement', 'Age requirement not met. Minimum age requirement is 16+.'],
+    ['Lack of effort', 'Application denied due to lack of effort. You may reapply in 14 days.']
+];
+
+// The reviewers that used to be hard-coded in NotificationService.
+const DEFAULT_REVIEWER_ROUTES = [
+    ['SO Special Warfare Operator', 'user', '667833642248175673'],
+    ['SO Special Warfare Operator', 'user', '492142030831616010'],
+    [DEFAULT_ROUTE, 'user', '249242679211196417']
+];
+
+/** Wednesday and Saturday nights, the schedule before it was configurable. */
+const DEFAULT_RAID_RULES = [
+    [3, 'Wednesday raid', TRACKING_START_KEY],
+    [6, 'Saturday raid', TRACKING_START_KEY]
+];
+
+/** Columns added to tables that already exist in deployed databases. */
+const ADDED_COLUMNS: [table: string, column: string, definition: string][] = [
+    ['form1_submissions', 'email_address', 'VARCHAR(255) AFTER date_of_birth'],
+    ['form1_submissions', 'arma_3_id', 'VARCHAR(64) AFTER email_address']
+];
+
+const APPLICATION_COLUMNS = `a.form_id, a.state, a.created_at, a.state_changed_at,
+    s.user_id, s.first_name, s.discord_name, s.preferred_position, s.date_of_birth, s.email_address, s.arma_3_id,
+    s.updated_at`;
+
+const LEAVE_COLUMNS = `id, discord_id, DATE_FORMAT(start_date, '%Y-%m-%d') AS start_date,
+    DATE_FORMAT(end_date, '%Y-%m-%d') AS end_date, reason, status, requested_at, decided_by, decided_at`;
+
+const OUTBOX_COLUMNS = `id, idempotency_key, kind, form_id, payload, status, attempts, next_attempt_at, last_error, created_at,
+    sent_at`;
+
 export class DatabaseService {
     private connection: PoolConnection;
 
@@ -12,86 +336,1502 @@ export class DatabaseService {
         this.connection = connection;
     }
 
-    public async putAcceptedUsersTable(users: AcceptedUsers[]): Promise<void> {
-        const query = 'INSERT INTO accepted_users (name, user_id, preferred_position) VALUES ?';
-        const values = users.map(user => [
-            user.first_name, 
-            user.user_id, 
-            user.preferred_position
+    public async ensureSchema(): Promise<void> {
+        try {
+            for (const statement of SCHEMA) {
+                await this.connection.query(statement);
+            }
+            await this.addMissingColumns();
+            await this.migrateLegacyTables();
+            await this.seedDenialReasons();
+            await this.seedReviewerRoutes();
+            await this.seedRaidSchedule();
+        } catch (err) {
+            console.error("Error creating application tables:", err);
+            throw err;
+        }
+    }
+
+    public async getSyncCursor(): Promise<SubmissionSyncCursor | null> {
+        const query = 'SELECT last_submission_id, last_updated_at FROM perscom_sync_cursor WHERE name = ?';
+        try {
+            const [results] = await this.connection.query(query, [SUBMISSION_SYNC_CURSOR]);
+            const row = (results as any[])[0];
+            return row ? {
+                last_submission_id: row.last_submission_id,
+                last_updated_at: row.last_updated_at
+            } : null;
+        } catch (err) {
+            console.error("Error fetching sync cursor:", err);
+            throw err;
+        }
+    }
+
+    public async saveSyncCursor(cursor: SubmissionSyncCursor): Promise<void> {
+        const query = `INSERT INTO perscom_sync_cursor (name, last_submission_id, last_updated_at) VALUES (?, ?, ?)
+            ON DUPLICATE KEY UPDATE last_submission_id = VALUES(last_submission_id), last_updated_at = VALUES(last_updated_at)`;
+        try {
+            await this.connection.query(query, [SUBMISSION_SYNC_CURSOR, cursor.last_submission_id, cursor.last_updated_at]);
+        } catch (err) {
+            console.error("Error saving sync cursor:", err);
+            throw err;
+        }
+    }
+
+    public async upsertSubmissions(data: Form1Submission[]): Promise<void> {
+        const query = `INSERT INTO form1_submissions
+            (form_id, user_id, first_name, discord_name, preferred_position, date_of_birth, email_address, arma_3_id,
+                updated_at) VALUES ?
+            ON DUPLICATE KEY UPDATE user_id = VALUES(user_id), first_name = VALUES(first_name),
+                discord_name = VALUES(discord_name), preferred_position = VALUES(preferred_position),
+                date_of_birth = VALUES(date_of_birth), email_address = VALUES(email_address),
+                arma_3_id = VALUES(arma_3_id), updated_at = VALUES(updated_at)`;
+        const values = data.map(submission => [
+            submission.form_id,
+            submission.user_id,
+            submission.first_name,
+            submission.discord_name,
+            submission.preferred_position,
+            submission.date_of_birth,
+            submission.email_address ?? null,
+            submission.arma_3_id ?? null,
+            submission.updated_at ?? null
         ]);
         try {
             await this.connection.query(query, [values]);
         } catch (err) {
-            console.error("Error inserting accepted users:", err);
+            console.error("Error upserting submissions:", err);
+            throw err;
+        }
+    }
+
+    public async getExistingApplicationIds(formIds: number[]): Promise<Set<number>> {
+        if (formIds.length === 0) {
+            return new Set();
+        }
+        const query = 'SELECT form_id FROM applications WHERE form_id IN (?)';
+        try {
+            const [results] = await this.connection.query(query, [formIds]);
+            return new Set((results as any[]).map(row => row.form_id));
+        } catch (err) {
+            console.error("Error fetching application IDs:", err);
             throw err;
         }
     }
 
-    public async putFormIdsTable(data: Form1Submission[]): Promise<void> {
-        const query = 'INSERT INTO old_forms (form_id) VALUES ?';
-        const values = data.map(user => [user.form_id]);
+    /**
+     * Tracks new submissions together with their announcements in the outbox,
+     * so an application is never stored without being announced. Submissions
+     * another run already tracked (a webhook racing the poll) are skipped,
+     * history and announcements included.
+     */
+    public async createApplications(
+        data: Form1Submission[],
+        source: TransitionSource,
+        outbox: NewOutboxMessage[] = []
+    ): Promise<void> {
         try {
-            await this.connection.query(query, [values]);
+            await this.connection.beginTransaction();
+            const created = new Set<number>();
+            for (const submission of data) {
+                const [result] = await this.connection.query(
+                    "INSERT IGNORE INTO applications (form_id, state) VALUES (?, 'received')",
+                    [submission.form_id]
+                );
+                if ((result as any).affectedRows > 0) {
+                    created.add(submission.form_id);
+                }
+            }
+            if (created.size > 0) {
+                await this.connection.query(
+                    'INSERT INTO application_history (form_id, from_state, to_state, source) VALUES ?',
+                    [Array.from(created, formId => [formId, null, 'received', source])]
+                );
+            }
+            await this.insertOutboxMessages(outbox
+                .filter(message => created.has(message.form_id))
+                .map(message => ({ ...message, key: outboxKey(message.kind, message.form_id) })));
+            await this.connection.commit();
+        } catch (err) {
+            await this.connection.rollback();
+            console.error("Error creating applications:", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Marks migrated applications whose applicant is in the old bot's
+     * `accepted_users` as accepted, without notifying or provisioning them
+     * again. Applications are settled once their submission has been synced;
+     * returns how many were accepted.
+     */
+    public async settleLegacyApplications(): Promise<number> {
+        try {
+            const [countRows] = await this.connection.query('SELECT COUNT(*) AS count FROM legacy_applications');
+            if ((countRows as any[])[0].count === 0) {
+                return 0;
+            }
+
+            await this.connection.beginTransaction();
+            const [acceptedRows] = await this.connection.query(
+                `SELECT a.form_id FROM legacy_applications l
+                    JOIN applications a ON a.form_id = l.form_id
+                    JOIN form1_submissions s ON s.form_id = l.form_id
+                    JOIN accepted_users u ON u.user_id = s.user_id
+                    WHERE a.state = 'received'`
+            );
+            const formIds: number[] = (acceptedRows as any[]).map(row => row.form_id);
+            if (formIds.length > 0) {
+                await this.connection.query(
+                    "UPDATE applications SET state = 'accepted', state_changed_at = CURRENT_TIMESTAMP WHERE form_id IN (?)",
+                    [formIds]
+                );
+                await this.connection.query(
+                    'INSERT INTO application_history (form_id, from_state, to_state, source, note) VALUES ?',
+                    [formIds.map(formId => [formId, 'received', 'accepted', 'migration', 'Accepted by the previous bot'])]
+                );
+            }
+            await this.connection.query(
+                'DELETE l FROM legacy_applications l JOIN form1_submissions s ON s.form_id = l.form_id'
+            );
+            await this.connection.commit();
+            return formIds.length;
+        } catch (err) {
+            await this.connection.rollback();
+            console.error("Error settling migrated applications:", err);
+            throw err;
+        }
+    }
+
+    public async getApplications(states?: ApplicationState[]): Promise<Application[]> {
+        const query = `SELECT ${APPLICATION_COLUMNS}
+            FROM applications a JOIN form1_submissions s ON s.form_id = a.form_id
+            ${states ? 'WHERE a.state IN (?)' : ''}
+            ORDER BY a.form_id`;
+        try {
+            const [results] = await this.connection.query(query, states ? [states] : []);
+            return (results as any[]).map(row => this.mapApplication(row));
+        } catch (err) {
+            console.error("Error fetching applications:", err);
+            throw err;
+        }
+    }
+
+    public async getApplication(formId: number): Promise<Application | null> {
+        const query = `SELECT ${APPLICATION_COLUMNS}
+            FROM applications a JOIN form1_submissions s ON s.form_id = a.form_id
+            WHERE a.form_id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            const row = (results as any[])[0];
+            return row ? this.mapApplication(row) : null;
+        } catch (err) {
+            console.error("Error fetching application:", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Moves an application from `from` to `to` and records the change along
+     * with any `outbox` notifications for it. Returns false without writing
+     * anything if the application is no longer in `from`.
+     */
+    public async transitionApplication(
+        formId: number,
+        from: ApplicationState,
+        to: ApplicationState,
+        source: TransitionSource,
+        actorId: string | null = null,
+        note: string | null = null,
+        outbox: NewOutboxMessage[] = []
+    ): Promise<boolean> {
+        try {
+            await this.connection.beginTransaction();
+            const [result] = await this.connection.query(
+                'UPDATE applications SET state = ?, state_changed_at = CURRENT_TIMESTAMP WHERE form_id = ? AND state = ?',
+                [to, formId, from]
+            );
+            if ((result as any).affectedRows === 0) {
+                await this.connection.rollback();
+                return false;
+            }
+            const [history] = await this.connection.query(
+                'INSERT INTO application_history (form_id, from_state, to_state, source, actor_id, note) VALUES (?, ?, ?, ?, ?, ?)',
+                [formId, from, to, source, actorId, note]
+            );
+            const historyId: number = (history as any).insertId;
+            await this.insertOutboxMessages(outbox.map(message => ({ ...message, key: outboxKey(message.kind, historyId) })));
+            await this.connection.commit();
+            return true;
+        } catch (err) {
+            await this.connection.rollback();
+            console.error("Error transitioning application:", err);
+            throw err;
+        }
+    }
+
+    /** Newest applications first, narrowed by `filter`. */
+    public async searchApplications(filter: ApplicationFilter): Promise<Application[]> {
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (filter.states && filter.states.length > 0) {
+            conditions.push('a.state IN (?)');
+            params.push(filter.states);
+        }
+        if (filter.position) {
+            conditions.push('LOWER(s.preferred_position) LIKE ?');
+            params.push(`%${filter.position.toLowerCase()}%`);
+        }
+        if (filter.since) {
+            conditions.push('a.created_at >= ?');
+            params.push(filter.since);
+        }
+        params.push(filter.limit ?? 250);
+
+        const query = `SELECT ${APPLICATION_COLUMNS}
+            FROM applications a JOIN form1_submissions s ON s.form_id = a.form_id
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY a.created_at DESC, a.form_id DESC
+            LIMIT ?`;
+        try {
+            const [results] = await this.connection.query(query, params);
+            return (results as any[]).map(row => this.mapApplication(row));
         } catch (err) {
-            console.error("Error inserting form IDs:", err);
+            console.error("Error searching applications:", err);
             throw err;
         }
     }
 
-    public async getFormsIdsTable(): Promise<FormIdsTable[]> {
-        const query = 'SELECT form_id FROM old_forms';
+    public async getApplicationStateCounts(): Promise<Map<ApplicationState, number>> {
+        const query = 'SELECT state, COUNT(*) AS count FROM applications GROUP BY state';
         try {
             const [results] = await this.connection.query(query);
-            return (results as FormIdsTable[]).map(row => ({
-                form_id: row.form_id,
+            return new Map((results as any[]).map(row => [row.state, Number(row.count)]));
+        } catch (err) {
+            console.error("Error counting applications:", err);
+            throw err;
+        }
+    }
+
+    /** The longest-waiting application in one of `states`, or null when there is none. */
+    public async getOldestApplication(states: ApplicationState[]): Promise<Application | null> {
+        const query = `SELECT ${APPLICATION_COLUMNS}
+            FROM applications a JOIN form1_submissions s ON s.form_id = a.form_id
+            WHERE a.state IN (?)
+            ORDER BY a.created_at, a.form_id
+            LIMIT 1`;
+        try {
+            const [results] = await this.connection.query(query, [states]);
+            const row = (results as any[])[0];
+            return row ? this.mapApplication(row) : null;
+        } catch (err) {
+            console.error("Error fetching oldest application:", err);
+            throw err;
+        }
+    }
+
+    /** When each application received since `since` was first accepted or denied. */
+    public async getDecisionTimes(since: Date): Promise<{ form_id: number; created_at: Date; decided_at: Date }[]> {
+        const query = `SELECT a.form_id, a.created_at, MIN(h.created_at) AS decided_at
+            FROM applications a
+            JOIN application_history h ON h.form_id = a.form_id AND h.to_state IN ('accepted', 'denied')
+            WHERE a.created_at >= ?
+            GROUP BY a.form_id, a.created_at`;
+        try {
+            const [results] = await this.connection.query(query, [since]);
+            return results as { form_id: number; created_at: Date; decided_at: Date }[];
+        } catch (err) {
+            console.error("Error fetching decision times:", err);
+            throw err;
+        }
+    }
+
+    public async saveApplicationPosts(posts: ApplicationPost[]): Promise<void> {
+        if (posts.length === 0) {
+            return;
+        }
+        const query = `INSERT INTO application_posts (form_id, channel_id, message_id) VALUES ?
+            ON DUPLICATE KEY UPDATE channel_id = VALUES(channel_id), message_id = VALUES(message_id)`;
+        try {
+            await this.connection.query(query, [posts.map(post => [post.form_id, post.channel_id, post.message_id])]);
+        } catch (err) {
+            console.error("Error saving application posts:", err);
+            throw err;
+        }
+    }
+
+    public async getApplicationPost(formId: number): Promise<ApplicationPost | null> {
+        const query = "SELECT form_id, channel_id, message_id FROM application_posts WHERE form_id = ? AND message_id <> ''";
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return (results as ApplicationPost[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching application post:", err);
+            throw err;
+        }
+    }
+
+    /** Applications still waiting on a decision, with their post and follow-up state. */
+    public async getPendingReviews(): Promise<PendingReview[]> {
+        const query = `SELECT ${APPLICATION_COLUMNS}, p.channel_id, p.message_id, p.reminded_at, p.escalated_at
+            FROM applications a
+            JOIN form1_submissions s ON s.form_id = a.form_id
+            LEFT JOIN application_posts p ON p.form_id = a.form_id
+            WHERE a.state IN (?)
+            ORDER BY a.created_at`;
+        try {
+            const [results] = await this.connection.query(query, [PENDING_REVIEW_STATES]);
+            return (results as any[]).map(row => ({
+                ...this.mapApplication(row),
+                channel_id: row.channel_id,
+                message_id: row.message_id,
+                reminded_at: row.reminded_at,
+                escalated_at: row.escalated_at
             }));
         } catch (err) {
-            console.error("Error fetching form IDs:", err);
+            console.error("Error fetching pending reviews:", err);
+            throw err;
+        }
+    }
+
+    public async markReviewReminder(formId: number, stage: ReminderStage): Promise<void> {
+        const column = stage === 'escalate' ? 'escalated_at' : 'reminded_at';
+        const query = `INSERT INTO application_posts (form_id, channel_id, message_id, ${column}) VALUES (?, '', '', NOW())
+            ON DUPLICATE KEY UPDATE ${column} = NOW()`;
+        try {
+            await this.connection.query(query, [formId]);
+        } catch (err) {
+            console.error("Error marking review reminder:", err);
+            throw err;
+        }
+    }
+
+    /** Returns true for the first caller on a given day, so the digest goes out once. */
+    public async claimReviewDigest(digestDate: string): Promise<boolean> {
+        const query = 'INSERT IGNORE INTO review_digests (digest_date) VALUES (?)';
+        try {
+            const [result] = await this.connection.query(query, [digestDate]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error claiming review digest:", err);
+            throw err;
+        }
+    }
+
+    public async releaseReviewDigest(digestDate: string): Promise<void> {
+        const query = 'DELETE FROM review_digests WHERE digest_date = ?';
+        try {
+            await this.connection.query(query, [digestDate]);
+        } catch (err) {
+            console.error("Error releasing review digest:", err);
+            throw err;
+        }
+    }
+
+    /** Returns true for the first caller in a given week, so the inactivity list goes out once. */
+    public async claimInactivityReport(reportWeek: string, flagged: number): Promise<boolean> {
+        const query = 'INSERT IGNORE INTO inactivity_reports (report_week, flagged) VALUES (?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [reportWeek, flagged]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error claiming inactivity report:", err);
+            throw err;
+        }
+    }
+
+    public async releaseInactivityReport(reportWeek: string): Promise<void> {
+        const query = 'DELETE FROM inactivity_reports WHERE report_week = ?';
+        try {
+            await this.connection.query(query, [reportWeek]);
+        } catch (err) {
+            console.error("Error releasing inactivity report:", err);
+            throw err;
+        }
+    }
+
+    public async getApplicationHistory(formId: number): Promise<ApplicationHistoryEntry[]> {
+        const query = `SELECT form_id, from_state, to_state, source, actor_id, note, created_at
+            FROM application_history WHERE form_id = ? ORDER BY created_at, id`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return results as ApplicationHistoryEntry[];
+        } catch (err) {
+            console.error("Error fetching application history:", err);
             throw err;
         }
     }
 
-    public async getUsersDatabase(): Promise<AcceptedUsers[]> {
-        const query = 'SELECT name, user_id, preferred_position FROM accepted_users';
+    public async getDenialReasons(includeInactive: boolean = false): Promise<DenialReason[]> {
+        const query = `SELECT id, label, message, active FROM denial_reasons
+            ${includeInactive ? '' : 'WHERE active = 1'} ORDER BY id`;
         try {
             const [results] = await this.connection.query(query);
             return (results as any[]).map(row => ({
-                first_name: row.name,     
-                discord_name: '',         
-                user_id: row.user_id,  
-                preferred_position: row.preferred_position
+                id: row.id,
+                label: row.label,
+                message: row.message,
+                active: row.active === 1
             }));
         } catch (err) {
-            console.error("Error fetching accepted users:", err);
+            console.error("Error fetching denial reasons:", err);
             throw err;
         }
     }
 
-    public async deleteOldForms(users: DeniedUsers[]): Promise<void> {
-        const query = 'DELETE FROM old_forms WHERE form_id = ?';
+    public async getDenialReason(id: number): Promise<DenialReason | null> {
+        const reasons = await this.getDenialReasons(true);
+        return reasons.find(reason => reason.id === id) ?? null;
+    }
+
+    public async addDenialReason(label: string, message: string, createdBy: string): Promise<number> {
+        const query = 'INSERT INTO denial_reasons (label, message, created_by) VALUES (?, ?, ?)';
         try {
-            for (const user of users) {
-                if (user.form_id) {
-                    await this.connection.query(query, [user.form_id]);
-                }
+            const [result] = await this.connection.query(query, [label, message, createdBy]);
+            return (result as any).insertId;
+        } catch (err) {
+            console.error("Error adding denial reason:", err);
+            throw err;
+        }
+    }
+
+    public async setDenialReasonActive(id: number, active: boolean): Promise<boolean> {
+        const query = 'UPDATE denial_reasons SET active = ? WHERE id = ?';
+        try {
+            const [result] = await this.connection.query(query, [active ? 1 : 0, id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error updating denial reason:", err);
+            throw err;
+        }
+    }
+
+    public async recordDenial(formId: number, denial: ApplicationDenial): Promise<void> {
+        const query = `INSERT INTO application_denials (form_id, reason_id, reason_label, reason_message, note, denied_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE reason_id = VALUES(reason_id), reason_label = VALUES(reason_label),
+                reason_message = VALUES(reason_message), note = VALUES(note), denied_by = VALUES(denied_by),
+                denied_at = CURRENT_TIMESTAMP`;
+        try {
+            await this.connection.query(query, [
+                formId, denial.reason_id, denial.reason_label, denial.reason_message, denial.note, denial.denied_by
+            ]);
+        } catch (err) {
+            console.error("Error recording denial:", err);
+            throw err;
+        }
+    }
+
+    public async saveDenialRecords(records: Omit<DenialRecord, 'denied_at'>[]): Promise<void> {
+        if (records.length === 0) {
+            return;
+        }
+        const query = `INSERT INTO denial_records
+            (form_id, perscom_user_id, discord_id, email_address, arma_3_id, reason_label, reason_message) VALUES ?`;
+        const values = records.map(record => [
+            record.form_id,
+            record.perscom_user_id,
+            record.discord_id,
+            record.email_address,
+            record.arma_3_id,
+            record.reason_label,
+            record.reason_message
+        ]);
+        try {
+            await this.connection.query(query, [values]);
+        } catch (err) {
+            console.error("Error saving denial records:", err);
+            throw err;
+        }
+    }
+
+    /** Denials since `since` that share a Discord ID, email or Arma 3 ID with `identities`. */
+    public async getDenialRecordsSince(since: Date, identities: DenialIdentities): Promise<DenialRecord[]> {
+        const conditions: string[] = [];
+        const params: any[] = [since];
+        const byColumn: [string, string[]][] = [
+            ['discord_id', identities.discordIds],
+            ['email_address', identities.emails],
+            ['arma_3_id', identities.armaIds]
+        ];
+        for (const [column, values] of byColumn) {
+            if (values.length > 0) {
+                conditions.push(`${column} IN (?)`);
+                params.push(values);
             }
+        }
+        if (conditions.length === 0) {
+            return [];
+        }
+
+        const query = `SELECT form_id, perscom_user_id, discord_id, email_address, arma_3_id, reason_label, reason_message,
+                denied_at
+            FROM denial_records WHERE denied_at >= ? AND (${conditions.join(' OR ')})
+            ORDER BY denied_at DESC`;
+        try {
+            const [results] = await this.connection.query(query, params);
+            return results as DenialRecord[];
         } catch (err) {
-            console.error("Error deleting old forms:", err);
+            console.error("Error fetching denial records:", err);
             throw err;
         }
     }
 
-    public async compareAndInsertUsers(
-        acceptedUsers: AcceptedUsers[],
-        acceptedUsersDatabase: AcceptedUsers[]
-    ): Promise<AcceptedUsers[]> {
-        const newUsers = acceptedUsers.filter(
-            user => !acceptedUsersDatabase.some(dbUser => dbUser.user_id === user.user_id)
-        );
+    public async getDenial(formId: number): Promise<(ApplicationDenial & { denied_at: Date }) | null> {
+        const query = `SELECT reason_id, reason_label, reason_message, note, denied_by, denied_at
+            FROM application_denials WHERE form_id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return (results as any[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching denial:", err);
+            throw err;
+        }
+    }
+
+    public async getReviewerRoutes(): Promise<ReviewerRoute[]> {
+        const query = 'SELECT position, target_type, target_id FROM reviewer_routes ORDER BY position, id';
+        try {
+            const [results] = await this.connection.query(query);
+            return results as ReviewerRoute[];
+        } catch (err) {
+            console.error("Error fetching reviewer routes:", err);
+            throw err;
+        }
+    }
+
+    public async addReviewerRoute(route: ReviewerRoute, createdBy: string): Promise<boolean> {
+        const query = 'INSERT IGNORE INTO reviewer_routes (position, target_type, target_id, created_by) VALUES (?, ?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [route.position, route.target_type, route.target_id, createdBy]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error adding reviewer route:", err);
+            throw err;
+        }
+    }
+
+    public async removeReviewerRoute(route: ReviewerRoute): Promise<boolean> {
+        const query = 'DELETE FROM reviewer_routes WHERE position = ? AND target_type = ? AND target_id = ?';
+        try {
+            const [result] = await this.connection.query(query, [route.position, route.target_type, route.target_id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing reviewer route:", err);
+            throw err;
+        }
+    }
+
+    public async getAcceptanceRoleRules(): Promise<AcceptanceRoleRule[]> {
+        const query = 'SELECT position, action, role_id FROM acceptance_role_rules ORDER BY position, id';
+        try {
+            const [results] = await this.connection.query(query);
+            return results as AcceptanceRoleRule[];
+        } catch (err) {
+            console.error("Error fetching acceptance role rules:", err);
+            throw err;
+        }
+    }
+
+    public async addAcceptanceRoleRule(rule: AcceptanceRoleRule, createdBy: string): Promise<boolean> {
+        const query = 'INSERT IGNORE INTO acceptance_role_rules (position, action, role_id, created_by) VALUES (?, ?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [rule.position, rule.action, rule.role_id, createdBy]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error adding acceptance role rule:", err);
+            throw err;
+        }
+    }
+
+    public async removeAcceptanceRoleRule(rule: AcceptanceRoleRule): Promise<boolean> {
+        const query = 'DELETE FROM acceptance_role_rules WHERE position = ? AND action = ? AND role_id = ?';
+        try {
+            const [result] = await this.connection.query(query, [rule.position, rule.action, rule.role_id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing acceptance role rule:", err);
+            throw err;
+        }
+    }
+
+    public async getEligibilityRules(): Promise<EligibilityRule[]> {
+        const query = `SELECT e.id, e.type, e.value, e.action, e.denial_reason_id,
+                r.label AS reason_label, r.message AS reason_message
+            FROM eligibility_rules e LEFT JOIN denial_reasons r ON r.id = e.denial_reason_id
+            ORDER BY e.id`;
+        try {
+            const [results] = await this.connection.query(query);
+            return results as EligibilityRule[];
+        } catch (err) {
+            console.error("Error fetching eligibility rules:", err);
+            throw err;
+        }
+    }
+
+    public async addEligibilityRule(
+        type: EligibilityRuleType,
+        value: string,
+        action: EligibilityAction,
+        denialReasonId: number | null,
+        createdBy: string
+    ): Promise<number> {
+        const query = 'INSERT INTO eligibility_rules (type, value, action, denial_reason_id, created_by) VALUES (?, ?, ?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [type, value, action, denialReasonId, createdBy]);
+            return (result as any).insertId;
+        } catch (err) {
+            console.error("Error adding eligibility rule:", err);
+            throw err;
+        }
+    }
+
+    public async removeEligibilityRule(id: number): Promise<boolean> {
+        const query = 'DELETE FROM eligibility_rules WHERE id = ?';
+        try {
+            const [result] = await this.connection.query(query, [id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing eligibility rule:", err);
+            throw err;
+        }
+    }
+
+    public async getRaidSchedule(): Promise<RaidSchedule> {
+        const rulesQuery = `SELECT id, weekday, label, DATE_FORMAT(effective_from, '%Y-%m-%d') AS effective_from,
+                DATE_FORMAT(effective_until, '%Y-%m-%d') AS effective_until
+            FROM raid_schedule_rules ORDER BY effective_from, weekday, id`;
+        const exceptionsQuery = `SELECT DATE_FORMAT(date, '%Y-%m-%d') AS date, kind, label
+            FROM raid_schedule_exceptions ORDER BY date`;
+        try {
+            const [rules] = await this.connection.query(rulesQuery);
+            const [exceptions] = await this.connection.query(exceptionsQuery);
+            return new RaidSchedule(rules as RaidRule[], exceptions as RaidException[]);
+        } catch (err) {
+            console.error("Error fetching raid schedule:", err);
+            throw err;
+        }
+    }
 
-        if (newUsers.length > 0) {
-            await this.putAcceptedUsersTable(newUsers);
+    public async addRaidRule(weekday: number, label: string | null, effectiveFrom: string, createdBy: string): Promise<number> {
+        const query = 'INSERT INTO raid_schedule_rules (weekday, label, effective_from, created_by) VALUES (?, ?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [weekday, label, effectiveFrom, createdBy]);
+            return (result as any).insertId;
+        } catch (err) {
+            console.error("Error adding raid rule:", err);
+            throw err;
         }
-        return newUsers;
     }
-}
\ No newline at end of file
+
+    /** Stops a current weekly rule from `until` onwards; earlier weeks keep it. */
+    public async endRaidRule(id: number, until: string): Promise<boolean> {
+        const query = `UPDATE raid_schedule_rules SET effective_until = ?
+            WHERE id = ? AND effective_until IS NULL AND effective_from <= ?`;
+        try {
+            const [result] = await this.connection.query(query, [until, id, until]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error ending raid rule:", err);
+            throw err;
+        }
+    }
+
+    public async setRaidException(date: string, kind: RaidExceptionKind, label: string | null, createdBy: string): Promise<void> {
+        const query = `INSERT INTO raid_schedule_exceptions (date, kind, label, created_by) VALUES (?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE kind = VALUES(kind), label = VALUES(label), created_by = VALUES(created_by),
+                created_at = CURRENT_TIMESTAMP`;
+        try {
+            await this.connection.query(query, [date, kind, label, createdBy]);
+        } catch (err) {
+            console.error("Error saving raid exception:", err);
+            throw err;
+        }
+    }
+
+    public async removeRaidException(date: string): Promise<boolean> {
+        const query = 'DELETE FROM raid_schedule_exceptions WHERE date = ?';
+        try {
+            const [result] = await this.connection.query(query, [date]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing raid exception:", err);
+            throw err;
+        }
+    }
+
+    public async createLeaveRequest(discordId: string, startDate: string, endDate: string, reason: string): Promise<number> {
+        const query = 'INSERT INTO leave_requests (discord_id, start_date, end_date, reason) VALUES (?, ?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [discordId, startDate, endDate, reason]);
+            return (result as any).insertId;
+        } catch (err) {
+            console.error("Error creating leave request:", err);
+            throw err;
+        }
+    }
+
+    public async getLeaveRequest(id: number): Promise<LeaveRequest | null> {
+        const query = `SELECT ${LEAVE_COLUMNS} FROM leave_requests WHERE id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [id]);
+            return (results as LeaveRequest[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching leave request:", err);
+            throw err;
+        }
+    }
+
+    /** A member's leave requests, latest first. */
+    public async getLeaveRequests(discordId: string): Promise<LeaveRequest[]> {
+        const query = `SELECT ${LEAVE_COLUMNS} FROM leave_requests WHERE discord_id = ? ORDER BY start_date DESC, id DESC`;
+        try {
+            const [results] = await this.connection.query(query, [discordId]);
+            return results as LeaveRequest[];
+        } catch (err) {
+            console.error("Error fetching leave requests:", err);
+            throw err;
+        }
+    }
+
+    /** Everyone's approved leave that overlaps `from`…`to`. */
+    public async getApprovedLeaveBetween(from: string, to: string): Promise<LeaveRequest[]> {
+        const query = `SELECT ${LEAVE_COLUMNS} FROM leave_requests
+            WHERE status = 'approved' AND start_date <= ? AND end_date >= ? ORDER BY start_date, id`;
+        try {
+            const [results] = await this.connection.query(query, [to, from]);
+            return results as LeaveRequest[];
+        } catch (err) {
+            console.error("Error fetching approved leave:", err);
+            throw err;
+        }
+    }
+
+    public async getPendingLeaveRequests(): Promise<LeaveRequest[]> {
+        const query = `SELECT ${LEAVE_COLUMNS} FROM leave_requests WHERE status = 'pending' ORDER BY requested_at, id`;
+        try {
+            const [results] = await this.connection.query(query);
+            return results as LeaveRequest[];
+        } catch (err) {
+            console.error("Error fetching pending leave requests:", err);
+            throw err;
+        }
+    }
+
+    /** Approves or denies a pending request; false when someone already decided it or it was cancelled. */
+    public async decideLeaveRequest(id: number, decision: 'approved' | 'denied', decidedBy: string): Promise<boolean> {
+        const query = `UPDATE leave_requests SET status = ?, decided_by = ?, decided_at = CURRENT_TIMESTAMP
+            WHERE id = ? AND status = 'pending'`;
+        try {
+            const [result] = await this.connection.query(query, [decision, decidedBy, id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error deciding leave request:", err);
+            throw err;
+        }
+    }
+
+    /** Withdraws a member's own pending or approved leave that has not ended before `today`. */
+    public async cancelLeaveRequest(id: number, discordId: string, today: string): Promise<LeaveCancellation | null> {
+        const endQuery = `UPDATE leave_requests SET end_date = ?
+            WHERE id = ? AND discord_id = ? AND status = 'approved' AND start_date < ? AND end_date >= ?`;
+        const cancelQuery = `UPDATE leave_requests SET status = 'cancelled'
+            WHERE id = ? AND discord_id = ? AND end_date >= ?
+                AND (status = 'pending' OR (status = 'approved' AND start_date >= ?))`;
+        try {
+            const [ended] = await this.connection.query(endQuery, [addDays(today, -1), id, discordId, today, today]);
+            if ((ended as any).affectedRows > 0) {
+                return 'ended';
+            }
+            const [cancelled] = await this.connection.query(cancelQuery, [id, discordId, today, today]);
+            return (cancelled as any).affectedRows > 0 ? 'cancelled' : null;
+        } catch (err) {
+            console.error("Error cancelling leave request:", err);
+            throw err;
+        }
+    }
+
+    public async addInterviewSlot(reviewerId: string, startsAt: Date, durationMinutes: number): Promise<number> {
+        const query = 'INSERT INTO interview_slots (reviewer_id, starts_at, duration_minutes) VALUES (?, ?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [reviewerId, startsAt, durationMinutes]);
+            return (result as any).insertId;
+        } catch (err) {
+            console.error("Error adding interview slot:", err);
+            throw err;
+        }
+    }
+
+    public async getInterviewSlot(slotId: number): Promise<InterviewSlot | null> {
+        const query = `SELECT id, reviewer_id, starts_at, duration_minutes, form_id, booked_at, reminded_at
+            FROM interview_slots WHERE id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [slotId]);
+            return (results as InterviewSlot[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching interview slot:", err);
+            throw err;
+        }
+    }
+
+    /** Slots that have not started yet, soonest first. */
+    public async getUpcomingInterviewSlots(openOnly: boolean = false): Promise<InterviewSlot[]> {
+        const query = `SELECT id, reviewer_id, starts_at, duration_minutes, form_id, booked_at, reminded_at
+            FROM interview_slots WHERE starts_at > NOW() ${openOnly ? 'AND form_id IS NULL' : ''}
+            ORDER BY starts_at, id`;
+        try {
+            const [results] = await this.connection.query(query);
+            return results as InterviewSlot[];
+        } catch (err) {
+            console.error("Error fetching interview slots:", err);
+            throw err;
+        }
+    }
+
+    public async getBookedInterviewSlot(formId: number): Promise<InterviewSlot | null> {
+        const query = `SELECT id, reviewer_id, starts_at, duration_minutes, form_id, booked_at, reminded_at
+            FROM interview_slots WHERE form_id = ? ORDER BY starts_at DESC LIMIT 1`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return (results as InterviewSlot[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching booked interview slot:", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Books an open slot for an application, releasing any upcoming slot it
+     * held before. Returns false if someone else took the slot first.
+     */
+    public async bookInterviewSlot(slotId: number, formId: number): Promise<boolean> {
+        try {
+            await this.connection.beginTransaction();
+            await this.connection.query(
+                `UPDATE interview_slots SET form_id = NULL, booked_at = NULL, reminded_at = NULL
+                    WHERE form_id = ? AND starts_at > NOW() AND id <> ?`,
+                [formId, slotId]
+            );
+            const [result] = await this.connection.query(
+                `UPDATE interview_slots SET form_id = ?, booked_at = NOW()
+                    WHERE id = ? AND form_id IS NULL AND starts_at > NOW()`,
+                [formId, slotId]
+            );
+            if ((result as any).affectedRows === 0) {
+                await this.connection.rollback();
+                return false;
+            }
+            await this.connection.commit();
+            return true;
+        } catch (err) {
+            await this.connection.rollback();
+            console.error("Error booking interview slot:", err);
+            throw err;
+        }
+    }
+
+    public async removeInterviewSlot(slotId: number): Promise<boolean> {
+        const query = 'DELETE FROM interview_slots WHERE id = ? AND form_id IS NULL';
+        try {
+            const [result] = await this.connection.query(query, [slotId]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing interview slot:", err);
+            throw err;
+        }
+    }
+
+    /** Booked slots starting within `withinMinutes` whose reminder has not gone out. */
+    public async getInterviewSlotsDueReminder(withinMinutes: number): Promise<InterviewSlot[]> {
+        const query = `SELECT id, reviewer_id, starts_at, duration_minutes, form_id, booked_at, reminded_at
+            FROM interview_slots
+            WHERE form_id IS NOT NULL AND reminded_at IS NULL
+                AND starts_at > NOW() AND starts_at <= DATE_ADD(NOW(), INTERVAL ? MINUTE)
+            ORDER BY starts_at`;
+        try {
+            const [results] = await this.connection.query(query, [withinMinutes]);
+            return results as InterviewSlot[];
+        } catch (err) {
+            console.error("Error fetching interview reminders:", err);
+            throw err;
+        }
+    }
+
+    public async markInterviewReminded(slotId: number): Promise<void> {
+        const query = 'UPDATE interview_slots SET reminded_at = NOW() WHERE id = ?';
+        try {
+            await this.connection.query(query, [slotId]);
+        } catch (err) {
+            console.error("Error marking interview reminder:", err);
+            throw err;
+        }
+    }
+
+    public async recordInterviewOutcome(
+        formId: number,
+        slotId: number | null,
+        outcome: InterviewOutcome,
+        note: string | null,
+        recordedBy: string
+    ): Promise<void> {
+        const query = 'INSERT INTO interview_outcomes (form_id, slot_id, outcome, note, recorded_by) VALUES (?, ?, ?, ?, ?)';
+        try {
+            await this.connection.query(query, [formId, slotId, outcome, note, recordedBy]);
+        } catch (err) {
+            console.error("Error recording interview outcome:", err);
+            throw err;
+        }
+    }
+
+    public async getInterviewOutcomes(formId: number): Promise<InterviewOutcomeRecord[]> {
+        const query = `SELECT form_id, slot_id, outcome, note, recorded_by, recorded_at
+            FROM interview_outcomes WHERE form_id = ? ORDER BY recorded_at, id`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return results as InterviewOutcomeRecord[];
+        } catch (err) {
+            console.error("Error fetching interview outcomes:", err);
+            throw err;
+        }
+    }
+
+    public async saveNotificationDeliveries(deliveries: NotificationDelivery[]): Promise<void> {
+        if (deliveries.length === 0) {
+            return;
+        }
+        const query = `INSERT INTO notification_deliveries
+            (form_id, perscom_user_id, discord_id, outcome, method, status, detail) VALUES ?`;
+        const values = deliveries.map(delivery => [
+            delivery.form_id,
+            delivery.perscom_user_id,
+            delivery.discord_id,
+            delivery.outcome,
+            delivery.method,
+            delivery.status,
+            delivery.detail?.slice(0, 255) ?? null
+        ]);
+        try {
+            await this.connection.query(query, [values]);
+        } catch (err) {
+            console.error("Error saving notification deliveries:", err);
+            throw err;
+        }
+    }
+
+    public async getNotificationDeliveries(formId: number): Promise<NotificationDeliveryRecord[]> {
+        const query = `SELECT form_id, perscom_user_id, discord_id, outcome, method, status, detail, created_at
+            FROM notification_deliveries WHERE form_id = ? ORDER BY created_at, id`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return results as NotificationDeliveryRecord[];
+        } catch (err) {
+            console.error("Error fetching notification deliveries:", err);
+            throw err;
+        }
+    }
+
+    public async getDueOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+        const query = `SELECT ${OUTBOX_COLUMNS} FROM notification_outbox
+            WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+            ORDER BY id LIMIT ?`;
+        try {
+            const [results] = await this.connection.query(query, [limit]);
+            return (results as any[]).map(row => this.mapOutboxMessage(row));
+        } catch (err) {
+            console.error("Error fetching due outbox messages:", err);
+            throw err;
+        }
+    }
+
+    /** Failed messages first, then anything still waiting to be sent. */
+    public async getUnsentOutboxMessages(): Promise<OutboxMessage[]> {
+        const query = `SELECT ${OUTBOX_COLUMNS} FROM notification_outbox
+            WHERE status IN ('pending', 'failed')
+            ORDER BY status = 'failed' DESC, id`;
+        try {
+            const [results] = await this.connection.query(query);
+            return (results as any[]).map(row => this.mapOutboxMessage(row));
+        } catch (err) {
+            console.error("Error fetching unsent outbox messages:", err);
+            throw err;
+        }
+    }
+
+    public async getOutboxMessages(formId: number): Promise<OutboxMessage[]> {
+        const query = `SELECT ${OUTBOX_COLUMNS} FROM notification_outbox WHERE form_id = ? ORDER BY id`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return (results as any[]).map(row => this.mapOutboxMessage(row));
+        } catch (err) {
+            console.error("Error fetching outbox messages:", err);
+            throw err;
+        }
+    }
+
+    public async markOutboxSent(id: number, attempts: number): Promise<void> {
+        const query = `UPDATE notification_outbox SET status = 'sent', attempts = ?, last_error = NULL,
+            sent_at = CURRENT_TIMESTAMP WHERE id = ?`;
+        try {
+            await this.connection.query(query, [attempts, id]);
+        } catch (err) {
+            console.error("Error marking outbox message sent:", err);
+            throw err;
+        }
+    }
+
+    public async rescheduleOutboxMessage(id: number, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+        const query = 'UPDATE notification_outbox SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?';
+        try {
+            await this.connection.query(query, [attempts, nextAttemptAt, error.slice(0, 1000), id]);
+        } catch (err) {
+            console.error("Error rescheduling outbox message:", err);
+            throw err;
+        }
+    }
+
+    public async markOutboxFailed(id: number, attempts: number, error: string): Promise<void> {
+        const query = `UPDATE notification_outbox SET status = 'failed', attempts = ?, last_error = ? WHERE id = ?`;
+        try {
+            await this.connection.query(query, [attempts, error.slice(0, 1000), id]);
+        } catch (err) {
+            console.error("Error marking outbox message failed:", err);
+            throw err;
+        }
+    }
+
+    /** Puts a failed message back in the queue with a fresh set of attempts. */
+    public async retryOutboxMessage(id: number): Promise<boolean> {
+        const query = `UPDATE notification_outbox SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP
+            WHERE id = ? AND status = 'failed'`;
+        try {
+            const [result] = await this.connection.query(query, [id]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error retrying outbox message:", err);
+            throw err;
+        }
+    }
+
+    public async queueUserDeletions(users: { form_id: number; user_id: number; first_name: string }[]): Promise<void> {
+        if (users.length === 0) {
+            return;
+        }
+        const query = 'INSERT IGNORE INTO perscom_user_deletions (form_id, perscom_user_id, first_name) VALUES ?';
+        const values = users.map(user => [user.form_id, user.user_id, user.first_name]);
+        try {
+            await this.connection.query(query, [values]);
+        } catch (err) {
+            console.error("Error queueing user deletions:", err);
+            throw err;
+        }
+    }
+
+    public async getUserDeletion(formId: number): Promise<UserDeletion | null> {
+        const query = `SELECT form_id, perscom_user_id, first_name, status, requested_at, decided_by, decided_at, detail
+            FROM perscom_user_deletions WHERE form_id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            return (results as UserDeletion[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching user deletion:", err);
+            throw err;
+        }
+    }
+
+    public async getPendingUserDeletions(): Promise<UserDeletion[]> {
+        const query = `SELECT form_id, perscom_user_id, first_name, status, requested_at, decided_by, decided_at, detail
+            FROM perscom_user_deletions WHERE status = 'pending' ORDER BY requested_at, form_id`;
+        try {
+            const [results] = await this.connection.query(query);
+            return results as UserDeletion[];
+        } catch (err) {
+            console.error("Error fetching pending user deletions:", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Moves a pending deletion to approved (or kept). Only one caller wins, so
+     * a user is never deleted twice.
+     */
+    public async decideUserDeletion(formId: number, decision: 'approved' | 'kept', decidedBy: string | null): Promise<boolean> {
+        const query = `UPDATE perscom_user_deletions SET status = ?, decided_by = ?, decided_at = CURRENT_TIMESTAMP
+            WHERE form_id = ? AND status = 'pending'`;
+        try {
+            const [result] = await this.connection.query(query, [decision, decidedBy, formId]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error deciding user deletion:", err);
+            throw err;
+        }
+    }
+
+    public async finishUserDeletion(formId: number, status: 'deleted' | 'failed', detail: string | null = null): Promise<void> {
+        const query = 'UPDATE perscom_user_deletions SET status = ?, detail = ? WHERE form_id = ?';
+        try {
+            await this.connection.query(query, [status, detail?.slice(0, 255) ?? null, formId]);
+        } catch (err) {
+            console.error("Error finishing user deletion:", err);
+            throw err;
+        }
+    }
+
+    /** Archiving again (e.g. after a failed deletion) refreshes the snapshot. */
+    public async saveApplicantArchive(archive: Omit<ApplicantArchive, 'archived_at' | 'purged_at'>): Promise<void> {
+        const query = `INSERT INTO applicant_archives
+            (form_id, perscom_user_id, first_name, discord_name, date_of_birth, email_address, arma_3_id, preferred_position,
+                answers, reason_label, reason_message, denied_by)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE first_name = VALUES(first_name), discord_name = VALUES(discord_name),
+                date_of_birth = VALUES(date_of_birth), email_address = VALUES(email_address), arma_3_id = VALUES(arma_3_id),
+                preferred_position = VALUES(preferred_position), answers = VALUES(answers),
+                reason_label = VALUES(reason_label), reason_message = VALUES(reason_message), denied_by = VALUES(denied_by),
+                archived_at = CURRENT_TIMESTAMP, purged_at = NULL`;
+        try {
+            await this.connection.query(query, [
+                archive.form_id,
+                archive.perscom_user_id,
+                archive.first_name,
+                archive.discord_name,
+                archive.date_of_birth,
+                archive.email_address,
+                archive.arma_3_id,
+                archive.preferred_position,
+                archive.answers ? JSON.stringify(archive.answers) : null,
+                archive.reason_label,
+                archive.reason_message,
+                archive.denied_by
+            ]);
+        } catch (err) {
+            console.error("Error saving applicant archive:", err);
+            throw err;
+        }
+    }
+
+    public async getApplicantArchive(formId: number): Promise<ApplicantArchive | null> {
+        const query = `SELECT form_id, perscom_user_id, first_name, discord_name, date_of_birth, email_address, arma_3_id,
+                preferred_position, answers, reason_label, reason_message, denied_by, archived_at, purged_at
+            FROM applicant_archives WHERE form_id = ?`;
+        try {
+            const [results] = await this.connection.query(query, [formId]);
+            const row = (results as any[])[0];
+            return row ? { ...row, answers: row.answers ? JSON.parse(row.answers) : null } : null;
+        } catch (err) {
+            console.error("Error fetching applicant archive:", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Clears personal data from archives taken before `before`, along with the
+     * same applicant's stored submission and the name on their deletion.
+     * Returns how many archives were purged.
+     */
+    public async purgeApplicantArchives(before: Date): Promise<number> {
+        const expired = 'SELECT form_id FROM applicant_archives WHERE archived_at < ? AND purged_at IS NULL';
+        try {
+            await this.connection.beginTransaction();
+            await this.connection.query(
+                `UPDATE form1_submissions SET first_name = '', discord_name = '', date_of_birth = NULL,
+                        email_address = NULL, arma_3_id = NULL
+                    WHERE form_id IN (${expired})`,
+                [before]
+            );
+            await this.connection.query(
+                `UPDATE perscom_user_deletions SET first_name = ''
+                    WHERE form_id IN (${expired})`,
+                [before]
+            );
+            const [result] = await this.connection.query(
+                `UPDATE applicant_archives SET first_name = NULL, discord_name = NULL, date_of_birth = NULL,
+                        email_address = NULL, arma_3_id = NULL, answers = NULL, purged_at = CURRENT_TIMESTAMP
+                    WHERE archived_at < ? AND purged_at IS NULL`,
+                [before]
+            );
+            await this.connection.commit();
+            return (result as any).affectedRows;
+        } catch (err) {
+            await this.connection.rollback();
+            console.error("Error purging applicant archives:", err);
+            throw err;
+        }
+    }
+
+    public async getDeletionSuspension(): Promise<DeletionSuspension | null> {
+        const query = 'SELECT reason, suspended_at FROM perscom_guards WHERE name = ?';
+        try {
+            const [results] = await this.connection.query(query, [USER_DELETION_GUARD]);
+            return (results as DeletionSuspension[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching deletion suspension:", err);
+            throw err;
+        }
+    }
+
+    /** Returns false when deletions were already suspended. */
+    public async suspendDeletions(reason: string): Promise<boolean> {
+        const query = 'INSERT IGNORE INTO perscom_guards (name, reason) VALUES (?, ?)';
+        try {
+            const [result] = await this.connection.query(query, [USER_DELETION_GUARD, reason.slice(0, 255)]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error suspending deletions:", err);
+            throw err;
+        }
+    }
+
+    public async resumeDeletions(): Promise<boolean> {
+        const query = 'DELETE FROM perscom_guards WHERE name = ?';
+        try {
+            const [result] = await this.connection.query(query, [USER_DELETION_GUARD]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error resuming deletions:", err);
+            throw err;
+        }
+    }
+
+    public async getJobStates(): Promise<JobState[]> {
+        const query = `SELECT name, paused, last_started_at, last_finished_at, last_duration_ms, last_result, last_error,
+                consecutive_failures
+            FROM scheduled_jobs`;
+        try {
+            const [results] = await this.connection.query(query);
+            return (results as any[]).map(row => ({ ...row, paused: row.paused === 1 }));
+        } catch (err) {
+            console.error("Error fetching job states:", err);
+            throw err;
+        }
+    }
+
+    public async saveJobRun(name: string, run: JobRun, consecutiveFailures: number): Promise<void> {
+        const query = `INSERT INTO scheduled_jobs
+            (name, last_started_at, last_finished_at, last_duration_ms, last_result, last_error, consecutive_failures)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE last_started_at = VALUES(last_started_at), last_finished_at = VALUES(last_finished_at),
+                last_duration_ms = VALUES(last_duration_ms), last_result = VALUES(last_result),
+                last_error = VALUES(last_error), consecutive_failures = VALUES(consecutive_failures)`;
+        try {
+            await this.connection.query(query, [
+                name, run.started_at, run.finished_at, run.duration_ms, run.result, run.error?.slice(0, 1000) ?? null,
+                consecutiveFailures
+            ]);
+        } catch (err) {
+            console.error("Error saving job run:", err);
+            throw err;
+        }
+    }
+
+    public async setJobPaused(name: string, paused: boolean): Promise<void> {
+        const query = `INSERT INTO scheduled_jobs (name, paused) VALUES (?, ?)
+            ON DUPLICATE KEY UPDATE paused = VALUES(paused)`;
+        try {
+            await this.connection.query(query, [name, paused ? 1 : 0]);
+        } catch (err) {
+            console.error("Error updating job pause:", err);
+            throw err;
+        }
+    }
+
+    public async getAccountLinks(perscomUserIds: number[]): Promise<Map<number, string>> {
+        if (perscomUserIds.length === 0) {
+            return new Map();
+        }
+        const query = 'SELECT perscom_user_id, discord_id FROM account_links WHERE perscom_user_id IN (?)';
+        try {
+            const [results] = await this.connection.query(query, [perscomUserIds]);
+            return new Map((results as any[]).map(row => [row.perscom_user_id, row.discord_id]));
+        } catch (err) {
+            console.error("Error fetching account links:", err);
+            throw err;
+        }
+    }
+
+    public async getAccountLink(perscomUserId: number): Promise<AccountLink | null> {
+        const query = 'SELECT perscom_user_id, discord_id, method, linked_by, created_at FROM account_links WHERE perscom_user_id = ?';
+        try {
+            const [results] = await this.connection.query(query, [perscomUserId]);
+            return (results as AccountLink[])[0] ?? null;
+        } catch (err) {
+            console.error("Error fetching account link:", err);
+            throw err;
+        }
+    }
+
+    public async getAccountLinksForDiscordUser(discordId: string): Promise<AccountLink[]> {
+        const query = `SELECT perscom_user_id, discord_id, method, linked_by, created_at FROM account_links
+            WHERE discord_id = ? ORDER BY created_at`;
+        try {
+            const [results] = await this.connection.query(query, [discordId]);
+            return results as AccountLink[];
+        } catch (err) {
+            console.error("Error fetching account links for Discord user:", err);
+            throw err;
+        }
+    }
+
+    public async saveAccountLink(
+        perscomUserId: number,
+        discordId: string,
+        method: AccountLinkMethod,
+        linkedBy: string | null
+    ): Promise<void> {
+        try {
+            await this.connection.query(
+                `INSERT INTO account_links (perscom_user_id, discord_id, method, linked_by) VALUES (?, ?, ?, ?)
+                    ON DUPLICATE KEY UPDATE discord_id = VALUES(discord_id), method = VALUES(method),
+                        linked_by = VALUES(linked_by), created_at = CURRENT_TIMESTAMP`,
+                [perscomUserId, discordId, method, linkedBy]
+            );
+            await this.connection.query('DELETE FROM account_link_requests WHERE perscom_user_id = ?', [perscomUserId]);
+        } catch (err) {
+            console.error("Error saving account link:", err);
+            throw err;
+        }
+    }
+
+    public async removeAccountLink(perscomUserId: number): Promise<boolean> {
+        const query = 'DELETE FROM account_links WHERE perscom_user_id = ?';
+        try {
+            const [result] = await this.connection.query(query, [perscomUserId]);
+            return (result as any).affectedRows > 0;
+        } catch (err) {
+            console.error("Error removing account link:", err);
+            throw err;
+        }
+    }
+
+    /** True while a request is open and after staff dismissed one, so neither is posted again. */
+    public async hasAccountLinkRequest(perscomUserId: number): Promise<boolean> {
+        const query = 'SELECT 1 FROM account_link_requests WHERE perscom_user_id = ?';
+        try {
+            const [results] = await this.connection.query(query, [perscomUserId]);
+            return (results as any[]).length > 0;
+        } catch (err) {
+            console.error("Error fetching account link request:", err);
+            throw err;
+        }
+    }
+
+    public async saveAccountLinkRequest(perscomUserId: number, messageId: string | null): Promise<void> {
+        const query = `INSERT INTO account_link_requests (perscom_user_id, message_id) VALUES (?, ?)
+            ON DUPLICATE KEY UPDATE message_id = VALUES(message_id), dismissed_by = NULL, dismissed_at = NULL`;
+        try {
+            await this.connection.query(query, [perscomUserId, messageId]);
+        } catch (err) {
+            console.error("Error saving account link request:", err);
+            throw err;
+        }
+    }
+
+    public async dismissAccountLinkRequest(perscomUserId: number, dismissedBy: string): Promise<void> {
+        const query = `UPDATE account_link_requests SET dismissed_by = ?, dismissed_at = CURRENT_TIMESTAMP
+            WHERE perscom_user_id = ?`;
+        try {
+            await this.connection.query(query, [dismissedBy, perscomUserId]);
+        } catch (err) {
+            console.error("Error dismissing account link request:", err);
+            throw err;
+        }
+    }
+
+    private async seedReviewerRoutes(): Promise<void> {
+        const [countRows] = await this.connection.query('SELECT COUNT(*) AS count FROM reviewer_routes');
+        if ((countRows as any[])[0].count > 0) {
+            return;
+        }
+        await this.connection.query('INSERT INTO reviewer_routes (position, target_type, target_id) VALUES ?', [DEFAULT_REVIEWER_ROUTES]);
+    }
+
+    private async seedRaidSchedule(): Promise<void> {
+        const [countRows] = await this.connection.query('SELECT COUNT(*) AS count FROM raid_schedule_rules');
+        if ((countRows as any[])[0].count > 0) {
+            return;
+        }
+        await this.connection.query('INSERT INTO raid_schedule_rules (weekday, label, effective_from) VALUES ?', [DEFAULT_RAID_RULES]);
+    }
+
+    private async seedDenialReasons(): Promise<void> {
+        const [countRows] = await this.connection.query('SELECT COUNT(*) AS count FROM denial_reasons');
+        if ((countRows as any[])[0].count > 0) {
+            return;
+        }
+        await this.connection.query('INSERT INTO denial_reasons (label, message) VALUES ?', [DEFAULT_DENIAL_REASONS]);
+    }
+
+    /** Runs inside the caller's transaction. Keys that already exist are skipped. */
+    private async insertOutboxMessages(messages: (NewOutboxMessage & { key: string })[]): Promise<void> {
+        if (messages.length === 0) {
+            return;
+        }
+        await this.connection.query(
+            'INSERT IGNORE INTO notification_outbox (idempotency_key, kind, form_id, payload) VALUES ?',
+            [messages.map(message => [message.key, message.kind, message.form_id, JSON.stringify(message.payload)])]
+        );
+    }
+
+    private mapOutboxMessage(row: any): OutboxMessage {
+        return { ...row, payload: parseOutboxPayload(row.payload) };
+    }
+
+    private mapApplication(row: any): Application {
+        return {
+            form_id: row.form_id,
+            user_id: row.user_id,
+            first_name: row.first_name,
+            discord_name: row.discord_name,
+            preferred_position: row.preferred_position,
+            date_of_birth: row.date_of_birth,
+            email_address: row.email_address ?? undefined,
+            arma_3_id: row.arma_3_id ?? undefined,
+            updated_at: row.updated_at ?? undefined,
+            state: row.state,
+            created_at: row.created_at,
+            state_changed_at: row.state_changed_at
+        };
+    }
+
+    private async addMissingColumns(): Promise<void> {
+        for (const [table, column, definition] of ADDED_COLUMNS) {
+            const [existing] = await this.connection.query(`SHOW COLUMNS FROM ${table} LIKE ?`, [column]);
+            if ((existing as any[]).length === 0) {
+                console.log(`Adding ${table}.${column}`);
+                await this.connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+            }
+        }
+    }
+
+    /**
+     * One-off import of the old `old_forms` bookkeeping so previously announced
+     * applications are not announced again. `accepted_users` only holds PERSCOM
+     * user ids, so acceptances are settled by `settleLegacyApplications` once
+     * the first sync has stored the submissions.
+     */
+    private async migrateLegacyTables(): Promise<void> {
+        const [countRows] = await this.connection.query('SELECT COUNT(*) AS count FROM applications');
+        const [legacyRows] = await this.connection.query("SHOW TABLES LIKE 'old_forms'");
+        if ((countRows as any[])[0].count > 0 || (legacyRows as any[]).length === 0) {
+            return;
+        }
+        const [acceptedRows] = await this.connection.query("SHOW TABLES LIKE 'accepted_users'");
+
+        console.log('Migrating old_forms into applications');
+        await this.connection.beginTransaction();
+        try {
+            await this.connection.query(
+                "INSERT IGNORE INTO applications (form_id, state) SELECT form_id, 'received' FROM old_forms"
+            );
+            await this.connection.query(
+                `INSERT INTO application_history (form_id, from_state, to_state, source)
+                    SELECT form_id, NULL, state, 'migration' FROM applications`
+            );
+            if ((acceptedRows as any[]).length > 0) {
+                await this.connection.query('INSERT IGNORE INTO legacy_applications (form_id) SELECT form_id FROM old_forms');
+            }
+            await this.connection.commit();
+        } catch (err) {
+            await this.connection.rollback();
+            throw err;
+        }
+    }
+}
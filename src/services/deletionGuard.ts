@@ -0,0 +1,63 @@
+export type UserDeletionStatus = 'pending' | 'approved' | 'deleted' | 'failed' | 'kept';
+
+export interface UserDeletion {
+    form_id: number;
+    perscom_user_id: number;
+    first_name: string;
+    status: UserDeletionStatus;
+    requested_at: Date;
+    decided_by: string | null;
+    decided_at: Date | null;
+    detail: string | null;
+}
+
+export interface DeletionSuspension {
+    reason: string;
+    suspended_at: Date;
+}
+
+export interface DeletionGuardOptions {
+    /** Every deletion waits for an admin to press Delete. */
+    requireApproval: boolean;
+    /** More denials than this in one batch suspends deletions until an admin resumes them. */
+    maxPerCycle: number;
+}
+
+/**
+ * What to do with a batch of queued deletions:
+ * - `delete`: delete them now
+ * - `approve`: ask an admin to approve each one
+ * - `trip`: too many at once, suspend deletions and alert staff
+ * - `hold`: deletions are already suspended, leave them queued
+ */
+export type DeletionPlan = 'delete' | 'approve' | 'trip' | 'hold';
+
+export function planDeletions(count: number, options: DeletionGuardOptions, suspended: boolean): DeletionPlan {
+    if (suspended) {
+        return 'hold';
+    }
+    if (count > options.maxPerCycle) {
+        return 'trip';
+    }
+    return options.requireApproval ? 'approve' : 'delete';
+}
+
+const CONFIRM_PREFIX = 'perscom-delete-confirm-';
+const KEEP_PREFIX = 'perscom-delete-keep-';
+
+export function confirmDeletionCustomId(formId: number): string {
+    return `${CONFIRM_PREFIX}${formId}`;
+}
+
+export function keepDeletionCustomId(formId: number): string {
+    return `${KEEP_PREFIX}${formId}`;
+}
+
+export function parseDeletionCustomId(customId: string): { action: 'confirm' | 'keep'; formId: number } | null {
+    const match = customId.match(/^perscom-delete-(confirm|keep)-(\d+)$/);
+    return match ? { action: match[1] as 'confirm' | 'keep', formId: parseInt(match[2], 10) } : null;
+}
+
+export function isDeletionCustomId(customId: string): boolean {
+    return customId.startsWith(CONFIRM_PREFIX) || customId.startsWith(KEEP_PREFIX);
+}
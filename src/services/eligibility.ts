@@ -0,0 +1,171 @@
+import { Form1Submission } from "./request_perscom";
+
+export type EligibilityRuleType = 'min_age' | 'arma_id_format' | 'position';
+
+/** What happens to a new application that clearly fails the rule. */
+export type EligibilityAction = 'flag' | 'hold' | 'deny';
+
+export interface EligibilityRule {
+    id: number;
+    type: EligibilityRuleType;
+    /** Minimum age in years, a regular expression, or a comma-separated list of positions. */
+    value: string;
+    action: EligibilityAction;
+    /** Denial reason sent to applicants auto-denied by this rule. */
+    denial_reason_id: number | null;
+    reason_label: string | null;
+    reason_message: string | null;
+}
+
+export type EligibilityStatus = 'pass' | 'fail' | 'unknown';
+
+export interface EligibilityCheck {
+    rule_id: number;
+    label: string;
+    status: EligibilityStatus;
+    detail: string;
+}
+
+export interface EligibilityResult {
+    checks: EligibilityCheck[];
+    /** Strongest action among the failed rules; flags need no action. */
+    action: Exclude<EligibilityAction, 'flag'> | null;
+    /** The failed rule that decided `action`. */
+    rule: EligibilityRule | null;
+}
+
+/** What the new-application post shows: the checklist and any automatic decision. */
+export type EligibilitySummary = Pick<EligibilityResult, 'checks' | 'action'> & { rule: string | null };
+
+export const ELIGIBILITY_RULE_LABELS: Record<EligibilityRuleType, string> = {
+    min_age: 'Minimum age',
+    arma_id_format: 'Arma 3 ID format',
+    position: 'Position'
+};
+
+const ACTION_WEIGHT: Record<EligibilityAction, number> = { flag: 0, hold: 1, deny: 2 };
+
+export function isEligibilityAction(value: string): value is EligibilityAction {
+    return value === 'flag' || value === 'hold' || value === 'deny';
+}
+
+export function isEligibilityRuleType(value: string): value is EligibilityRuleType {
+    return value in ELIGIBILITY_RULE_LABELS;
+}
+
+/**
+ * Checks and normalizes the value an admin entered for a rule. Throws with a
+ * message that can be shown to the admin when the value is unusable.
+ */
+export function parseRuleValue(type: EligibilityRuleType, raw: string): string {
+    const value = raw.trim();
+    switch (type) {
+        case 'min_age': {
+            const age = Number(value);
+            if (!Number.isInteger(age) || age < 1 || age > 99) {
+                throw new Error('Minimum age must be a whole number of years between 1 and 99.');
+            }
+            return String(age);
+        }
+        case 'arma_id_format':
+            try {
+                new RegExp(value);
+            } catch {
+                throw new Error(`\`${value}\` is not a valid regular expression.`);
+            }
+            return value;
+        case 'position': {
+            const positions = splitPositions(value);
+            if (positions.length === 0) {
+                throw new Error('List at least one position, separated by commas.');
+            }
+            return positions.join(', ');
+        }
+    }
+}
+
+function splitPositions(value: string): string[] {
+    return value.split(',').map(position => position.trim()).filter(Boolean);
+}
+
+/** Whole years between a `YYYY-MM-DD` style date of birth and `now`, or null if it cannot be read. */
+export function ageOn(dateOfBirth: string | undefined, now: Date): number | null {
+    const birthDate = dateOfBirth ? new Date(dateOfBirth) : null;
+    if (!birthDate || Number.isNaN(birthDate.getTime()) || birthDate > now) {
+        return null;
+    }
+    let age = now.getUTCFullYear() - birthDate.getUTCFullYear();
+    const monthDifference = now.getUTCMonth() - birthDate.getUTCMonth();
+    if (monthDifference < 0 || (monthDifference === 0 && now.getUTCDate() < birthDate.getUTCDate())) {
+        age--;
+    }
+    return age;
+}
+
+export function describeRule(rule: Pick<EligibilityRule, 'type' | 'value'>): string {
+    switch (rule.type) {
+        case 'min_age':
+            return `At least ${rule.value} years old`;
+        case 'arma_id_format':
+            return `Arma 3 ID matches \`${rule.value}\``;
+        case 'position':
+            return `Position is one of: ${rule.value}`;
+    }
+}
+
+/**
+ * Runs one rule. Missing or unreadable answers are `unknown` rather than
+ * failures, so only clear failures can lead to an automatic decision.
+ */
+export function checkRule(submission: Form1Submission, rule: EligibilityRule, now: Date): EligibilityCheck {
+    const check = (status: EligibilityStatus, detail: string): EligibilityCheck =>
+        ({ rule_id: rule.id, label: ELIGIBILITY_RULE_LABELS[rule.type], status, detail });
+
+    switch (rule.type) {
+        case 'min_age': {
+            const age = ageOn(submission.date_of_birth, now);
+            if (age === null) {
+                return check('unknown', 'No readable date of birth');
+            }
+            return check(age >= Number(rule.value) ? 'pass' : 'fail', `${age} (minimum ${rule.value})`);
+        }
+        case 'arma_id_format': {
+            const armaId = submission.arma_3_id?.trim();
+            if (!armaId) {
+                return check('unknown', 'No Arma 3 ID given');
+            }
+            return new RegExp(rule.value).test(armaId)
+                ? check('pass', armaId)
+                : check('fail', `\`${armaId}\` does not match the expected format`);
+        }
+        case 'position': {
+            const position = submission.preferred_position?.trim();
+            if (!position) {
+                return check('unknown', 'No position given');
+            }
+            const allowed = splitPositions(rule.value).map(value => value.toLowerCase());
+            return allowed.includes(position.toLowerCase())
+                ? check('pass', position)
+                : check('fail', `${position} is not an open position`);
+        }
+    }
+}
+
+export function checkEligibility(submission: Form1Submission, rules: EligibilityRule[], now: Date = new Date()): EligibilityResult {
+    const checks = rules.map(rule => checkRule(submission, rule, now));
+
+    let decided: EligibilityRule | null = null;
+    for (let index = 0; index < rules.length; index++) {
+        const rule = rules[index];
+        if (checks[index].status === 'fail' && rule.action !== 'flag'
+            && (!decided || ACTION_WEIGHT[rule.action] > ACTION_WEIGHT[decided.action])) {
+            decided = rule;
+        }
+    }
+
+    return { checks, action: decided ? decided.action as Exclude<EligibilityAction, 'flag'> : null, rule: decided };
+}
+
+export function summarizeEligibility(result: EligibilityResult): EligibilitySummary {
+    return { checks: result.checks, action: result.action, rule: result.rule ? describeRule(result.rule) : null };
+}
@@ -0,0 +1,110 @@
+import { AttendanceTally, addDays, isDateKey } from "./raidSchedule";
+import { MemberAttendance, ReportRange } from "./attendanceReport";
+
+export interface InactivityOptions {
+    /** Flag members who missed at least this many raids in a row (excused raids don't count). */
+    missedInARow: number;
+    /** Flag members whose rate over the window is below this percentage. */
+    minRate: number;
+    windowWeeks: number;
+}
+
+export interface InactiveMember extends MemberAttendance {
+    missedInARow: number;
+    /** First raid of the current run of misses, or null when the last raid was attended. */
+    missedSince: string | null;
+    /** Most recent raid missed, or null when none were. */
+    lastMissed: string | null;
+    reasons: string[];
+}
+
+/** Why a member's alert went out: a run of misses up to last night, or only a low rate. */
+export type InactivityReason = 'streak' | 'rate';
+
+/**
+ * The reason and day an alert's check-in and leave refer to: the start of the
+ * current run of misses, or for a low rate alone the last raid missed.
+ */
+export function inactivityAlert(member: InactiveMember, range: ReportRange): { reason: InactivityReason; start: string } {
+    return member.missedSince
+        ? { reason: 'streak', start: member.missedSince }
+        : { reason: 'rate', start: member.lastMissed ?? range.from };
+}
+
+/** Raids between the start of the window and last night; tonight's raid may not have happened yet. */
+export function inactivityWindow(today: string, windowWeeks: number): ReportRange {
+    return { from: addDays(today, -7 * windowWeeks), to: addDays(today, -1) };
+}
+
+/** The most recent misses, newest last, up to the last raid the member attended. */
+export function trailingMisses(tally: AttendanceTally): string[] {
+    const attended = new Set(tally.attended);
+    const misses: string[] = [];
+    for (let index = tally.raidDays.length - 1; index >= 0 && !attended.has(tally.raidDays[index]); index--) {
+        misses.unshift(tally.raidDays[index]);
+    }
+    return misses;
+}
+
+/** Members who crossed either threshold, worst streak first. Members with nothing to count are skipped. */
+export function findInactiveMembers(rows: MemberAttendance[], options: InactivityOptions): InactiveMember[] {
+    const inactive: InactiveMember[] = [];
+    for (const row of rows) {
+        if (row.rate === null) continue;
+        const misses = trailingMisses(row.tally);
+        const reasons: string[] = [];
+        if (misses.length >= options.missedInARow) {
+            reasons.push(`missed the last ${misses.length} raids`);
+        }
+        if (row.rate < options.minRate) {
+            reasons.push(`${row.rate}% over ${options.windowWeeks} weeks`);
+        }
+        if (reasons.length > 0) {
+            const attended = new Set(row.tally.attended);
+            const lastMissed = row.tally.raidDays.filter(day => !attended.has(day)).pop() ?? null;
+            inactive.push({ ...row, missedInARow: misses.length, missedSince: misses[0] ?? null, lastMissed, reasons });
+        }
+    }
+    return inactive.sort((a, b) => b.missedInARow - a.missedInARow || a.rate! - b.rate! || a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * The UTC date of the latest weekly report slot at or before `now`. The job
+ * checks hourly and claims this date, so each week's list is posted once
+ * even when the bot was offline at the scheduled hour.
+ */
+export function reportWeekKey(now: Date, weekday: number, hourUtc: number): string {
+    const today = now.toISOString().slice(0, 10);
+    const daysSince = (now.getUTCDay() - weekday + 7) % 7;
+    const slot = addDays(today, -daysSince);
+    return daysSince === 0 && now.getUTCHours() < hourUtc ? addDays(slot, -7) : slot;
+}
+
+export type InactivityAction = 'checkin' | 'leave' | 'leavemodal';
+
+const CUSTOM_ID_PREFIX = 'inactivity-';
+
+/** `start` is the first day the member would be marked on leave from. */
+export function inactivityCustomId(
+    action: InactivityAction,
+    discordId: string,
+    start: string,
+    reason: InactivityReason = 'streak'
+): string {
+    return `${CUSTOM_ID_PREFIX}${action}-${discordId}-${start.replace(/-/g, '')}${reason === 'rate' ? '-rate' : ''}`;
+}
+
+export function parseInactivityCustomId(
+    customId: string
+): { action: InactivityAction; discordId: string; start: string; reason: InactivityReason } | null {
+    const match = customId.match(/^inactivity-(checkin|leave|leavemodal)-(\d+)-(\d{4})(\d{2})(\d{2})(-rate)?$/);
+    if (!match) return null;
+    const start = `${match[3]}-${match[4]}-${match[5]}`;
+    return isDateKey(start)
+        ? { action: match[1] as InactivityAction, discordId: match[2], start, reason: match[6] ? 'rate' : 'streak' }
+        : null;
+}
+
+export function isInactivityCustomId(customId: string): boolean {
+    return customId.startsWith(CUSTOM_ID_PREFIX);
+}
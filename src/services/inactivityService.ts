@@ -0,0 +1,299 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, Client, Colors, EmbedBuilder, Interaction,
+    ModalBuilder, ModalSubmitInteraction, TextChannel, TextInputBuilder, TextInputStyle
+} from "discord.js";
+import { DatabaseService } from "./database";
+import { withApplicationDatabase } from "./applicationDatabase";
+import { getAttendanceBetween } from "./attendanceService";
+import { ReportRange, buildAttendanceReport, normalizePlayerName } from "./attendanceReport";
+import {
+    InactiveMember, InactivityOptions, InactivityReason, findInactiveMembers, inactivityAlert, inactivityCustomId,
+    inactivityWindow, parseInactivityCustomId, reportWeekKey
+} from "./inactivity";
+import { MAX_LEAVE_DAYS, findOverlappingLeave, formatLeavePeriod } from "./leaveOfAbsence";
+import { LeaveService } from "./leaveService";
+import { addDays, formatDateKey, isDateKey, todayKey } from "./raidSchedule";
+import { fetchGuildMembers } from "../utils/discordMembers";
+import { hasAdminRole } from "../utils/permissions";
+
+/** Without a role, members count as tracked if they attended anything this far back before the window. */
+const TRACKED_LOOKBACK_DAYS = 60;
+
+/** Members beyond this still appear in the summary, just without their own buttons. */
+const MAX_MEMBER_ALERTS = 20;
+
+const DEFAULT_LEAVE_DAYS = 14;
+
+export interface InactivityServiceOptions extends InactivityOptions {
+    /** Only members with this role are checked. */
+    roleId: string | null;
+    /** 0 = Sunday. */
+    reportDay: number;
+    reportHourUtc: number;
+}
+
+/**
+ * Posts a weekly list of members who stopped showing up to raids, with
+ * buttons for staff to send a check-in DM or mark the member on leave.
+ */
+export class InactivityService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+    private readonly leaveService: LeaveService;
+    private readonly options: InactivityServiceOptions;
+    /** Saves fetching the roster and attendance every hour once this week's list is out. */
+    private lastReportWeek: string | null = null;
+
+    constructor(client: Client, staffChannelId: string, leaveService: LeaveService, options: InactivityServiceOptions) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+        this.leaveService = leaveService;
+        this.options = options;
+    }
+
+    private async getStaffChannel(): Promise<TextChannel | null> {
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return null;
+        }
+        return channel;
+    }
+
+    async sendWeeklyReport(databaseService: DatabaseService, now: Date = new Date()): Promise<void> {
+        const reportWeek = reportWeekKey(now, this.options.reportDay, this.options.reportHourUtc);
+        if (reportWeek === this.lastReportWeek) return;
+        const channel = await this.getStaffChannel();
+        if (!channel) return;
+
+        const range = inactivityWindow(todayKey(now), this.options.windowWeeks);
+        const inactive = await this.findInactiveMembers(databaseService, channel, range);
+        // Claimed before posting so two runs can't both post; released if posting fails so the next run retries.
+        if (await databaseService.claimInactivityReport(reportWeek, inactive.length)) {
+            try {
+                await this.postWeeklyReport(channel, inactive, range, now);
+            } catch (error) {
+                await databaseService.releaseInactivityReport(reportWeek);
+                throw error;
+            }
+        }
+        this.lastReportWeek = reportWeek;
+    }
+
+    private async postWeeklyReport(channel: TextChannel, inactive: InactiveMember[], range: ReportRange, now: Date): Promise<void> {
+        const lines = inactive.map(member => `**${member.displayName}** · ${member.reasons.join(', ')}`);
+        const embed = new EmbedBuilder()
+            .setColor(inactive.length > 0 ? Colors.Orange : Colors.Green)
+            .setTitle(`Weekly Inactivity Check (${inactive.length})`)
+            .setDescription(inactive.length > 0
+                ? lines.join('\n').slice(0, 4000)
+                : 'Everyone checked is attending raids.')
+            .addFields({
+                name: 'Flagged When',
+                value: `${this.options.missedInARow}+ raids missed in a row, or under ${this.options.minRate}% `
+                    + `over the last ${this.options.windowWeeks} weeks. Excused raids don't count.`
+            })
+            .setTimestamp(now);
+        await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
+
+        for (const member of inactive.slice(0, MAX_MEMBER_ALERTS)) {
+            const { reason, start } = inactivityAlert(member, range);
+            await channel.send({
+                embeds: [this.createMemberEmbed(member)],
+                components: [this.createMemberRow(member.id, start, reason, false)],
+                allowedMentions: { parse: [] }
+            }).catch(error => console.error('Error posting inactivity alert:', error));
+        }
+    }
+
+    private async findInactiveMembers(
+        databaseService: DatabaseService,
+        channel: TextChannel,
+        range: ReportRange
+    ): Promise<InactiveMember[]> {
+        const members = await fetchGuildMembers(channel.guild);
+        if (!members) {
+            throw new Error(`could not fetch members of ${channel.guild.name}`);
+        }
+
+        const [records, schedule, leave] = await Promise.all([
+            getAttendanceBetween(
+                new Date(`${addDays(range.from, this.options.roleId ? 0 : -TRACKED_LOOKBACK_DAYS)}T00:00:00Z`),
+                new Date(`${addDays(range.to, 2)}T00:00:00Z`)
+            ),
+            databaseService.getRaidSchedule(),
+            databaseService.getApprovedLeaveBetween(range.from, range.to)
+        ]);
+        const players = new Set(records.map(record => normalizePlayerName(record.player)));
+        const roster = members
+            .filter(member => !member.user.bot && (this.options.roleId
+                ? member.roles.cache.has(this.options.roleId)
+                : players.has(normalizePlayerName(member.displayName))))
+            .map(member => ({ id: member.id, displayName: member.displayName }));
+
+        return findInactiveMembers(buildAttendanceReport(schedule, roster, records, leave, range), this.options);
+    }
+
+    private createMemberEmbed(member: InactiveMember): EmbedBuilder {
+        return new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setDescription(`<@${member.id}> · ${member.reasons.join(', ')}`)
+            .addFields(
+                {
+                    name: 'Attendance',
+                    value: `${member.rate}% (${member.tally.attended.length}/${member.tally.raidDays.length} raids)`,
+                    inline: true
+                },
+                {
+                    name: 'Last Attended',
+                    value: member.tally.attended.length > 0
+                        ? formatDateKey(member.tally.attended[member.tally.attended.length - 1])
+                        : `Not in the last ${this.options.windowWeeks} weeks`,
+                    inline: true
+                }
+            );
+    }
+
+    private createMemberRow(
+        discordId: string,
+        start: string,
+        reason: InactivityReason,
+        checkedIn: boolean
+    ): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(inactivityCustomId('checkin', discordId, start, reason))
+                .setLabel(checkedIn ? 'Check-in Sent' : 'Send Check-in DM')
+                .setStyle(ButtonStyle.Primary)
+                .setDisabled(checkedIn),
+            new ButtonBuilder()
+                .setCustomId(inactivityCustomId('leave', discordId, start, reason))
+                .setLabel('Mark on Leave')
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        if (!interaction.isButton() && !interaction.isModalSubmit()) return;
+        try {
+            if (!hasAdminRole(interaction.member)) {
+                await interaction.reply({ content: 'Only admins can act on inactivity alerts.', ephemeral: true });
+                return;
+            }
+            const parsed = parseInactivityCustomId(interaction.customId);
+            if (!parsed) return;
+
+            if (interaction.isButton() && parsed.action === 'checkin') {
+                await this.sendCheckIn(interaction, parsed.discordId, parsed.start, parsed.reason);
+            } else if (interaction.isButton() && parsed.action === 'leave') {
+                await this.showLeaveModal(interaction, parsed.discordId, parsed.start);
+            } else if (interaction.isModalSubmit() && parsed.action === 'leavemodal') {
+                await this.markOnLeave(interaction, parsed.discordId, parsed.start);
+            }
+        } catch (error) {
+            console.error('Error handling inactivity alert:', error);
+            const content = 'Failed to update this member. Please use `/nswg-loa` instead.';
+            if (interaction.replied || interaction.deferred) {
+                await interaction.followUp({ content, ephemeral: true }).catch(() => {});
+            } else {
+                await interaction.reply({ content, ephemeral: true }).catch(() => {});
+            }
+        }
+    }
+
+    private async sendCheckIn(
+        interaction: ButtonInteraction,
+        discordId: string,
+        start: string,
+        reason: InactivityReason
+    ): Promise<void> {
+        const noticed = reason === 'streak'
+            ? `you haven't been at NSWG raids since ${formatDateKey(start)}`
+            : `you've missed a lot of NSWG raids lately, most recently on ${formatDateKey(start)}`;
+        try {
+            const user = await this.client.users.fetch(discordId);
+            await user.send({
+                content: `Hey, we noticed ${noticed}. Is everything okay? `
+                    + 'If you need some time away, request leave with `/nswg-loa request` so it doesn\'t count against your attendance, '
+                    + 'or reach out to a staff member.'
+            });
+        } catch (error) {
+            console.warn(`Could not DM ${discordId} an inactivity check-in.`);
+            await interaction.reply({ content: `<@${discordId}> has DMs closed; reach out to them directly.`, ephemeral: true });
+            return;
+        }
+
+        const embed = EmbedBuilder.from(interaction.message.embeds[0])
+            .addFields({ name: 'Checked In', value: `Check-in DM sent by <@${interaction.user.id}>` });
+        await interaction.update({
+            embeds: [embed],
+            components: [this.createMemberRow(discordId, start, reason, true)],
+            allowedMentions: { parse: [] }
+        });
+    }
+
+    private async showLeaveModal(interaction: ButtonInteraction, discordId: string, start: string): Promise<void> {
+        const endInput = new TextInputBuilder()
+            .setCustomId('leave-end')
+            .setLabel(`Leave from ${start} until (YYYY-MM-DD)`)
+            .setStyle(TextInputStyle.Short)
+            .setRequired(true)
+            .setMinLength(10)
+            .setMaxLength(10)
+            .setValue(addDays(todayKey(), DEFAULT_LEAVE_DAYS));
+        const reasonInput = new TextInputBuilder()
+            .setCustomId('leave-reason')
+            .setLabel('Reason')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(true)
+            .setMaxLength(500)
+            .setValue('Marked on leave by staff after the weekly inactivity check');
+
+        const modal = new ModalBuilder()
+            .setCustomId(inactivityCustomId('leavemodal', discordId, start))
+            .setTitle('Mark on Leave')
+            .addComponents(
+                new ActionRowBuilder<TextInputBuilder>().addComponents(endInput),
+                new ActionRowBuilder<TextInputBuilder>().addComponents(reasonInput)
+            );
+        await interaction.showModal(modal);
+    }
+
+    private async markOnLeave(interaction: ModalSubmitInteraction, discordId: string, start: string): Promise<void> {
+        const end = interaction.fields.getTextInputValue('leave-end').trim();
+        const reason = interaction.fields.getTextInputValue('leave-reason').trim();
+        if (!isDateKey(end) || end < start || addDays(start, MAX_LEAVE_DAYS) <= end) {
+            await interaction.reply({
+                content: `The end date must be a YYYY-MM-DD date on or after ${start}, within ${MAX_LEAVE_DAYS} days.`,
+                ephemeral: true
+            });
+            return;
+        }
+
+        await withApplicationDatabase(async databaseService => {
+            const overlapping = findOverlappingLeave(await databaseService.getLeaveRequests(discordId), start, end);
+            if (overlapping) {
+                await interaction.reply({
+                    content: `<@${discordId}> already has ${overlapping.status} leave request ${overlapping.id} `
+                        + `(${formatLeavePeriod(overlapping)}). Use \`/nswg-loa approve\` or \`/nswg-loa list\` instead.`,
+                    ephemeral: true,
+                    allowedMentions: { parse: [] }
+                });
+                return;
+            }
+
+            const id = await databaseService.createLeaveRequest(discordId, start, end, reason);
+            await this.leaveService.decide(databaseService, id, 'approved', interaction.user.id);
+
+            const period = formatLeavePeriod({ start_date: start, end_date: end });
+            if (interaction.isFromMessage()) {
+                const embed = EmbedBuilder.from(interaction.message.embeds[0])
+                    .setColor(Colors.Blue)
+                    .addFields({ name: 'On Leave', value: `${period}, marked by <@${interaction.user.id}>` });
+                await interaction.update({ embeds: [embed], components: [], allowedMentions: { parse: [] } });
+            } else {
+                await interaction.reply({ content: `Marked <@${discordId}> on leave for ${period}.`, ephemeral: true });
+            }
+        });
+    }
+}
@@ -0,0 +1,64 @@
+export type InterviewOutcome = 'pass' | 'fail' | 'no_show';
+
+export interface InterviewSlot {
+    id: number;
+    reviewer_id: string;
+    starts_at: Date;
+    duration_minutes: number;
+    form_id: number | null;
+    booked_at: Date | null;
+    reminded_at: Date | null;
+}
+
+export interface InterviewOutcomeRecord {
+    form_id: number;
+    slot_id: number | null;
+    outcome: InterviewOutcome;
+    note: string | null;
+    recorded_by: string;
+    recorded_at: Date;
+}
+
+const BOOK_PREFIX = 'interview-book-';
+const SLOT_PREFIX = 'interview-slot-';
+
+export function bookInterviewCustomId(formId: number): string {
+    return `${BOOK_PREFIX}${formId}`;
+}
+
+export function interviewSlotCustomId(formId: number, slotId: number): string {
+    return `${SLOT_PREFIX}${formId}-${slotId}`;
+}
+
+export function parseBookInterviewCustomId(customId: string): { formId: number } | null {
+    const match = customId.match(/^interview-book-(\d+)$/);
+    return match ? { formId: parseInt(match[1], 10) } : null;
+}
+
+export function parseInterviewSlotCustomId(customId: string): { formId: number; slotId: number } | null {
+    const match = customId.match(/^interview-slot-(\d+)-(\d+)$/);
+    return match ? { formId: parseInt(match[1], 10), slotId: parseInt(match[2], 10) } : null;
+}
+
+export function isInterviewCustomId(customId: string): boolean {
+    return customId.startsWith(BOOK_PREFIX) || customId.startsWith(SLOT_PREFIX);
+}
+
+/** Parses `YYYY-MM-DD HH:MM` as UTC; returns null for anything else. */
+export function parseSlotStart(input: string): Date | null {
+    const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})$/);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day, hour, minute] = match.slice(1).map(value => parseInt(value, 10));
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+        && date.getUTCHours() === hour && date.getUTCMinutes() === minute
+        ? date
+        : null;
+}
+
+export function formatSlotTime(slot: Pick<InterviewSlot, 'starts_at' | 'duration_minutes'>): string {
+    const seconds = Math.floor(new Date(slot.starts_at).getTime() / 1000);
+    return `<t:${seconds}:F> (${slot.duration_minutes} min)`;
+}
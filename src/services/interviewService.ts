@@ -0,0 +1,179 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, Client, Interaction, TextChannel
+} from "discord.js";
+import { DatabaseService } from "./database";
+import { withApplicationDatabase } from "./applicationDatabase";
+import {
+    formatSlotTime, interviewSlotCustomId, parseBookInterviewCustomId, parseInterviewSlotCustomId
+} from "./interviewActions";
+
+const MAX_SLOT_BUTTONS = 20;
+
+/**
+ * Lets accepted applicants book one of the reviewers' published interview
+ * slots and reminds both sides before it starts.
+ */
+export class InterviewService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+    private readonly reminderMinutes: number;
+
+    constructor(client: Client, staffChannelId: string, reminderMinutes: number) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+        this.reminderMinutes = reminderMinutes;
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        if (!interaction.isButton()) return;
+        try {
+            if (parseBookInterviewCustomId(interaction.customId)) {
+                await this.showOpenSlots(interaction);
+            } else if (parseInterviewSlotCustomId(interaction.customId)) {
+                await this.bookSlot(interaction);
+            }
+        } catch (error) {
+            console.error('Error handling interview booking:', error);
+            const content = 'Failed to book this interview. Please contact a staff member.';
+            if (interaction.replied || interaction.deferred) {
+                await interaction.followUp({ content, ephemeral: true }).catch(() => {});
+            } else {
+                await interaction.reply({ content, ephemeral: true }).catch(() => {});
+            }
+        }
+    }
+
+    async sendDueReminders(databaseService: DatabaseService): Promise<void> {
+        const slots = await databaseService.getInterviewSlotsDueReminder(this.reminderMinutes);
+
+        for (const slot of slots) {
+            const application = slot.form_id !== null ? await databaseService.getApplication(slot.form_id) : null;
+            if (!application) continue;
+
+            const applicantId = (await databaseService.getAccountLinks([application.user_id])).get(application.user_id);
+            const when = formatSlotTime(slot);
+
+            if (applicantId) {
+                await this.notifyUser(applicantId, `Reminder: your NSWG interview with <@${slot.reviewer_id}> starts ${when}.`);
+            }
+            await this.notifyUser(
+                slot.reviewer_id,
+                `Reminder: you are interviewing **${application.first_name}** (${application.preferred_position}) ${when}.`
+            );
+            await databaseService.markInterviewReminded(slot.id);
+        }
+    }
+
+    /** Only the applicant linked to the application may book for it. */
+    private async loadApplicantApplication(databaseService: DatabaseService, interaction: ButtonInteraction, formId: number) {
+        const application = await databaseService.getApplication(formId);
+        if (!application || application.state !== 'accepted') {
+            await interaction.reply({ content: 'This application is not waiting for an interview.', ephemeral: true });
+            return null;
+        }
+
+        const link = await databaseService.getAccountLink(application.user_id);
+        if (link?.discord_id !== interaction.user.id) {
+            await interaction.reply({
+                content: 'Only the accepted applicant can book this interview. If that is you, ask staff to link your account.',
+                ephemeral: true
+            });
+            return null;
+        }
+        return application;
+    }
+
+    private async showOpenSlots(interaction: ButtonInteraction): Promise<void> {
+        const { formId } = parseBookInterviewCustomId(interaction.customId)!;
+
+        await withApplicationDatabase(async databaseService => {
+            const application = await this.loadApplicantApplication(databaseService, interaction, formId);
+            if (!application) return;
+
+            const [slots, booked] = await Promise.all([
+                databaseService.getUpcomingInterviewSlots(true),
+                databaseService.getBookedInterviewSlot(formId)
+            ]);
+            const current = booked && new Date(booked.starts_at).getTime() > Date.now() ? booked : null;
+
+            if (slots.length === 0) {
+                await interaction.reply({
+                    content: current
+                        ? `You are booked for ${formatSlotTime(current)}. No other slots are open right now.`
+                        : 'No interview slots are open right now. Staff have been told; please check back soon.',
+                    ephemeral: true
+                });
+                if (!current) {
+                    await this.postToStaff(`**${application.first_name}** wants to book an interview but no slots are open.`);
+                }
+                return;
+            }
+
+            const buttons = slots.slice(0, MAX_SLOT_BUTTONS).map(slot => new ButtonBuilder()
+                .setCustomId(interviewSlotCustomId(formId, slot.id))
+                .setLabel(`${new Date(slot.starts_at).toISOString().slice(0, 16).replace('T', ' ')} UTC`)
+                .setStyle(ButtonStyle.Primary));
+            const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+            for (let i = 0; i < buttons.length; i += 5) {
+                rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i, i + 5)));
+            }
+
+            const lines = slots.slice(0, MAX_SLOT_BUTTONS).map(slot => `• ${formatSlotTime(slot)} with <@${slot.reviewer_id}>`);
+            await interaction.reply({
+                content: [
+                    current ? `You are booked for ${formatSlotTime(current)}. Picking another slot moves your booking.` : 'Pick an interview slot:',
+                    ...lines
+                ].join('\n'),
+                components: rows,
+                ephemeral: true,
+                allowedMentions: { parse: [] }
+            });
+        });
+    }
+
+    private async bookSlot(interaction: ButtonInteraction): Promise<void> {
+        const { formId, slotId } = parseInterviewSlotCustomId(interaction.customId)!;
+
+        await withApplicationDatabase(async databaseService => {
+            const application = await this.loadApplicantApplication(databaseService, interaction, formId);
+            if (!application) return;
+
+            const booked = await databaseService.bookInterviewSlot(slotId, formId);
+            const slot = await databaseService.getInterviewSlot(slotId);
+            if (!booked || !slot) {
+                await interaction.update({ content: 'That slot was just taken. Press **Book Interview** again to see what is left.', components: [] });
+                return;
+            }
+
+            await interaction.update({
+                content: `Booked: ${formatSlotTime(slot)} with <@${slot.reviewer_id}>. You will get a reminder before it starts.`,
+                components: [],
+                allowedMentions: { parse: [] }
+            });
+            await this.notifyUser(
+                slot.reviewer_id,
+                `**${application.first_name}** (${application.preferred_position}) booked your interview slot ${formatSlotTime(slot)}. Applicant: <@${interaction.user.id}>`
+            );
+        });
+    }
+
+    private async postToStaff(content: string): Promise<void> {
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return;
+        }
+        await channel.send({ content }).catch(error => console.error('Error posting to staff channel:', error));
+    }
+
+    /** DMs a user, falling back to the staff channel when their DMs are closed. */
+    private async notifyUser(userId: string, content: string): Promise<void> {
+        try {
+            const user = await this.client.users.fetch(userId);
+            await user.send({ content });
+        } catch (error) {
+            console.warn(`Could not DM ${userId}; posting in the staff channel instead.`);
+            await this.postToStaff(`<@${userId}> ${content}`);
+        }
+    }
+}
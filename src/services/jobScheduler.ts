@@ -0,0 +1,283 @@
+export type JobResult = 'success' | 'failure';
+
+export interface JobDefinition {
+    name: string;
+    description: string;
+    intervalMs: number;
+    /** Run as soon as the scheduler starts instead of waiting one interval. */
+    runOnStart?: boolean;
+    run: () => Promise<void>;
+}
+
+/** What the store remembers about a job between restarts. */
+export interface JobState {
+    name: string;
+    paused: boolean;
+    last_started_at: Date | null;
+    last_finished_at: Date | null;
+    last_duration_ms: number | null;
+    last_result: JobResult | null;
+    last_error: string | null;
+    consecutive_failures: number;
+}
+
+export interface JobRun {
+    started_at: Date;
+    finished_at: Date;
+    duration_ms: number;
+    result: JobResult;
+    error: string | null;
+}
+
+export interface JobStore {
+    getJobStates(): Promise<JobState[]>;
+    saveJobRun(name: string, run: JobRun, consecutiveFailures: number): Promise<void>;
+    setJobPaused(name: string, paused: boolean): Promise<void>;
+}
+
+export interface JobStatus extends JobState {
+    description: string;
+    intervalMs: number;
+    running: boolean;
+    next_run_at: Date | null;
+}
+
+export interface SchedulerOptions {
+    /** Each delay is moved by up to this fraction either way so jobs drift apart. */
+    jitterRatio: number;
+    /** Failed jobs back off exponentially up to this delay (or their interval if longer). */
+    maxBackoffMs: number;
+    random: () => number;
+}
+
+export type RunNowOutcome =
+    | { status: 'ran'; run: JobRun }
+    | { status: 'busy' }
+    | { status: 'unknown' };
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+    jitterRatio: 0.1,
+    maxBackoffMs: 60 * 60 * 1000,
+    random: Math.random
+};
+
+export function nextDelay(
+    intervalMs: number,
+    consecutiveFailures: number,
+    options: Pick<SchedulerOptions, 'jitterRatio' | 'maxBackoffMs'>,
+    random: () => number
+): number {
+    const backoff = consecutiveFailures > 0
+        ? Math.min(intervalMs * 2 ** consecutiveFailures, Math.max(options.maxBackoffMs, intervalMs))
+        : intervalMs;
+    const jitter = (random() * 2 - 1) * options.jitterRatio;
+    return Math.max(0, Math.round(backoff * (1 + jitter)));
+}
+
+interface ScheduledJob {
+    definition: JobDefinition;
+    state: JobState;
+    running: Promise<JobRun> | null;
+    /** Set by `trigger` while the job runs; it runs once more straight after. */
+    rerunRequested: boolean;
+    timer: NodeJS.Timeout | null;
+    nextRunAt: Date | null;
+}
+
+function emptyState(name: string): JobState {
+    return {
+        name,
+        paused: false,
+        last_started_at: null,
+        last_finished_at: null,
+        last_duration_ms: null,
+        last_result: null,
+        last_error: null,
+        consecutive_failures: 0
+    };
+}
+
+/**
+ * Runs the bot's periodic work. A job never overlaps itself: each run is
+ * scheduled only after the previous one finished, and manual runs are refused
+ * while one is in flight. Failures back off, every delay is jittered, and the
+ * outcome of each run is saved to the store.
+ */
+export class JobScheduler {
+    private readonly store: JobStore;
+    private readonly options: SchedulerOptions;
+    private readonly jobs = new Map<string, ScheduledJob>();
+    private started = false;
+
+    constructor(store: JobStore, options: Partial<SchedulerOptions> = {}) {
+        this.store = store;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    register(definition: JobDefinition): void {
+        if (this.jobs.has(definition.name)) {
+            throw new Error(`Job ${definition.name} is already registered`);
+        }
+        this.jobs.set(definition.name, {
+            definition,
+            state: emptyState(definition.name),
+            running: null,
+            rerunRequested: false,
+            timer: null,
+            nextRunAt: null
+        });
+    }
+
+    /** Loads saved state (pauses, failure streaks) and schedules every job. */
+    async start(): Promise<void> {
+        if (this.started) return;
+        this.started = true;
+
+        try {
+            for (const saved of await this.store.getJobStates()) {
+                const job = this.jobs.get(saved.name);
+                if (job) {
+                    job.state = { ...saved, name: job.definition.name };
+                }
+            }
+        } catch (error) {
+            console.error('Error loading job state:', error);
+        }
+
+        for (const job of this.jobs.values()) {
+            this.schedule(job, job.definition.runOnStart ? 0 : undefined);
+        }
+    }
+
+    stop(): void {
+        this.started = false;
+        for (const job of this.jobs.values()) {
+            if (job.timer) clearTimeout(job.timer);
+            job.timer = null;
+            job.nextRunAt = null;
+        }
+    }
+
+    list(): JobStatus[] {
+        return Array.from(this.jobs.values()).map(job => ({
+            ...job.state,
+            description: job.definition.description,
+            intervalMs: job.definition.intervalMs,
+            running: job.running !== null,
+            next_run_at: job.state.paused ? null : job.nextRunAt
+        }));
+    }
+
+    has(name: string): boolean {
+        return this.jobs.has(name);
+    }
+
+    /** Returns false for unknown jobs. */
+    async setPaused(name: string, paused: boolean): Promise<boolean> {
+        const job = this.jobs.get(name);
+        if (!job) return false;
+
+        job.state.paused = paused;
+        await this.store.setJobPaused(name, paused);
+        return true;
+    }
+
+    /** Runs a job right away, even if it is paused, unless it is already running. */
+    async runNow(name: string): Promise<RunNowOutcome> {
+        const job = this.jobs.get(name);
+        if (!job) return { status: 'unknown' };
+        if (job.running) return { status: 'busy' };
+
+        if (job.timer) clearTimeout(job.timer);
+        job.timer = null;
+        const run = await this.execute(job);
+        this.schedule(job);
+        return { status: 'ran', run };
+    }
+
+    /**
+     * Starts an unpaused job in the background. If it is already running, one
+     * more run follows the current one so the trigger is never lost. Returns
+     * false for unknown or paused jobs.
+     */
+    trigger(name: string): boolean {
+        const job = this.jobs.get(name);
+        if (!job || job.state.paused) return false;
+
+        if (job.running) {
+            job.rerunRequested = true;
+        } else {
+            void this.runNow(name);
+        }
+        return true;
+    }
+
+    private schedule(job: ScheduledJob, delay?: number): void {
+        if (!this.started) return;
+
+        const wait = delay ?? nextDelay(
+            job.definition.intervalMs, job.state.consecutive_failures, this.options, this.options.random
+        );
+        job.nextRunAt = new Date(Date.now() + wait);
+        job.timer = setTimeout(async () => {
+            job.timer = null;
+            if (!job.state.paused && !job.running) {
+                await this.execute(job);
+            }
+            if (!job.timer) {
+                this.schedule(job);
+            }
+        }, wait);
+    }
+
+    private async execute(job: ScheduledJob): Promise<JobRun> {
+        job.running = this.runOnce(job).finally(() => {
+            job.running = null;
+        });
+        const run = await job.running;
+        if (job.rerunRequested) {
+            job.rerunRequested = false;
+            return this.execute(job);
+        }
+        return run;
+    }
+
+    private async runOnce(job: ScheduledJob): Promise<JobRun> {
+        const startedAt = new Date();
+        job.state.last_started_at = startedAt;
+
+        let result: JobResult = 'success';
+        let error: string | null = null;
+        try {
+            await job.definition.run();
+        } catch (err) {
+            result = 'failure';
+            error = err instanceof Error ? err.message : String(err);
+            console.error(`Job ${job.definition.name} failed:`, err);
+        }
+
+        const finishedAt = new Date();
+        const run: JobRun = {
+            started_at: startedAt,
+            finished_at: finishedAt,
+            duration_ms: finishedAt.getTime() - startedAt.getTime(),
+            result,
+            error
+        };
+        job.state = {
+            ...job.state,
+            last_finished_at: run.finished_at,
+            last_duration_ms: run.duration_ms,
+            last_result: result,
+            last_error: error,
+            consecutive_failures: result === 'failure' ? job.state.consecutive_failures + 1 : 0
+        };
+
+        try {
+            await this.store.saveJobRun(job.definition.name, run, job.state.consecutive_failures);
+        } catch (err) {
+            console.error(`Error saving run of job ${job.definition.name}:`, err);
+        }
+        return run;
+    }
+}
@@ -0,0 +1,99 @@
+import { addDays, formatDateKey, isDateKey } from "./raidSchedule";
+
+export type LeaveStatus = 'pending' | 'approved' | 'denied' | 'cancelled';
+
+/** A member's request to be excused from raids between two Eastern dates. */
+export interface LeaveRequest {
+    id: number;
+    discord_id: string;
+    /** `YYYY-MM-DD`, inclusive. */
+    start_date: string;
+    /** `YYYY-MM-DD`, inclusive. */
+    end_date: string;
+    reason: string;
+    status: LeaveStatus;
+    requested_at: Date;
+    decided_by: string | null;
+    decided_at: Date | null;
+}
+
+/**
+ * How a member's cancellation went: leave that has not started yet is
+ * `cancelled`, while approved leave already under way is `ended` yesterday
+ * so the raids it excused stay excused.
+ */
+export type LeaveCancellation = 'cancelled' | 'ended';
+
+export const MAX_LEAVE_DAYS = 90;
+
+/** Leave can be requested after the fact for raids missed this recently. */
+export const MAX_LEAVE_BACKDATE_DAYS = 14;
+
+/** `RaidActivity.status` values that mean the member was excused rather than present. */
+const EXCUSED_ATTENDANCE_STATUSES = ['excused', 'loa'];
+
+export function isExcusedStatus(status: string | undefined): boolean {
+    return !!status && EXCUSED_ATTENDANCE_STATUSES.includes(status.trim().toLowerCase());
+}
+
+/** Why a requested date range cannot be used, or null when it can. */
+export function validateLeaveDates(start: string, end: string, today: string): string | null {
+    if (!isDateKey(start) || !isDateKey(end)) {
+        return 'Dates must be in YYYY-MM-DD format.';
+    }
+    if (end < start) {
+        return 'The leave must end on or after the day it starts.';
+    }
+    if (start < addDays(today, -MAX_LEAVE_BACKDATE_DAYS)) {
+        return `Leave can only start up to ${MAX_LEAVE_BACKDATE_DAYS} days in the past.`;
+    }
+    if (addDays(start, MAX_LEAVE_DAYS) <= end) {
+        return `Leave can be at most ${MAX_LEAVE_DAYS} days; request another period when it ends.`;
+    }
+    return null;
+}
+
+export function formatLeavePeriod(request: Pick<LeaveRequest, 'start_date' | 'end_date'>): string {
+    return request.start_date === request.end_date
+        ? formatDateKey(request.start_date)
+        : `${formatDateKey(request.start_date)} – ${formatDateKey(request.end_date)}`;
+}
+
+/** Pending and approved leave both block a second request for the same days. */
+export function findOverlappingLeave(requests: LeaveRequest[], start: string, end: string): LeaveRequest | null {
+    return requests.find(request => (request.status === 'pending' || request.status === 'approved')
+        && request.start_date <= end && start <= request.end_date) ?? null;
+}
+
+/** Every date covered by approved leave, limited to `from`…`to`. */
+export function leaveDays(requests: LeaveRequest[], from: string, to: string): Set<string> {
+    const days = new Set<string>();
+    for (const request of requests) {
+        if (request.status !== 'approved') continue;
+        const last = request.end_date < to ? request.end_date : to;
+        for (let key = request.start_date > from ? request.start_date : from; key <= last; key = addDays(key, 1)) {
+            days.add(key);
+        }
+    }
+    return days;
+}
+
+const APPROVE_PREFIX = 'loa-approve-';
+const DENY_PREFIX = 'loa-deny-';
+
+export function approveLeaveCustomId(id: number): string {
+    return `${APPROVE_PREFIX}${id}`;
+}
+
+export function denyLeaveCustomId(id: number): string {
+    return `${DENY_PREFIX}${id}`;
+}
+
+export function parseLeaveCustomId(customId: string): { decision: 'approved' | 'denied'; id: number } | null {
+    const match = customId.match(/^loa-(approve|deny)-(\d+)$/);
+    return match ? { decision: match[1] === 'approve' ? 'approved' : 'denied', id: parseInt(match[2], 10) } : null;
+}
+
+export function isLeaveCustomId(customId: string): boolean {
+    return customId.startsWith(APPROVE_PREFIX) || customId.startsWith(DENY_PREFIX);
+}
@@ -0,0 +1,122 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, Client, Colors, EmbedBuilder, Interaction, TextChannel
+} from "discord.js";
+import { DatabaseService } from "./database";
+import { withApplicationDatabase } from "./applicationDatabase";
+import {
+    LeaveRequest, approveLeaveCustomId, denyLeaveCustomId, formatLeavePeriod, parseLeaveCustomId
+} from "./leaveOfAbsence";
+import { hasAdminRole } from "../utils/permissions";
+
+/**
+ * Posts leave of absence requests to staff with Approve/Deny buttons and
+ * tells the member how their request was decided. Approved leave is excused
+ * from attendance rates.
+ */
+export class LeaveService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+
+    constructor(client: Client, staffChannelId: string) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+    }
+
+    async postApprovalRequest(request: LeaveRequest): Promise<void> {
+        const embed = new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setTitle('Leave of Absence Request')
+            .setDescription(`<@${request.discord_id}> asked to be excused from raids.`)
+            .addFields(
+                { name: 'Dates (US Eastern)', value: formatLeavePeriod(request) },
+                { name: 'Reason', value: request.reason.slice(0, 1024) },
+                { name: 'Request', value: `#${request.id}`, inline: true }
+            )
+            .setTimestamp();
+        const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(approveLeaveCustomId(request.id))
+                .setLabel('Approve')
+                .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+                .setCustomId(denyLeaveCustomId(request.id))
+                .setLabel('Deny')
+                .setStyle(ButtonStyle.Danger)
+        );
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return;
+        }
+        await channel.send({ embeds: [embed], components: [row], allowedMentions: { parse: [] } })
+            .catch(error => console.error('Error posting leave request:', error));
+    }
+
+    /** Decides a pending request and DMs the member; null when it was no longer pending. */
+    async decide(
+        databaseService: DatabaseService, id: number, decision: 'approved' | 'denied', decidedBy: string
+    ): Promise<LeaveRequest | null> {
+        if (!await databaseService.decideLeaveRequest(id, decision, decidedBy)) {
+            return null;
+        }
+        const request = await databaseService.getLeaveRequest(id);
+        if (request) {
+            await this.notifyMember(request);
+        }
+        return request;
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        if (!interaction.isButton()) return;
+        try {
+            await this.handleButton(interaction);
+        } catch (error) {
+            console.error('Error handling leave request:', error);
+            await interaction.reply({ content: 'Failed to update this request. Please use `/nswg-loa`.', ephemeral: true })
+                .catch(() => {});
+        }
+    }
+
+    private async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const parsed = parseLeaveCustomId(interaction.customId);
+        if (!parsed) return;
+
+        if (!hasAdminRole(interaction.member)) {
+            await interaction.reply({ content: 'Only admins can decide leave requests.', ephemeral: true });
+            return;
+        }
+
+        await withApplicationDatabase(async databaseService => {
+            const request = await this.decide(databaseService, parsed.id, parsed.decision, interaction.user.id);
+            if (!request) {
+                const current = await databaseService.getLeaveRequest(parsed.id);
+                await interaction.reply({
+                    content: `This request was already ${current?.status ?? 'removed'}.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            const approved = request.status === 'approved';
+            const embed = EmbedBuilder.from(interaction.message.embeds[0])
+                .setColor(approved ? Colors.Green : Colors.Red)
+                .addFields({
+                    name: approved ? 'Approved' : 'Denied',
+                    value: `${approved ? 'Approved' : 'Denied'} by <@${interaction.user.id}>`
+                });
+            await interaction.update({ embeds: [embed], components: [], allowedMentions: { parse: [] } });
+        });
+    }
+
+    private async notifyMember(request: LeaveRequest): Promise<void> {
+        const content = request.status === 'approved'
+            ? `Your leave of absence for ${formatLeavePeriod(request)} was approved. Raids in that period will not count against your attendance.`
+            : `Your leave of absence for ${formatLeavePeriod(request)} was denied. Please contact a staff member if you have questions.`;
+        try {
+            const user = await this.client.users.fetch(request.discord_id);
+            await user.send({ content });
+        } catch (error) {
+            console.warn(`Could not DM ${request.discord_id} about leave request #${request.id}.`);
+        }
+    }
+}
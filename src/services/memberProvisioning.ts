@@ -0,0 +1,176 @@
+import { Client, Colors, DiscordAPIError, EmbedBuilder, GuildMember, RESTJSONErrorCodes, TextChannel } from "discord.js";
+import { DatabaseService } from "./database";
+import { AcceptedUsers } from "./request_perscom";
+
+/** Rules under this position apply to every accepted applicant. */
+export const ALL_POSITIONS = 'all';
+
+export type AcceptanceRoleAction = 'add' | 'remove';
+
+export interface AcceptanceRoleRule {
+    position: string;
+    action: AcceptanceRoleAction;
+    role_id: string;
+}
+
+export interface ProvisioningPlan {
+    addRoleIds: string[];
+    removeRoleIds: string[];
+    nickname: string | null;
+}
+
+export interface ProvisioningFailure {
+    user: AcceptedUsers;
+    discordId: string | null;
+    problems: string[];
+}
+
+const MAX_NICKNAME_LENGTH = 32;
+
+function normalizePosition(position: string): string {
+    return position.trim().toLowerCase();
+}
+
+/** Fills `{first_name}` in the configured format; an empty format leaves nicknames alone. */
+export function formatNickname(format: string, firstName: string): string | null {
+    const trimmedName = firstName.trim();
+    if (!format || !trimmedName) {
+        return null;
+    }
+    return format.replace(/\{first_name\}/g, trimmedName).slice(0, MAX_NICKNAME_LENGTH);
+}
+
+/**
+ * Works out what to change for an accepted applicant. Position-specific rules
+ * and `all` rules both apply; a role that is both added and removed is added.
+ */
+export function planProvisioning(rules: AcceptanceRoleRule[], position: string, firstName: string, nicknameFormat: string): ProvisioningPlan {
+    const normalized = normalizePosition(position);
+    const applicable = rules.filter(rule => {
+        const rulePosition = normalizePosition(rule.position);
+        return rulePosition === ALL_POSITIONS || rulePosition === normalized;
+    });
+
+    const addRoleIds = Array.from(new Set(applicable.filter(rule => rule.action === 'add').map(rule => rule.role_id)));
+    const removeRoleIds = Array.from(new Set(applicable
+        .filter(rule => rule.action === 'remove' && !addRoleIds.includes(rule.role_id))
+        .map(rule => rule.role_id)));
+
+    return { addRoleIds, removeRoleIds, nickname: formatNickname(nicknameFormat, firstName) };
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof DiscordAPIError) {
+        switch (error.code) {
+            case RESTJSONErrorCodes.MissingPermissions:
+                return 'missing permissions (check the bot role is above the target roles)';
+            case RESTJSONErrorCodes.UnknownMember:
+                return 'member is not in the guild';
+            case RESTJSONErrorCodes.UnknownRole:
+                return 'role no longer exists';
+        }
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Applies the on-acceptance role and nickname changes to linked guild members
+ * and reports anything it could not do to staff.
+ */
+export class MemberProvisioningService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+    private readonly nicknameFormat: string;
+
+    constructor(client: Client, staffChannelId: string, nicknameFormat: string) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+        this.nicknameFormat = nicknameFormat;
+    }
+
+    private async getStaffChannel(): Promise<TextChannel | null> {
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return null;
+        }
+        return channel;
+    }
+
+    async provisionAcceptedUsers(
+        databaseService: DatabaseService,
+        users: AcceptedUsers[],
+        discordIds: Map<number, string>
+    ): Promise<ProvisioningFailure[]> {
+        const channel = await this.getStaffChannel();
+        if (!channel) return [];
+
+        const rules = await databaseService.getAcceptanceRoleRules();
+        const failures: ProvisioningFailure[] = [];
+
+        for (const user of users) {
+            const discordId = discordIds.get(user.user_id) ?? null;
+            if (!discordId) {
+                failures.push({ user, discordId, problems: ['no linked Discord account'] });
+                continue;
+            }
+
+            const member = await channel.guild.members.fetch(discordId).catch(() => null);
+            if (!member) {
+                failures.push({ user, discordId, problems: ['member is not in the guild'] });
+                continue;
+            }
+
+            const plan = planProvisioning(rules, user.preferred_position, user.first_name, this.nicknameFormat);
+            const problems = await this.applyPlan(member, plan);
+            if (problems.length > 0) {
+                failures.push({ user, discordId, problems });
+            }
+        }
+
+        if (failures.length > 0) {
+            await channel.send({ embeds: [this.createFailureEmbed(failures)], allowedMentions: { parse: [] } })
+                .catch(error => console.error('Error reporting provisioning failures:', error));
+        }
+        return failures;
+    }
+
+    private async applyPlan(member: GuildMember, plan: ProvisioningPlan): Promise<string[]> {
+        const problems: string[] = [];
+        const reason = 'Application accepted';
+
+        const toAdd = plan.addRoleIds.filter(roleId => !member.roles.cache.has(roleId));
+        if (toAdd.length > 0) {
+            await member.roles.add(toAdd, reason)
+                .catch(error => problems.push(`adding ${toAdd.map(id => `<@&${id}>`).join(', ')}: ${describeError(error)}`));
+        }
+
+        const toRemove = plan.removeRoleIds.filter(roleId => member.roles.cache.has(roleId));
+        if (toRemove.length > 0) {
+            await member.roles.remove(toRemove, reason)
+                .catch(error => problems.push(`removing ${toRemove.map(id => `<@&${id}>`).join(', ')}: ${describeError(error)}`));
+        }
+
+        if (plan.nickname && member.nickname !== plan.nickname) {
+            await member.setNickname(plan.nickname, reason)
+                .catch(error => problems.push(`setting nickname "${plan.nickname}": ${describeError(error)}`));
+        }
+
+        return problems;
+    }
+
+    private createFailureEmbed(failures: ProvisioningFailure[]): EmbedBuilder {
+        return new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setTitle('Acceptance Setup Incomplete')
+            .setDescription('Finish these by hand:')
+            .addFields(failures.slice(0, 25).map(failure => ({
+                name: `${failure.user.first_name} (${failure.user.preferred_position})`,
+                value: [
+                    failure.discordId ? `<@${failure.discordId}>` : 'Link with `/nswg-link add`',
+                    ...failure.problems.map(problem => `• ${problem}`)
+                ].join('\n').slice(0, 1024)
+            })))
+            .setTimestamp();
+    }
+}
@@ -0,0 +1,31 @@
+/** Where an applicant outcome is announced: a private DM, the public channel, or both. */
+export type DeliveryMode = 'dm' | 'channel' | 'both';
+
+export type DeliveryOutcome = 'accepted' | 'denied';
+
+export type DeliveryMethod = 'dm' | 'channel';
+
+export type NotificationDeliveryModes = Record<DeliveryOutcome, DeliveryMode>;
+
+export const DEFAULT_DELIVERY_MODES: NotificationDeliveryModes = {
+    accepted: 'both',
+    denied: 'dm'
+};
+
+export interface NotificationDelivery {
+    form_id: number | null;
+    perscom_user_id: number;
+    discord_id: string | null;
+    outcome: DeliveryOutcome;
+    method: DeliveryMethod;
+    status: 'delivered' | 'failed' | 'skipped';
+    detail: string | null;
+}
+
+export interface NotificationDeliveryRecord extends NotificationDelivery {
+    created_at: Date;
+}
+
+export function isDeliveryMode(value: string | undefined): value is DeliveryMode {
+    return value === 'dm' || value === 'channel' || value === 'both';
+}
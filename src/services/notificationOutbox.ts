@@ -0,0 +1,201 @@
+import { DatabaseService } from "./database";
+import { NotificationService } from "./notificationService";
+import { AccountLinkService } from "./accountLinkService";
+import { ReviewerRouting } from "./reviewerRouting";
+import { CooldownFlag } from "./reapplicationCooldown";
+import { DeliveryMethod, NotificationDelivery } from "./notificationDelivery";
+import { EligibilitySummary } from "./eligibility";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Deliveries are given up on (and staff alerted) after this many attempts. */
+export const MAX_OUTBOX_ATTEMPTS = 8;
+
+const MAX_RETRY_DELAY_MS = 6 * 60 * MINUTE_MS;
+
+export type OutboxKind = 'new_application' | 'accepted' | 'denied';
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+/** What the notification needs beyond the application itself, captured when the state changed. */
+export interface OutboxPayload {
+    cooldownFlag?: CooldownFlag;
+    eligibility?: EligibilitySummary;
+    denial_reason?: string;
+    denial_note?: string | null;
+}
+
+/** A notification written in the same transaction as the state change it announces. */
+export interface NewOutboxMessage {
+    kind: OutboxKind;
+    form_id: number;
+    payload: OutboxPayload;
+}
+
+export interface OutboxMessage extends NewOutboxMessage {
+    id: number;
+    idempotency_key: string;
+    status: OutboxStatus;
+    attempts: number;
+    next_attempt_at: Date;
+    last_error: string | null;
+    created_at: Date;
+    sent_at: Date | null;
+}
+
+const KEY_PREFIXES: Record<OutboxKind, string> = {
+    new_application: 'new',
+    accepted: 'accepted',
+    denied: 'denied'
+};
+
+/**
+ * Identifies a notification across retries. New applications are announced
+ * once per submission; decisions can be reversed and repeated, so they are
+ * keyed by the history entry of the transition. Keys stay within Discord's
+ * 25 character nonce limit so they also stop Discord posting a retry twice.
+ */
+export function outboxKey(kind: OutboxKind, id: number): string {
+    return `${KEY_PREFIXES[kind]}-${id}`;
+}
+
+/** Waits 1, 2, 4… minutes after each failed attempt, up to six hours. */
+export function retryDelayMs(attempts: number): number {
+    return Math.min(MINUTE_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/** Reads a stored payload back, reviving the dates JSON turned into strings. */
+export function parseOutboxPayload(raw: string | null): OutboxPayload {
+    const payload: OutboxPayload = raw ? JSON.parse(raw) : {};
+    if (payload.cooldownFlag) {
+        payload.cooldownFlag = {
+            ...payload.cooldownFlag,
+            denial: { ...payload.cooldownFlag.denial, denied_at: new Date(payload.cooldownFlag.denial.denied_at) },
+            eligibleAt: new Date(payload.cooldownFlag.eligibleAt)
+        };
+    }
+    return payload;
+}
+
+export function describeOutboxMessage(message: Pick<OutboxMessage, 'kind' | 'form_id'>): string {
+    const labels: Record<OutboxKind, string> = {
+        new_application: 'New application announcement',
+        accepted: 'Acceptance notice',
+        denied: 'Denial notice'
+    };
+    return `${labels[message.kind]} for #${message.form_id}`;
+}
+
+/**
+ * The channel post is both the fallback for a failed DM and, in `both` mode,
+ * a part of its own, so a message is only done once any channel post it
+ * attempted went through.
+ */
+function assertDelivered(deliveries: NotificationDelivery[]): void {
+    if (deliveries.some(delivery => delivery.method === 'channel' && delivery.status === 'failed')) {
+        throw new Error(deliveries.map(delivery => delivery.detail).filter(Boolean).join('; ') || 'Nothing was delivered');
+    }
+}
+
+export interface OutboxDispatchResult {
+    sent: number;
+    retrying: number;
+    failed: number;
+}
+
+/**
+ * Delivers due outbox messages. Each message is sent with its idempotency key
+ * as the Discord nonce and is only marked sent once every part reached Discord;
+ * otherwise the missing parts are retried with backoff and, after the last
+ * attempt, the message is marked failed and reported in the staff channel.
+ */
+export class NotificationOutboxDispatcher {
+    private readonly notificationService: NotificationService;
+    private readonly accountLinkService: AccountLinkService;
+
+    constructor(notificationService: NotificationService, accountLinkService: AccountLinkService) {
+        this.notificationService = notificationService;
+        this.accountLinkService = accountLinkService;
+    }
+
+    async dispatch(databaseService: DatabaseService, limit: number = 25): Promise<OutboxDispatchResult> {
+        const result: OutboxDispatchResult = { sent: 0, retrying: 0, failed: 0 };
+
+        for (const message of await databaseService.getDueOutboxMessages(limit)) {
+            const attempts = message.attempts + 1;
+            try {
+                await this.deliver(databaseService, message);
+                await databaseService.markOutboxSent(message.id, attempts);
+                result.sent++;
+            } catch (error) {
+                const detail = error instanceof Error ? error.message : String(error);
+                if (attempts >= MAX_OUTBOX_ATTEMPTS) {
+                    console.error(`Giving up on ${message.idempotency_key} after ${attempts} attempts: ${detail}`);
+                    await databaseService.markOutboxFailed(message.id, attempts, detail);
+                    await this.notificationService.notifyOutboxFailure({ ...message, attempts, last_error: detail });
+                    result.failed++;
+                } else {
+                    console.warn(`Delivery of ${message.idempotency_key} failed (attempt ${attempts}): ${detail}`);
+                    await databaseService.rescheduleOutboxMessage(
+                        message.id, attempts, new Date(Date.now() + retryDelayMs(attempts)), detail
+                    );
+                    result.retrying++;
+                }
+            }
+        }
+        return result;
+    }
+
+    private async deliver(databaseService: DatabaseService, message: OutboxMessage): Promise<void> {
+        const application = await databaseService.getApplication(message.form_id);
+        if (!application) {
+            throw new Error(`application #${message.form_id} is not tracked`);
+        }
+        const discordIds = await this.accountLinkService.resolveDiscordIds(databaseService, [application]);
+        const discordId = discordIds.get(application.user_id);
+        const nonce = message.idempotency_key;
+
+        switch (message.kind) {
+            case 'new_application': {
+                const routing = new ReviewerRouting(await databaseService.getReviewerRoutes());
+                const post = await this.notificationService.announceNewApplication(
+                    application, routing, discordId, message.payload.cooldownFlag, message.payload.eligibility, nonce
+                );
+                await databaseService.saveApplicationPosts([post]);
+                return;
+            }
+            case 'accepted': {
+                const routing = new ReviewerRouting(await databaseService.getReviewerRoutes());
+                const deliveries = await this.notificationService.notifyAcceptedUser(
+                    application, routing, discordId, nonce, await this.deliveredParts(databaseService, message)
+                );
+                await databaseService.saveNotificationDeliveries(deliveries);
+                assertDelivered(deliveries);
+                return;
+            }
+            case 'denied': {
+                const deliveries = await this.notificationService.notifyDeniedUser(
+                    { ...application, denial_reason: message.payload.denial_reason, denial_note: message.payload.denial_note },
+                    discordId,
+                    nonce,
+                    await this.deliveredParts(databaseService, message)
+                );
+                await databaseService.saveNotificationDeliveries(deliveries);
+                assertDelivered(deliveries);
+                return;
+            }
+        }
+    }
+
+    /** What earlier attempts at this message already got through, so a retry only sends the rest. */
+    private async deliveredParts(databaseService: DatabaseService, message: OutboxMessage): Promise<Set<DeliveryMethod>> {
+        if (message.attempts === 0) {
+            return new Set();
+        }
+        const records = await databaseService.getNotificationDeliveries(message.form_id);
+        return new Set(records
+            .filter(record => record.outcome === message.kind && record.status === 'delivered'
+                && new Date(record.created_at) >= new Date(message.created_at))
+            .map(record => record.method));
+    }
+}
@@ -1,47 +1,35 @@
-import { Client, TextChannel, EmbedBuilder, ButtonBuilder, ButtonStyle, ActionRowBuilder, Guild, Colors } from "discord.js";
+import {
+    Client, TextChannel, EmbedBuilder, ButtonBuilder, ButtonStyle, ActionRowBuilder, Colors, Message, BaseMessageOptions
+} from "discord.js";
 import { AcceptedUsers, DeniedUsers, Form1Submission } from "./request_perscom";
-
-const DISCORD_IDS = {
-    SO_REVIEWER_1: '667833642248175673',
-    SO_REVIEWER_2: '492142030831616010',
-    OTHER_REVIEWER: '249242679211196417'
-} as const;
-
-const POSITIONS = {
-    SO_OPERATOR: 'SO Special Warfare Operator'
-} as const;
-
-const AGE_REQUIREMENT = 16;
-const REAPPLY_DAYS = 14;
-
-type DiscordUser = {
-    username: string;
-    discord_id: string;
-    nickname: string | null;
-    displayName: string;
-};
+import { ReviewAction, reviewCustomId } from "./reviewActions";
+import { DEFAULT_DENIAL_REASON } from "./applicationLifecycle";
+import { ReviewerRouting } from "./reviewerRouting";
+import { CooldownFlag } from "./reapplicationCooldown";
+import { ApplicationPost } from "./reviewReminders";
+import { bookInterviewCustomId } from "./interviewActions";
+import {
+    DEFAULT_DELIVERY_MODES, DeliveryMethod, DeliveryOutcome, NotificationDelivery, NotificationDeliveryModes
+} from "./notificationDelivery";
+import { OutboxMessage, describeOutboxMessage } from "./notificationOutbox";
+import { EligibilityStatus, EligibilitySummary } from "./eligibility";
 
 export class NotificationService {
     private client: Client;
     private readonly mainChannelId: string;
     private readonly newSubmissionsChannelId: string;
+    private readonly deliveryModes: NotificationDeliveryModes;
 
-    constructor(client: Client, mainChannelId: string, newSubmissionsChannelId: string) {
+    constructor(
+        client: Client,
+        mainChannelId: string,
+        newSubmissionsChannelId: string,
+        deliveryModes: NotificationDeliveryModes = DEFAULT_DELIVERY_MODES
+    ) {
         this.client = client;
         this.mainChannelId = mainChannelId;
         this.newSubmissionsChannelId = newSubmissionsChannelId;
-    }
-
-    private calculateAge(dateOfBirth: string): number {
-        const birthDate = new Date(dateOfBirth);
-        const today = new Date();
-        let age = today.getFullYear() - birthDate.getFullYear();
-        const monthDifference = today.getMonth() - birthDate.getMonth();
-        
-        if (monthDifference < 0 || (monthDifference === 0 && today.getDate() < birthDate.getDate())) {
-            age--;
-        }
-        return age;
+        this.deliveryModes = deliveryModes;
     }
 
     private async getDiscordChannel(channelId: string): Promise<TextChannel | null> {
@@ -53,73 +41,86 @@ export class NotificationService {
         return channel;
     }
 
-    private async getGuildMembers(guild: Guild): Promise<DiscordUser[]> {
-        try {
-            const members = await guild.members.fetch();
-            return members.map(member => ({
-                username: member.user.username,
-                discord_id: member.user.id,
-                nickname: member.nickname,
-                displayName: member.displayName
-            }));
-        } catch (error) {
-            console.error('Error fetching guild members:', error);
-            return [];
-        }
+    private createApplicationButton(discordName: string, formId: number): ButtonBuilder {
+        return new ButtonBuilder()
+            .setLabel(`View ${discordName}'s Application`)
+            .setStyle(ButtonStyle.Link)
+            .setURL(`https://nswg-1.com/admin/perscom/submissions/${formId}`);
     }
 
-    private findDiscordUser(discordUsers: DiscordUser[], savedDiscordName: string, firstName?: string): DiscordUser | undefined {
-        console.log('Searching for user:', { savedDiscordName, firstName });
-        
-        const cleanDiscordName = savedDiscordName.replace(/\s+/g, '').toLowerCase();
-        
-        let user = discordUsers.find(user => 
-            user.username.toLowerCase() === cleanDiscordName
+    private createReviewRow(submission: Form1Submission, actions: ReviewAction[]): ActionRowBuilder<ButtonBuilder> {
+        const styles: Record<ReviewAction, [string, ButtonStyle]> = {
+            accept: ['Accept', ButtonStyle.Success],
+            deny: ['Deny', ButtonStyle.Danger],
+            hold: ['Hold', ButtonStyle.Secondary]
+        };
+
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            this.createApplicationButton(submission.discord_name, submission.form_id),
+            ...actions.map(action => new ButtonBuilder()
+                .setCustomId(reviewCustomId(action, submission.form_id))
+                .setLabel(styles[action][0])
+                .setStyle(styles[action][1]))
         );
+    }
 
-        if (!user) {
-            const potentialMatches = discordUsers.filter(user => 
-                user.username.toLowerCase().startsWith(cleanDiscordName)
-            );
+    /** Tells staff what a dry-run cycle would have written. */
+    async notifyDryRun(skippedWrites: string[]): Promise<void> {
+        try {
+            const channel = await this.getDiscordChannel(this.newSubmissionsChannelId);
+            if (!channel) return;
 
-            if (potentialMatches.length > 0) {
-                user = potentialMatches.sort((a, b) => 
-                    Math.abs(a.username.length - cleanDiscordName.length) - 
-                    Math.abs(b.username.length - cleanDiscordName.length)
-                )[0];
+            const lines = skippedWrites.slice(0, 30).map(write => `• ${write}`);
+            if (skippedWrites.length > lines.length) {
+                lines.push(`…and ${skippedWrites.length - lines.length} more`);
             }
+            const embed = new EmbedBuilder()
+                .setColor(Colors.Grey)
+                .setTitle('PERSCOM Dry Run')
+                .setDescription(`Nothing was written. The last cycle would have:\n${lines.join('\n')}`.slice(0, 4096))
+                .setTimestamp();
+            await channel.send({ embeds: [embed] });
+        } catch (error) {
+            console.error("Error in notifyDryRun:", error);
         }
+    }
 
-        if (!user && firstName) {
-            user = discordUsers.find(user => 
-                user.displayName === firstName ||
-                user.nickname === firstName
-            );
-        }
+    /**
+     * Rewrites a new-application post after a reviewer decides on it: the embed
+     * records who decided and when, and only undecided actions stay clickable.
+     */
+    async markReviewDecision(
+        message: Message,
+        submission: Form1Submission,
+        action: ReviewAction,
+        reviewerId: string,
+        detail?: string
+    ): Promise<void> {
+        const outcomes: Record<ReviewAction, [string, number]> = {
+            accept: ['Accepted', Colors.Green],
+            deny: ['Denied', Colors.Red],
+            hold: ['On hold', Colors.Yellow]
+        };
+        const [label, color] = outcomes[action];
+        const decidedAt = Math.floor(Date.now() / 1000);
 
-        if (user) {
-            console.log('Found user:', {
-                originalDiscordName: savedDiscordName,
-                cleanedDiscordName: cleanDiscordName,
-                searchedFirstName: firstName,
-                foundUser: {
-                    username: user.username,
-                    displayName: user.displayName,
-                    nickname: user.nickname
-                }
-            });
+        const embed = EmbedBuilder.from(message.embeds[0]).setColor(color);
+        const decisionField = {
+            name: 'Decision',
+            value: `${label} by <@${reviewerId}> <t:${decidedAt}:f>${detail ? `\n${detail}` : ''}`
+        };
+        const existingIndex = (embed.data.fields || []).findIndex(field => field.name === 'Decision');
+        if (existingIndex >= 0) {
+            embed.spliceFields(existingIndex, 1, decisionField);
         } else {
-            console.log('No user found - will use discord_name without mention');
+            embed.addFields(decisionField);
         }
 
-        return user;
-    }
-
-    private createApplicationButton(discordName: string, formId: number): ButtonBuilder {
-        return new ButtonBuilder()
-            .setLabel(`View ${discordName}'s Application`)
-            .setStyle(ButtonStyle.Link)
-            .setURL(`https://nswg-1.com/admin/perscom/submissions/${formId}`);
+        const remaining: ReviewAction[] = action === 'hold' ? ['accept', 'deny'] : [];
+        await message.edit({
+            embeds: [embed],
+            components: [this.createReviewRow(submission, remaining)]
+        });
     }
 
     private formatDateOfBirth(dateString: string): string {
@@ -136,28 +137,66 @@ export class NotificationService {
         }
     }
 
-    private createNewApplicationEmbed(submission: Form1Submission, isSOPosition: boolean): EmbedBuilder {
+    private createNewApplicationEmbed(
+        submission: Form1Submission,
+        reviewerMentions: string[],
+        discordId?: string,
+        cooldownFlag?: CooldownFlag,
+        eligibility?: EligibilitySummary
+    ): EmbedBuilder {
         const formattedDOB = submission.date_of_birth ? this.formatDateOfBirth(submission.date_of_birth) : 'Not provided';
+        const reviewers = reviewerMentions.length > 0 ? reviewerMentions.join(' ') : 'Staff,';
         
-        return new EmbedBuilder()
+        const embed = new EmbedBuilder()
             .setColor(Colors.Blue)
             .setTitle('New Application Received!')
-            .setDescription(`${isSOPosition ? 
-                `<@${DISCORD_IDS.SO_REVIEWER_1}> <@${DISCORD_IDS.SO_REVIEWER_2}>` : 
-                `<@${DISCORD_IDS.OTHER_REVIEWER}>`} please review this application.`)
+            .setDescription(`${reviewers} please review this application.`)
             .addFields(
                 { name: 'Applicant Name', value: submission.first_name, inline: true },
-                { name: 'Discord', value: submission.discord_name, inline: true },
+                { name: 'Discord', value: discordId ? `<@${discordId}>` : `${submission.discord_name} (not linked)`, inline: true },
                 { name: 'Position', value: submission.preferred_position, inline: true },
                 { name: 'Date of Birth', value: formattedDOB, inline: true }
             )
             .setTimestamp();
+
+        if (cooldownFlag) {
+            const deniedAt = Math.floor(new Date(cooldownFlag.denial.denied_at).getTime() / 1000);
+            const eligibleAt = Math.floor(cooldownFlag.eligibleAt.getTime() / 1000);
+            embed.setColor(Colors.Orange).addFields({
+                name: '⚠️ Reapplied During Cooldown',
+                value: [
+                    `Denied <t:${deniedAt}:D> (matched on ${cooldownFlag.matchedOn.join(', ')})`,
+                    `Reason: ${cooldownFlag.denial.reason_label ?? cooldownFlag.denial.reason_message}`,
+                    `Eligible to reapply <t:${eligibleAt}:R>`
+                ].join('\n').slice(0, 1024)
+            });
+        }
+
+        if (eligibility && eligibility.checks.length > 0) {
+            const icons: Record<EligibilityStatus, string> = { pass: '✅', fail: '❌', unknown: '❔' };
+            embed.addFields({
+                name: 'Eligibility',
+                value: eligibility.checks
+                    .map(check => `${icons[check.status]} **${check.label}**: ${check.detail}`)
+                    .join('\n').slice(0, 1024)
+            });
+            if (eligibility.checks.some(check => check.status === 'fail')) {
+                embed.setColor(Colors.Orange);
+            }
+        }
+        if (eligibility?.action) {
+            embed.setColor(eligibility.action === 'deny' ? Colors.Red : Colors.Yellow).addFields({
+                name: eligibility.action === 'deny' ? 'Automatically Denied' : 'Automatically Held',
+                value: (eligibility.action === 'deny'
+                    ? `Failed "${eligibility.rule}". Their PERSCOM deletion waits for an admin; use the buttons below to override.`
+                    : `Failed "${eligibility.rule}". Use the buttons below to override.`).slice(0, 1024)
+            });
+        }
+        return embed;
     }
 
-    private createAcceptedEmbed(userDetails: any): EmbedBuilder {
-        const mentionString = userDetails.preferred_position === POSITIONS.SO_OPERATOR
-            ? `<@${DISCORD_IDS.SO_REVIEWER_1}> or <@${DISCORD_IDS.SO_REVIEWER_2}>`
-            : `<@${DISCORD_IDS.OTHER_REVIEWER}>`;
+    private createAcceptedEmbed(userDetails: any, reviewerMentions: string[]): EmbedBuilder {
+        const mentionString = reviewerMentions.length > 0 ? reviewerMentions.join(' or ') : 'a staff member';
 
         const userReference = userDetails.discord_id !== 'Not Found' 
             ? `<@${userDetails.discord_id}>`
@@ -168,18 +207,21 @@ export class NotificationService {
             .setTitle('Application Accepted!')
             .setDescription(`Congratulations ${userReference}! Your application has been accepted.`)
             .addFields(
-                { name: 'Next Steps', value: `Please get in touch with ${mentionString} on Discord for an interview.` },
+                {
+                    name: 'Next Steps',
+                    value: `Press **Book Interview** below to pick an interview slot, or get in touch with ${mentionString} on Discord.`
+                },
                 { name: 'Position', value: userDetails.preferred_position, inline: true }
             )
             .setTimestamp();
     }
 
-    private createDeniedEmbed(userDetails: any, reason: string): EmbedBuilder {
+    private createDeniedEmbed(userDetails: any, reason: string, note?: string | null): EmbedBuilder {
         const userReference = userDetails.discord_id !== 'Not Found' 
             ? `<@${userDetails.discord_id}>`
             : userDetails.discord_name;
 
-        return new EmbedBuilder()
+        const embed = new EmbedBuilder()
             .setColor(Colors.Red)
             .setTitle('Application Status Update')
             .setDescription(`${userReference}, your application has been reviewed.`)
@@ -188,132 +230,150 @@ export class NotificationService {
                 { name: 'Reason', value: reason, inline: true }
             )
             .setTimestamp();
+
+        if (note) {
+            embed.addFields({ name: 'Reviewer Note', value: note });
+        }
+        return embed;
     }
 
-    async notifyNewApplications(newSubmissions: Form1Submission[]) {
-        try {
-            const channel = await this.getDiscordChannel(this.newSubmissionsChannelId);
-            if (!channel) return;
+    /** Like `getDiscordChannel`, but for deliveries that must be retried when the channel is missing. */
+    private async requireDiscordChannel(channelId: string): Promise<TextChannel> {
+        const channel = this.client.channels.cache.get(channelId) as TextChannel | undefined;
+        if (!channel) {
+            throw new Error(`Channel with ID ${channelId} not found`);
+        }
+        return channel;
+    }
 
-            const soSubmissions = newSubmissions.filter(s => s.preferred_position === POSITIONS.SO_OPERATOR);
-            const otherSubmissions = newSubmissions.filter(s => s.preferred_position !== POSITIONS.SO_OPERATOR);
-
-            for (const submission of soSubmissions) {
-                const embed = this.createNewApplicationEmbed(submission, true);
-                const button = this.createApplicationButton(submission.discord_name, submission.form_id);
-                const row = new ActionRowBuilder<ButtonBuilder>().addComponents(button);
-                const mentionContent = `<@${DISCORD_IDS.SO_REVIEWER_1}> <@${DISCORD_IDS.SO_REVIEWER_2}>`;
-                
-                await channel.send({ 
-                    content: mentionContent,
-                    embeds: [embed], 
-                    components: [row] 
-                });
-            }
+    /**
+     * Posts a new application for review. Errors are thrown so the outbox can
+     * retry; the nonce stops Discord posting a retried message twice.
+     */
+    async announceNewApplication(
+        submission: Form1Submission,
+        routing: ReviewerRouting,
+        discordId: string | undefined,
+        cooldownFlag?: CooldownFlag,
+        eligibility?: EligibilitySummary,
+        nonce?: string
+    ): Promise<ApplicationPost> {
+        const channel = await this.requireDiscordChannel(this.newSubmissionsChannelId);
+        const reviewerMentions = routing.mentionsFor(submission.preferred_position);
+        const embed = this.createNewApplicationEmbed(submission, reviewerMentions, discordId, cooldownFlag, eligibility);
+        const row = this.createReviewRow(submission, ['accept', 'deny', 'hold']);
 
-            for (const submission of otherSubmissions) {
-                const embed = this.createNewApplicationEmbed(submission, false);
-                const button = this.createApplicationButton(submission.discord_name, submission.form_id);
-                const row = new ActionRowBuilder<ButtonBuilder>().addComponents(button);
-                const mentionContent = `<@${DISCORD_IDS.OTHER_REVIEWER}>`;
-                
-                await channel.send({ 
-                    content: mentionContent,
-                    embeds: [embed], 
-                    components: [row] 
-                });
-            }
-        } catch (error) {
-            console.error("Error in notifyNewApplications:", error);
-        }
+        const message = await channel.send({
+            content: reviewerMentions.join(' '),
+            embeds: [embed],
+            components: [row],
+            ...(nonce ? { nonce, enforceNonce: true } : {})
+        });
+        return { form_id: submission.form_id, channel_id: channel.id, message_id: message.id };
     }
 
-    async notifyAcceptedUsers(newAcceptedUsers: AcceptedUsers[], data: Form1Submission[]) {
-        try {
-            const channel = await this.getDiscordChannel(this.mainChannelId);
-            if (!channel) return;
-    
-            const form1DataMap = new Map(data.map(submission => [submission.user_id, submission.discord_name]));
-    
-            const newAcceptedUserDetails = newAcceptedUsers.map(user => ({
-                ...user,
-                discord_name: form1DataMap.get(user.user_id) || 'Not Found',
-            }));
-    
-            const guild = this.client.guilds.cache.get(channel.guild.id);
-            if (!guild) {
-                console.error('Guild not found.');
-                return;
+    /**
+     * Sends an outcome to one applicant according to the outcome's delivery
+     * mode. A DM that cannot be sent (no linked account, DMs closed) falls back
+     * to the channel. Parts in `delivered` reached the applicant on an earlier
+     * attempt and are not sent again. Returns one record per attempt.
+     */
+    private async deliverOutcome(
+        outcome: DeliveryOutcome,
+        channel: TextChannel,
+        user: { user_id: number; form_id?: number },
+        discordId: string | undefined,
+        message: BaseMessageOptions,
+        nonce?: string,
+        delivered: ReadonlySet<DeliveryMethod> = new Set()
+    ): Promise<NotificationDelivery[]> {
+        const options = nonce ? { nonce, enforceNonce: true } : {};
+        const mode = this.deliveryModes[outcome];
+        const base = { form_id: user.form_id ?? null, perscom_user_id: user.user_id, discord_id: discordId ?? null, outcome };
+        const deliveries: NotificationDelivery[] = [];
+        let postInChannel = mode !== 'dm';
+
+        if (mode !== 'channel' && !delivered.has('dm')) {
+            if (!discordId) {
+                deliveries.push({ ...base, method: 'dm', status: 'skipped', detail: 'No linked Discord account' });
+                postInChannel = true;
+            } else {
+                try {
+                    const recipient = await this.client.users.fetch(discordId);
+                    await recipient.send({ ...message, ...options });
+                    deliveries.push({ ...base, method: 'dm', status: 'delivered', detail: null });
+                } catch (error) {
+                    const detail = error instanceof Error ? error.message : String(error);
+                    console.warn(`Could not DM ${discordId} about their ${outcome} application: ${detail}`);
+                    deliveries.push({ ...base, method: 'dm', status: 'failed', detail });
+                    postInChannel = true;
+                }
             }
-    
-            const discordUsers = await this.getGuildMembers(guild);
-    
-            const newAcceptedUserDetailsWithDiscordId = newAcceptedUserDetails.map(user => {
-                const formData = data.find(d => d.user_id === user.user_id);
-                const discordUser = this.findDiscordUser(discordUsers, user.discord_name, formData?.first_name);
-                return {
-                    ...user,
-                    discord_id: discordUser ? discordUser.discord_id : 'Not Found',
-                };
-            });
-    
-            for (const userDetails of newAcceptedUserDetailsWithDiscordId) {
-                const embed = this.createAcceptedEmbed(userDetails);
-                const mentionInContent = userDetails.discord_id !== 'Not Found' ? `<@${userDetails.discord_id}>` : '';
-                await channel.send({ 
-                    content: mentionInContent,
-                    embeds: [embed] 
-                });
+        }
+
+        if (postInChannel && !delivered.has('channel')) {
+            try {
+                await channel.send({ ...message, ...options, content: discordId ? `<@${discordId}>` : '' });
+                deliveries.push({ ...base, method: 'channel', status: 'delivered', detail: null });
+            } catch (error) {
+                const detail = error instanceof Error ? error.message : String(error);
+                deliveries.push({ ...base, method: 'channel', status: 'failed', detail });
             }
-        } catch (error) {
-            console.error("Error in notifyAcceptedUsers:", error);
         }
+
+        return deliveries;
     }
 
-    async notifyDeniedUsers(newDeniedUsers: DeniedUsers[], data: Form1Submission[]) {
+    async notifyAcceptedUser(
+        user: AcceptedUsers,
+        routing: ReviewerRouting,
+        discordId: string | undefined,
+        nonce?: string,
+        delivered?: ReadonlySet<DeliveryMethod>
+    ): Promise<NotificationDelivery[]> {
+        const channel = await this.requireDiscordChannel(this.mainChannelId);
+        const userDetails = { ...user, discord_id: discordId ?? 'Not Found' };
+        const embed = this.createAcceptedEmbed(userDetails, routing.mentionsFor(user.preferred_position));
+        const components = user.form_id !== undefined
+            ? [new ActionRowBuilder<ButtonBuilder>().addComponents(new ButtonBuilder()
+                .setCustomId(bookInterviewCustomId(user.form_id))
+                .setLabel('Book Interview')
+                .setStyle(ButtonStyle.Primary))]
+            : [];
+        return this.deliverOutcome('accepted', channel, user, discordId, { embeds: [embed], components }, nonce, delivered);
+    }
+
+    async notifyDeniedUser(
+        user: DeniedUsers,
+        discordId: string | undefined,
+        nonce?: string,
+        delivered?: ReadonlySet<DeliveryMethod>
+    ): Promise<NotificationDelivery[]> {
+        const channel = await this.requireDiscordChannel(this.mainChannelId);
+        const reason = user.denial_reason || DEFAULT_DENIAL_REASON;
+        const embed = this.createDeniedEmbed({ ...user, discord_id: discordId ?? 'Not Found' }, reason, user.denial_note);
+        return this.deliverOutcome('denied', channel, user, discordId, { embeds: [embed] }, nonce, delivered);
+    }
+
+    /** Tells staff that a notification was given up on, so someone can send it by hand. */
+    async notifyOutboxFailure(message: OutboxMessage): Promise<void> {
         try {
-            const channel = await this.getDiscordChannel(this.mainChannelId);
+            const channel = await this.getDiscordChannel(this.newSubmissionsChannelId);
             if (!channel) return;
-    
-            const form1DataMap = new Map(data.map(submission => [submission.user_id, submission.discord_name]));
-            const deniedUserDetails = newDeniedUsers.map(user => ({
-                ...user,
-                discord_name: form1DataMap.get(user.user_id) || 'Not Found',
-            }));
-    
-            const guild = this.client.guilds.cache.get(channel.guild.id);
-            if (!guild) {
-                console.error("Guild not found.");
-                return;
-            }
-    
-            const discordUsers = await this.getGuildMembers(guild);
-    
-            const deniedUserDetailsWithDiscordId = deniedUserDetails.map(user => {
-                const formData = data.find(d => d.user_id === user.user_id);
-                const discordUser = this.findDiscordUser(discordUsers, user.discord_name, formData?.first_name);
-                return {
-                    ...user,
-                    discord_id: discordUser ? discordUser.discord_id : 'Not Found',
-                };
-            });
-    
-            for (const userDetails of deniedUserDetailsWithDiscordId) {
-                if (userDetails.discord_id !== 'Not Found' && userDetails.date_of_birth) {
-                    const reason = this.calculateAge(userDetails.date_of_birth) < AGE_REQUIREMENT
-                        ? `Age requirement not met. Minimum age requirement is ${AGE_REQUIREMENT}+.`
-                        : `Application denied due to lack of effort. You may reapply in ${REAPPLY_DAYS} days.`;
-
-                    const embed = this.createDeniedEmbed(userDetails, reason);
-                    const mentionInContent = `<@${userDetails.discord_id}>`;
-                    await channel.send({ 
-                        content: mentionInContent,
-                        embeds: [embed] 
-                    });
-                }
-            }
+
+            const embed = new EmbedBuilder()
+                .setColor(Colors.Red)
+                .setTitle('Notification Not Delivered')
+                .setDescription(`${describeOutboxMessage(message)} failed ${message.attempts} times and will not be retried. `
+                    + 'Fix the cause, then use `/nswg-admin outbox retry`.')
+                .addFields(
+                    { name: 'Outbox Message', value: `\`${message.id}\` (${message.idempotency_key})`, inline: true },
+                    { name: 'Last Error', value: (message.last_error ?? 'Unknown error').slice(0, 1024) }
+                )
+                .setTimestamp();
+            await channel.send({ embeds: [embed], allowedMentions: { parse: [] } });
         } catch (error) {
-            console.error("Error in notifyDeniedUsers:", error);
+            console.error("Error in notifyOutboxFailure:", error);
         }
     }
 }
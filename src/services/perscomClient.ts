@@ -0,0 +1,125 @@
+import axios, { AxiosInstance, Method } from 'axios';
+
+export const DEFAULT_PERSCOM_BASE_URL = 'https://api.perscom.io/v2';
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+export interface PerscomClientOptions {
+    baseUrl?: string;
+    maxRetries?: number;
+    retryDelayMs?: number;
+    maxRetryDelayMs?: number;
+}
+
+export class PerscomError extends Error {
+    constructor(message: string, public readonly method: string, public readonly path: string) {
+        super(message);
+        this.name = 'PerscomError';
+    }
+}
+
+export class PerscomHttpError extends PerscomError {
+    constructor(
+        method: string,
+        path: string,
+        public readonly status: number,
+        public readonly body: unknown
+    ) {
+        super(`PERSCOM ${method} ${path} failed with status ${status}`, method, path);
+        this.name = 'PerscomHttpError';
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_STATUSES.includes(this.status);
+    }
+}
+
+export class PerscomNetworkError extends PerscomError {
+    constructor(method: string, path: string, public readonly cause: unknown) {
+        super(`PERSCOM ${method} ${path} failed: ${cause instanceof Error ? cause.message : 'Unknown error'}`, method, path);
+        this.name = 'PerscomNetworkError';
+    }
+}
+
+export class PerscomClient {
+    private readonly http: AxiosInstance;
+    private readonly maxRetries: number;
+    private readonly retryDelayMs: number;
+    private readonly maxRetryDelayMs: number;
+
+    constructor(bearerToken: string, options: PerscomClientOptions = {}) {
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.maxRetryDelayMs = options.maxRetryDelayMs ?? 30000;
+        this.http = axios.create({
+            baseURL: (options.baseUrl || DEFAULT_PERSCOM_BASE_URL).replace(/\/+$/, ''),
+            headers: {
+                'Authorization': `Bearer ${bearerToken}`,
+                'Content-Type': 'application/json'
+            },
+            validateStatus: () => true
+        });
+    }
+
+    public get<T>(path: string, params?: Record<string, string | number>): Promise<T> {
+        return this.request<T>('GET', path, undefined, params);
+    }
+
+    public post<T>(path: string, body?: unknown): Promise<T> {
+        return this.request<T>('POST', path, body);
+    }
+
+    public delete<T>(path: string): Promise<T> {
+        return this.request<T>('DELETE', path);
+    }
+
+    public async request<T>(
+        method: Method,
+        path: string,
+        body?: unknown,
+        params?: Record<string, string | number>
+    ): Promise<T> {
+        const verb = method.toUpperCase();
+        let attempt = 0;
+
+        while (true) {
+            let error: PerscomError;
+            let retryAfterMs: number | null = null;
+
+            try {
+                const response = await this.http.request<T>({ method, url: path, data: body, params });
+                if (response.status >= 200 && response.status < 300) {
+                    return response.data;
+                }
+                error = new PerscomHttpError(verb, path, response.status, response.data);
+                retryAfterMs = this.parseRetryAfter(response.headers['retry-after']);
+            } catch (err) {
+                error = new PerscomNetworkError(verb, path, err);
+            }
+
+            const retryable = error instanceof PerscomNetworkError || (error as PerscomHttpError).retryable;
+            if (!retryable || attempt >= this.maxRetries) {
+                throw error;
+            }
+
+            const delay = Math.min(retryAfterMs ?? this.retryDelayMs * 2 ** attempt, this.maxRetryDelayMs);
+            console.warn(`${error.message}, retrying in ${delay}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            attempt++;
+        }
+    }
+
+    private parseRetryAfter(header: unknown): number | null {
+        if (typeof header !== 'string' || header.trim() === '') {
+            return null;
+        }
+
+        const seconds = Number(header);
+        if (!Number.isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(header);
+        return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+}
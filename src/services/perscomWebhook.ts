@@ -0,0 +1,88 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Request, Response } from 'express';
+
+export const PERSCOM_WEBHOOK_EVENTS = {
+    SUBMISSION_CREATED: 'submission.created',
+    STATUS_CHANGED: 'submission.status_changed'
+} as const;
+
+export type PerscomWebhookEventType = typeof PERSCOM_WEBHOOK_EVENTS[keyof typeof PERSCOM_WEBHOOK_EVENTS];
+
+export interface PerscomWebhookEvent {
+    type: PerscomWebhookEventType;
+    submissionId: number | null;
+}
+
+/** Requests whose JSON body parser kept the raw bytes, which the signature covers. */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+const APPLICATION_FORM_ID = 1;
+
+export function signWebhookPayload(payload: Buffer | string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/** Checks a hex HMAC-SHA256 of the raw body, with or without a `sha256=` prefix. */
+export function verifyWebhookSignature(payload: Buffer, signature: string | undefined, secret: string): boolean {
+    if (!signature) {
+        return false;
+    }
+    const expected = Buffer.from(signWebhookPayload(payload, secret), 'hex');
+    const received = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Reads `{ event, data }` payloads. Returns null for events the bot does not
+ * handle and for submissions of forms other than the application form.
+ */
+export function parseWebhookEvent(body: unknown): PerscomWebhookEvent | null {
+    if (!body || typeof body !== 'object') {
+        return null;
+    }
+    const { event, data } = body as { event?: unknown; data?: Record<string, unknown> };
+    const types = Object.values(PERSCOM_WEBHOOK_EVENTS) as string[];
+    if (typeof event !== 'string' || !types.includes(event)) {
+        return null;
+    }
+    if (data && typeof data.form_id === 'number' && data.form_id !== APPLICATION_FORM_ID) {
+        return null;
+    }
+
+    const submissionId = data?.submission_id ?? data?.id;
+    return {
+        type: event as PerscomWebhookEventType,
+        submissionId: typeof submissionId === 'number' ? submissionId : null
+    };
+}
+
+/**
+ * Express handler for PERSCOM webhooks. Verified events are handed to
+ * `onEvent` and acknowledged straight away; the work happens in the background.
+ */
+export function createPerscomWebhookHandler(
+    secret: string | null,
+    onEvent: (event: PerscomWebhookEvent) => void
+): (req: RawBodyRequest, res: Response) => void {
+    return (req, res) => {
+        if (!secret) {
+            res.status(503).json({ error: 'PERSCOM webhooks are not configured' });
+            return;
+        }
+        if (!req.rawBody || !verifyWebhookSignature(req.rawBody, req.header('Signature'), secret)) {
+            res.status(401).json({ error: 'Unauthorized: Invalid signature' });
+            return;
+        }
+
+        const event = parseWebhookEvent(req.body);
+        if (!event) {
+            res.status(202).json({ message: 'Event ignored' });
+            return;
+        }
+
+        console.log(`Received PERSCOM webhook ${event.type}`
+            + (event.submissionId !== null ? ` for submission ${event.submissionId}` : ''));
+        onEvent(event);
+        res.status(202).json({ message: 'Event accepted' });
+    };
+}
@@ -0,0 +1,192 @@
+/** Raid nights are planned in the unit's home timezone, so every raid date is an Eastern calendar date. */
+export const RAID_TIMEZONE = 'America/New_York';
+
+/** Attendance logged before this Eastern hour belongs to the previous night's raid. */
+export const RAID_DAY_ROLLOVER_HOUR = 6;
+
+/** First raid night with attendance data; nothing before it counts toward a rate. */
+export const TRACKING_START_DATE = new Date(Date.UTC(2025, 1, 8));
+export const TRACKING_START_KEY = TRACKING_START_DATE.toISOString().slice(0, 10);
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * A weekly raid night. Moving a raid night ends the old rule instead of
+ * deleting it, so past weeks keep counting the nights that were held.
+ */
+export interface RaidRule {
+    id: number;
+    /** 0 = Sunday, in Eastern time. */
+    weekday: number;
+    label: string | null;
+    /** `YYYY-MM-DD`, inclusive. */
+    effective_from: string;
+    /** `YYYY-MM-DD`, exclusive; null while the rule is current. */
+    effective_until: string | null;
+}
+
+export type RaidExceptionKind = 'extra' | 'cancelled';
+
+/** A one-off extra op or a cancelled raid night on one Eastern date. */
+export interface RaidException {
+    date: string;
+    kind: RaidExceptionKind;
+    label: string | null;
+}
+
+export interface ScheduledRaid {
+    date: string;
+    kind: 'weekly' | 'extra';
+    label: string | null;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const easternParts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: RAID_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+});
+
+function easternDate(timestamp: Date): { key: string; hour: number } {
+    const parts = Object.fromEntries(easternParts.formatToParts(timestamp).map(part => [part.type, part.value]));
+    return { key: `${parts.year}-${parts.month}-${parts.day}`, hour: Number(parts.hour) };
+}
+
+export function isDateKey(value: string): boolean {
+    if (!DATE_KEY_PATTERN.test(value)) {
+        return false;
+    }
+    return new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+export function dateKey(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+export function addDays(key: string, days: number): string {
+    const date = new Date(`${key}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(key: string): number {
+    return new Date(`${key}T00:00:00Z`).getUTCDay();
+}
+
+/** Today's date in Eastern time. */
+export function todayKey(now: Date = new Date()): string {
+    return easternDate(now).key;
+}
+
+/** The raid night an attendance timestamp belongs to, allowing raids to run past midnight. */
+export function raidDateKey(timestamp: Date): string {
+    const { key, hour } = easternDate(timestamp);
+    return hour < RAID_DAY_ROLLOVER_HOUR ? addDays(key, -1) : key;
+}
+
+export function formatDateKey(key: string): string {
+    return new Date(`${key}T12:00:00Z`).toLocaleDateString('en-US', {
+        weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+    });
+}
+
+/**
+ * Every question about which nights were raids goes through here: weekly
+ * rules in Eastern time, minus cancelled dates, plus extra ops.
+ */
+export class RaidSchedule {
+    readonly rules: RaidRule[];
+    readonly exceptions: RaidException[];
+    readonly trackingStart: string;
+    private readonly exceptionsByDate: Map<string, RaidException>;
+
+    constructor(rules: RaidRule[], exceptions: RaidException[], trackingStart: string = TRACKING_START_KEY) {
+        this.rules = rules;
+        this.exceptions = exceptions;
+        this.trackingStart = trackingStart;
+        this.exceptionsByDate = new Map(exceptions.map(exception => [exception.date, exception]));
+    }
+
+    raidOn(key: string): ScheduledRaid | null {
+        if (key < this.trackingStart) {
+            return null;
+        }
+        const exception = this.exceptionsByDate.get(key);
+        if (exception?.kind === 'cancelled') {
+            return null;
+        }
+        if (exception?.kind === 'extra') {
+            return { date: key, kind: 'extra', label: exception.label };
+        }
+
+        const weekday = weekdayOf(key);
+        const rule = this.rules.find(candidate => candidate.weekday === weekday
+            && candidate.effective_from <= key
+            && (!candidate.effective_until || key < candidate.effective_until));
+        return rule ? { date: key, kind: 'weekly', label: rule.label } : null;
+    }
+
+    isRaidDay(key: string): boolean {
+        return this.raidOn(key) !== null;
+    }
+
+    isCancelled(key: string): boolean {
+        return this.exceptionsByDate.get(key)?.kind === 'cancelled';
+    }
+
+    /** Raid dates from `from` to `to`, both inclusive. */
+    raidDays(from: string, to: string): string[] {
+        const days: string[] = [];
+        for (let key = from < this.trackingStart ? this.trackingStart : from; key <= to; key = addDays(key, 1)) {
+            if (this.isRaidDay(key)) {
+                days.push(key);
+            }
+        }
+        return days;
+    }
+
+    /** Weekly rules in effect on `key`, in weekday order. */
+    currentRules(key: string): RaidRule[] {
+        return this.rules
+            .filter(rule => rule.effective_from <= key && (!rule.effective_until || key < rule.effective_until))
+            .sort((a, b) => a.weekday - b.weekday);
+    }
+}
+
+export interface AttendanceTally {
+    /** Raid nights the member was expected at. */
+    raidDays: string[];
+    attended: string[];
+    /** Raid nights missed while excused; they count neither for nor against the rate. */
+    excused: string[];
+}
+
+/**
+ * Which raid nights from `from` to `to` had any attendance from `timestamps`.
+ * Nights in `excusedDays` are left out unless the member attended anyway.
+ */
+export function tallyAttendance(
+    schedule: RaidSchedule, timestamps: Date[], from: string, to: string, excusedDays: Set<string> = new Set()
+): AttendanceTally {
+    const present = new Set(timestamps.map(raidDateKey));
+    const tally: AttendanceTally = { raidDays: [], attended: [], excused: [] };
+    for (const day of schedule.raidDays(from, to)) {
+        if (present.has(day)) {
+            tally.raidDays.push(day);
+            tally.attended.push(day);
+        } else if (excusedDays.has(day)) {
+            tally.excused.push(day);
+        } else {
+            tally.raidDays.push(day);
+        }
+    }
+    return tally;
+}
+
+export function attendanceRate(tally: AttendanceTally): number {
+    return tally.raidDays.length > 0 ? Math.round((tally.attended.length / tally.raidDays.length) * 100) : 0;
+}
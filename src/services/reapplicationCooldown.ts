@@ -0,0 +1,102 @@
+import { Form1Submission } from "./request_perscom";
+
+/** Matches the "reapply in 14 days" wording of the seeded denial reasons. */
+export const DEFAULT_REAPPLY_COOLDOWN_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A denial kept after the PERSCOM user is deleted, keyed by every identity we know. */
+export interface DenialRecord {
+    form_id: number;
+    perscom_user_id: number;
+    discord_id: string | null;
+    email_address: string | null;
+    arma_3_id: string | null;
+    reason_label: string | null;
+    reason_message: string;
+    denied_at: Date;
+}
+
+export type CooldownMatch = 'Discord account' | 'email' | 'Arma 3 ID';
+
+export interface CooldownFlag {
+    denial: DenialRecord;
+    matchedOn: CooldownMatch[];
+    eligibleAt: Date;
+}
+
+export interface DenialIdentities {
+    discordIds: string[];
+    emails: string[];
+    armaIds: string[];
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+    const trimmed = email?.trim().toLowerCase();
+    return trimmed || null;
+}
+
+export function normalizeArmaId(armaId: string | null | undefined): string | null {
+    const trimmed = armaId?.trim();
+    return trimmed || null;
+}
+
+/** Earliest denial time that still blocks a reapplication today. */
+export function cooldownStart(cooldownDays: number, now: Date = new Date()): Date {
+    return new Date(now.getTime() - cooldownDays * DAY_MS);
+}
+
+export function identitiesFor(submissions: Form1Submission[], discordIds: Map<number, string>): DenialIdentities {
+    const present = (values: (string | null | undefined)[]) =>
+        Array.from(new Set(values.filter((value): value is string => !!value)));
+
+    return {
+        discordIds: present(submissions.map(submission => discordIds.get(submission.user_id))),
+        emails: present(submissions.map(submission => normalizeEmail(submission.email_address))),
+        armaIds: present(submissions.map(submission => normalizeArmaId(submission.arma_3_id)))
+    };
+}
+
+/**
+ * Flags submissions whose applicant was denied less than `cooldownDays` ago,
+ * using the most recent matching denial.
+ */
+export function findCooldownFlags(
+    submissions: Form1Submission[],
+    discordIds: Map<number, string>,
+    denials: DenialRecord[],
+    cooldownDays: number,
+    now: Date = new Date()
+): Map<number, CooldownFlag> {
+    const flags = new Map<number, CooldownFlag>();
+    const windowStart = cooldownStart(cooldownDays, now).getTime();
+    const recent = denials
+        .filter(denial => new Date(denial.denied_at).getTime() > windowStart)
+        .sort((a, b) => new Date(b.denied_at).getTime() - new Date(a.denied_at).getTime());
+
+    for (const submission of submissions) {
+        const discordId = discordIds.get(submission.user_id);
+        const email = normalizeEmail(submission.email_address);
+        const armaId = normalizeArmaId(submission.arma_3_id);
+
+        for (const denial of recent) {
+            if (denial.form_id === submission.form_id) continue;
+
+            const matchedOn: CooldownMatch[] = [];
+            if (discordId && denial.discord_id === discordId) matchedOn.push('Discord account');
+            if (email && normalizeEmail(denial.email_address) === email) matchedOn.push('email');
+            if (armaId && normalizeArmaId(denial.arma_3_id) === armaId) matchedOn.push('Arma 3 ID');
+
+            if (matchedOn.length > 0) {
+                flags.set(submission.form_id, {
+                    denial,
+                    matchedOn,
+                    eligibleAt: new Date(new Date(denial.denied_at).getTime() + cooldownDays * DAY_MS)
+                });
+                break;
+            }
+        }
+    }
+
+    return flags;
+}
@@ -1,4 +1,12 @@
-import axios from 'axios';
+import { PerscomClient, PerscomError, PerscomHttpError } from './perscomClient';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+export const SUBMISSION_STATUSES = {
+    ACCEPTED: 7,
+    DENIED: 8
+} as const;
+
+const STATUS_CONCURRENCY = 5;
 
 interface Submission {
     id: number;
@@ -17,8 +25,16 @@ interface Submission {
     label: string;
 }
 
+interface SubmissionsResponse {
+    data: Submission[];
+    meta: {
+        current_page: number;
+        last_page: number;
+    };
+}
+
 interface StatusResponse {
-    data: Status[];
+    data: SubmissionStatus[];
     links: {
         first: string;
         last: string;
@@ -41,7 +57,7 @@ interface StatusResponse {
     };
 }
 
-interface Status {
+export interface SubmissionStatus {
     id: number;
     name: string;
     color: string;
@@ -49,6 +65,27 @@ interface Status {
     created_at: string;
     updated_at: string;
     label: string;
+    /** When the status was attached to this submission; re-attaching refreshes it. */
+    pivot?: {
+        created_at?: string | null;
+        updated_at?: string | null;
+    };
+}
+
+/**
+ * The current status of a submission. PERSCOM lists attached statuses in no
+ * guaranteed order and re-attaching an existing status only touches its pivot,
+ * so the latest attachment time wins; list order only breaks ties.
+ */
+export function currentSubmissionStatus(statuses: SubmissionStatus[]): SubmissionStatus | null {
+    const attachedAt = (status: SubmissionStatus): number => {
+        const time = Date.parse(status.pivot?.updated_at ?? status.pivot?.created_at ?? status.updated_at);
+        return Number.isNaN(time) ? -Infinity : time;
+    };
+    return statuses.reduce<SubmissionStatus | null>(
+        (current, status) => !current || attachedAt(status) >= attachedAt(current) ? status : current,
+        null
+    );
 }
 
 export interface Form1Submission {
@@ -58,6 +95,19 @@ export interface Form1Submission {
     user_id: number;
     form_id: number;
     date_of_birth: string;
+    email_address?: string;
+    arma_3_id?: string;
+    updated_at?: string;
+}
+
+export interface SubmissionSyncCursor {
+    last_submission_id: number;
+    last_updated_at: string;
+}
+
+export interface SubmissionSyncResult {
+    submissions: Form1Submission[];
+    cursor: SubmissionSyncCursor | null;
 }
 
 export interface AcceptedUsers {
@@ -76,156 +126,155 @@ export interface DeniedUsers {
     preferred_position: string;
     form_id?: number;
     date_of_birth?: string;
+    denial_reason?: string;
+    denial_note?: string | null;
 }
 
 export class PerscomService {
-    private readonly BEARER_TOKEN: string;
+    private readonly client: PerscomClient;
 
-    constructor(bearerToken: string) {
-        this.BEARER_TOKEN = bearerToken;
+    constructor(client: PerscomClient) {
+        this.client = client;
     }
 
-    public async getSubmissionStatus(
+    /**
+     * Looks up every submission's statuses once and returns the current (most
+     * recently attached) status per form id, or null when none is set yet.
+     */
+    public async resolveSubmissionStatuses(
         submissions: Form1Submission[],
-        statusId: number
-    ): Promise<AcceptedUsers[] | DeniedUsers[]> {
-        const activeUsers: AcceptedUsers[] = [];
+        concurrency: number = STATUS_CONCURRENCY
+    ): Promise<Map<number, SubmissionStatus | null>> {
+        const statuses = await mapWithConcurrency(submissions, concurrency, async submission => {
+            const response = await this.client.get<StatusResponse>(`/submissions/${submission.form_id}/statuses`);
+            return currentSubmissionStatus(response.data || []);
+        });
 
-        for (const submission of submissions) {
-            const formId = submission.form_id;
-            try {
-                const response = await axios.get<StatusResponse>(
-                    `https://api.perscom.io/v2/submissions/${formId}/statuses`,
-                    {
-                        headers: {
-                            Authorization: `Bearer ${this.BEARER_TOKEN}`,
-                            'Content-Type': 'application/json',
-                        },
-                    }
-                );
-                const statusData = response.data.data;
-                if (!statusData || statusData.length === 0) {
-                    continue;
-                }
-                const matchedStatus = statusData.find(status => status.id === statusId);
-                if (matchedStatus) {
-                    activeUsers.push({
-                        discord_name: submission.discord_name,
-                        first_name: submission.first_name,
-                        user_id: submission.user_id,
-                        preferred_position: submission.preferred_position,
-                        form_id: submission.form_id,
-                        date_of_birth: submission.date_of_birth,
-                    });
-                }
-            } catch (error) {
-                console.error(`Error fetching statuses for formId ${formId}:`, error);
-            }
-        }
-        return activeUsers;
+        return new Map(submissions.map((submission, index) => [submission.form_id, statuses[index]]));
+    }
+
+    /**
+     * Fetches form-1 submissions created or updated since the cursor. Without a
+     * cursor every page is walked from page 1, which doubles as the backfill.
+     */
+    public async syncForm1Submissions(cursor: SubmissionSyncCursor | null): Promise<SubmissionSyncResult> {
+        const submissions = cursor
+            ? await this.searchSubmissionsSince(cursor)
+            : await this.fetchAllSubmissions();
+
+        const form1Submissions = submissions
+            .filter(submission => submission.form_id === 1)
+            .map((submission): Form1Submission => ({
+                first_name: submission.first_name,
+                discord_name: submission.discord_name,
+                preferred_position: submission.preferred_position,
+                form_id: submission.id,
+                user_id: submission.user_id,
+                date_of_birth: submission.date_of_birth,
+                email_address: submission.email_address,
+                arma_3_id: submission.arma_3_id,
+                updated_at: submission.updated_at
+            }));
+
+        return {
+            submissions: form1Submissions,
+            cursor: this.advanceCursor(cursor, submissions)
+        };
     }
 
-    public async getAllForm1Data(): Promise<Form1Submission[]> {
-        const allForm1Submissions: Form1Submission[] = [];
-        let page = 4;
+    private async fetchAllSubmissions(): Promise<Submission[]> {
+        const submissions: Submission[] = [];
+        let page = 1;
         let lastPage = 1;
 
-        try {
-            const metadataResponse = await fetch('https://api.perscom.io/v2/submissions', {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.BEARER_TOKEN}`,
-                    'Content-Type': 'application/json'
-                }
-            });
+        do {
+            const response = await this.client.get<SubmissionsResponse>('/submissions', { page });
+            submissions.push(...response.data);
+            lastPage = response.meta.last_page;
+            page++;
+        } while (page <= lastPage);
 
-            if (!metadataResponse.ok) {
-                console.error(`Metadata response error: ${metadataResponse.status} ${metadataResponse.statusText}`);
-                return [];
-            }
+        return submissions;
+    }
 
-            const metadata = await metadataResponse.json();
-            lastPage = metadata.meta.last_page;
-        } catch (error) {
-            console.error('Error fetching metadata:', error);
-            return [];
-        }
+    private async searchSubmissionsSince(cursor: SubmissionSyncCursor): Promise<Submission[]> {
+        const submissions: Submission[] = [];
+        let page = 1;
+        let lastPage = 1;
 
-        while (page <= lastPage) {
-            try {
-                const response = await fetch(`https://api.perscom.io/v2/submissions?page=${page}`, {
-                    method: 'GET',
-                    headers: {
-                        'Authorization': `Bearer ${this.BEARER_TOKEN}`,
-                        'Content-Type': 'application/json'
-                    }
-                });
-
-                if (!response.ok) {
-                    console.error(`Error fetching submissions for page ${page}: ${response.status} ${response.statusText}`);
-                    break;
-                }
+        do {
+            const response = await this.client.request<SubmissionsResponse>('POST', '/submissions/search', {
+                filters: [
+                    { field: 'form_id', operator: '=', value: 1 },
+                    { type: 'and', field: 'updated_at', operator: '>=', value: cursor.last_updated_at }
+                ],
+                sort: [
+                    { field: 'updated_at', direction: 'asc' },
+                    { field: 'id', direction: 'asc' }
+                ]
+            }, { page });
+            submissions.push(...response.data);
+            lastPage = response.meta.last_page;
+            page++;
+        } while (page <= lastPage);
 
-                const data = await response.json();
-                const form1Submissions = data.data
-                    .filter((submission: Submission) => submission.form_id === 1)
-                    .map((submission: Submission): Form1Submission => ({
-                        first_name: submission.first_name,
-                        discord_name: submission.discord_name,
-                        preferred_position: submission.preferred_position,
-                        form_id: submission.id,
-                        user_id: submission.user_id,
-                        date_of_birth: submission.date_of_birth
-                    }));
-
-                allForm1Submissions.push(...form1Submissions);
-                page++;
-            } catch (error) {
-                console.error(`Error fetching data on page ${page}:`, error);
-                break;
+        // The filter is inclusive so nothing sharing the cursor's timestamp is lost;
+        // drop the ones that were already processed at that exact timestamp.
+        return submissions.filter(submission =>
+            submission.updated_at !== cursor.last_updated_at || submission.id > cursor.last_submission_id
+        );
+    }
+
+    private advanceCursor(cursor: SubmissionSyncCursor | null, submissions: Submission[]): SubmissionSyncCursor | null {
+        return submissions.reduce<SubmissionSyncCursor | null>((latest, submission) => {
+            if (!latest) {
+                return { last_submission_id: submission.id, last_updated_at: submission.updated_at };
             }
-        }
-        return allForm1Submissions;
+            const updated = Date.parse(submission.updated_at);
+            const latestUpdated = Date.parse(latest.last_updated_at);
+            if (updated > latestUpdated || (updated === latestUpdated && submission.id > latest.last_submission_id)) {
+                return { last_submission_id: submission.id, last_updated_at: submission.updated_at };
+            }
+            return latest;
+        }, cursor);
     }
 
-    public async clearCache(): Promise<void> {
+    /** The raw submission with every form answer, or null once PERSCOM no longer has it. */
+    public async getSubmission(formId: number): Promise<Record<string, unknown> | null> {
         try {
-            const response = await axios.post(`https://api.perscom.io/v2/cache`, null, {
-                headers: {
-                    'Authorization': `Bearer ${this.BEARER_TOKEN}`,
-                },
-            });
-
-            if (response.status !== 200) {
-                console.warn(`Cache clear responded with: ${response.status} ${response.statusText}`);
-            }
+            const response = await this.client.get<{ data: Record<string, unknown> }>(`/submissions/${formId}`);
+            return response.data ?? null;
         } catch (error) {
-            console.error('Error clearing cache:', error);
+            if (error instanceof PerscomHttpError && error.status === 404) {
+                return null;
+            }
+            throw error;
         }
     }
 
-    public async deleteUsers(users: DeniedUsers[]): Promise<void> {
-        for (const user of users) {
-            const options = {
-                method: 'DELETE',
-                headers: {
-                    'Authorization': `Bearer ${this.BEARER_TOKEN}`,
-                    'Content-Type': 'application/json',
-                },
-            };
+    public async setSubmissionStatus(formId: number, statusId: number): Promise<void> {
+        await this.client.post(`/submissions/${formId}/statuses/attach`, { resources: [statusId] });
+    }
 
+    public async clearCache(): Promise<void> {
+        await this.client.post('/cache');
+    }
+
+    public async deleteUsers(users: DeniedUsers[]): Promise<DeniedUsers[]> {
+        const deleted: DeniedUsers[] = [];
+
+        for (const user of users) {
             try {
-                const response = await fetch(`https://api.perscom.io/v2/users/${user.user_id}`, options);
-                if (!response.ok) {
-                    const errorMsg = await response.text();
-                    console.error(`Failed to delete user ${user.first_name}: ${response.status} ${response.statusText} - ${errorMsg}`);
-                    continue;
+                await this.client.delete(`/users/${user.user_id}`);
+                console.log(`Deleted user ${user.first_name} (${user.user_id})`);
+                deleted.push(user);
+            } catch (error) {
+                if (!(error instanceof PerscomError)) {
+                    throw error;
                 }
-                const data = await response.json();
-                console.log(`Deleted user ${user.first_name}:`, data);
-            } catch (err) {
-                console.error(`Error deleting user ${user.first_name}:`, err);
+                console.error(`Failed to delete user ${user.first_name}:`, error.message);
             }
         }
+        return deleted;
     }
-}
\ No newline at end of file
+}
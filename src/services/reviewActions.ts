@@ -0,0 +1,43 @@
+export type ReviewAction = 'accept' | 'deny' | 'hold';
+
+const REVIEW_PREFIX = 'application-review';
+const DENY_REASON_PREFIX = 'application-deny-reason';
+const DENY_NOTE_PREFIX = 'application-deny-note';
+
+const REVIEW_ID_PATTERN = new RegExp(`^${REVIEW_PREFIX}-(accept|deny|hold)-(\\d+)$`);
+const DENY_REASON_ID_PATTERN = new RegExp(`^${DENY_REASON_PREFIX}-(\\d+)-(\\d+)$`);
+const DENY_NOTE_ID_PATTERN = new RegExp(`^${DENY_NOTE_PREFIX}-(\\d+)-(\\d+)-(\\d+)$`);
+
+export function reviewCustomId(action: ReviewAction, formId: number): string {
+    return `${REVIEW_PREFIX}-${action}-${formId}`;
+}
+
+export function parseReviewCustomId(customId: string): { action: ReviewAction; formId: number } | null {
+    const match = REVIEW_ID_PATTERN.exec(customId);
+    return match ? { action: match[1] as ReviewAction, formId: parseInt(match[2], 10) } : null;
+}
+
+/** The reason picker and note modal carry the original post's id so it can be updated afterwards. */
+export function denyReasonCustomId(formId: number, messageId: string): string {
+    return `${DENY_REASON_PREFIX}-${formId}-${messageId}`;
+}
+
+export function parseDenyReasonCustomId(customId: string): { formId: number; messageId: string } | null {
+    const match = DENY_REASON_ID_PATTERN.exec(customId);
+    return match ? { formId: parseInt(match[1], 10), messageId: match[2] } : null;
+}
+
+export function denyNoteCustomId(formId: number, reasonId: number, messageId: string): string {
+    return `${DENY_NOTE_PREFIX}-${formId}-${reasonId}-${messageId}`;
+}
+
+export function parseDenyNoteCustomId(customId: string): { formId: number; reasonId: number; messageId: string } | null {
+    const match = DENY_NOTE_ID_PATTERN.exec(customId);
+    return match ? { formId: parseInt(match[1], 10), reasonId: parseInt(match[2], 10), messageId: match[3] } : null;
+}
+
+export function isReviewCustomId(customId: string): boolean {
+    return parseReviewCustomId(customId) !== null
+        || parseDenyReasonCustomId(customId) !== null
+        || parseDenyNoteCustomId(customId) !== null;
+}
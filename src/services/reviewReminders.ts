@@ -0,0 +1,173 @@
+import { Client, Colors, EmbedBuilder, Message, TextChannel, ThreadAutoArchiveDuration } from "discord.js";
+import { DatabaseService } from "./database";
+import { Application } from "./applicationLifecycle";
+import { ReviewerRouting } from "./reviewerRouting";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Where the new-application post for a submission lives. */
+export interface ApplicationPost {
+    form_id: number;
+    channel_id: string;
+    message_id: string;
+}
+
+export interface PendingReview extends Application {
+    channel_id: string | null;
+    message_id: string | null;
+    reminded_at: Date | null;
+    escalated_at: Date | null;
+}
+
+export interface ReviewReminderOptions {
+    reminderHours: number;
+    escalationHours: number;
+    /** Role pinged once an application passes `escalationHours`; escalation is off without one. */
+    escalationRoleId: string | null;
+    /** UTC hour after which the daily pending-queue digest is posted. */
+    digestHourUtc: number;
+}
+
+export type ReminderStage = 'remind' | 'escalate';
+
+export function hoursPending(review: Pick<Application, 'created_at'>, now: Date): number {
+    return (now.getTime() - new Date(review.created_at).getTime()) / HOUR_MS;
+}
+
+/**
+ * The follow-up that is due for a pending review, if any. Each stage fires
+ * once. Applications that were never posted here, such as those migrated from
+ * the old bot, only appear in the daily digest.
+ */
+export function dueReminderStage(review: PendingReview, options: ReviewReminderOptions, now: Date): ReminderStage | null {
+    if (!review.message_id) {
+        return null;
+    }
+    const hours = hoursPending(review, now);
+    if (options.escalationRoleId && hours >= options.escalationHours && !review.escalated_at) {
+        return 'escalate';
+    }
+    if (hours >= options.reminderHours && !review.reminded_at && !review.escalated_at) {
+        return 'remind';
+    }
+    return null;
+}
+
+function formatAge(hours: number): string {
+    return hours >= 48 ? `${Math.floor(hours / 24)}d` : `${Math.floor(hours)}h`;
+}
+
+/**
+ * Follows up on applications nobody has decided on: re-pings the routed
+ * reviewers, escalates to a fallback role, and posts a daily queue digest.
+ */
+export class ReviewReminderService {
+    private readonly client: Client;
+    private readonly channelId: string;
+    private readonly options: ReviewReminderOptions;
+
+    constructor(client: Client, channelId: string, options: ReviewReminderOptions) {
+        this.client = client;
+        this.channelId = channelId;
+        this.options = options;
+    }
+
+    private async getChannel(): Promise<TextChannel | null> {
+        const channel = this.client.channels.cache.get(this.channelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.channelId} not found.`);
+            return null;
+        }
+        return channel;
+    }
+
+    async sendDueReminders(databaseService: DatabaseService, now: Date = new Date()): Promise<void> {
+        const channel = await this.getChannel();
+        if (!channel) return;
+
+        const pending = await databaseService.getPendingReviews();
+        const routing = new ReviewerRouting(await databaseService.getReviewerRoutes());
+
+        for (const review of pending) {
+            const stage = dueReminderStage(review, this.options, now);
+            if (!stage) continue;
+
+            const age = formatAge(hoursPending(review, now));
+            const content = stage === 'escalate'
+                ? `<@&${this.options.escalationRoleId}> **${review.first_name}**'s ${review.preferred_position} application has waited ${age} without a decision.`
+                : `${routing.mentionsFor(review.preferred_position).join(' ')} Reminder: **${review.first_name}**'s application has waited ${age} for review.`;
+
+            try {
+                await this.postFollowUp(channel, review, content);
+                await databaseService.markReviewReminder(review.form_id, stage);
+            } catch (error) {
+                console.error(`Error sending review ${stage} for application ${review.form_id}:`, error);
+            }
+        }
+    }
+
+    /** Posts in a thread on the original application post, or the channel if the post is gone. */
+    private async postFollowUp(channel: TextChannel, review: PendingReview, content: string): Promise<void> {
+        const message: Message | null = review.message_id
+            ? await channel.messages.fetch(review.message_id).catch(() => null)
+            : null;
+
+        if (!message) {
+            await channel.send({ content });
+            return;
+        }
+
+        const thread = message.thread ?? await message.startThread({
+            name: `${review.first_name} - ${review.preferred_position}`.slice(0, 100),
+            autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek
+        });
+        await thread.send({ content });
+    }
+
+    async sendDailyDigest(databaseService: DatabaseService, now: Date = new Date()): Promise<void> {
+        if (now.getUTCHours() < this.options.digestHourUtc) return;
+
+        const channel = await this.getChannel();
+        if (!channel) return;
+
+        // Claimed up front so two runs can't both post; released if posting fails so the next run retries.
+        const digestDate = now.toISOString().slice(0, 10);
+        if (!await databaseService.claimReviewDigest(digestDate)) return;
+        try {
+            await this.postDailyDigest(databaseService, channel, now);
+        } catch (error) {
+            await databaseService.releaseReviewDigest(digestDate);
+            throw error;
+        }
+    }
+
+    private async postDailyDigest(databaseService: DatabaseService, channel: TextChannel, now: Date): Promise<void> {
+        const pending = (await databaseService.getPendingReviews())
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+        const lines = pending.map(review => {
+            const link = review.message_id
+                ? `https://discord.com/channels/${channel.guild.id}/${review.channel_id}/${review.message_id}`
+                : `https://nswg-1.com/admin/perscom/submissions/${review.form_id}`;
+            const overdue = hoursPending(review, now) >= this.options.reminderHours ? ' ⚠️' : '';
+            return `[${review.first_name}](${link}) · ${review.preferred_position} · ${review.state.replace('_', ' ')} · ${formatAge(hoursPending(review, now))}${overdue}`;
+        });
+
+        let description = lines.length > 0 ? '' : 'No applications are waiting for review.';
+        for (const line of lines) {
+            if (description.length + line.length + 1 > 4000) {
+                description += `\n…and ${lines.length - description.split('\n').length} more`;
+                break;
+            }
+            description += description ? `\n${line}` : line;
+        }
+
+        const embed = new EmbedBuilder()
+            .setColor(pending.length > 0 ? Colors.Yellow : Colors.Green)
+            .setTitle(`Pending Applications (${pending.length})`)
+            .setDescription(description)
+            .setTimestamp(now);
+
+        await channel.send({ embeds: [embed] });
+    }
+}
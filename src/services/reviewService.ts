@@ -0,0 +1,259 @@
+import {
+    ActionRowBuilder, ButtonInteraction, Interaction, Message, ModalBuilder, ModalSubmitInteraction,
+    RepliableInteraction, StringSelectMenuBuilder, StringSelectMenuInteraction, TextInputBuilder, TextInputStyle
+} from "discord.js";
+import { SUBMISSION_STATUSES } from "./request_perscom";
+import { ReviewerRouting } from "./reviewerRouting";
+import { Application, ApplicationDenial, ApplicationState, canTransition } from "./applicationLifecycle";
+import { ApplicationCycleServices, applyApplicationTransitions } from "./applicationCycle";
+import { withApplicationDatabase } from "./applicationDatabase";
+import { DatabaseService } from "./database";
+import { APPLICATION_JOBS, jobScheduler } from "./applicationJobs";
+import {
+    ReviewAction, denyNoteCustomId, denyReasonCustomId, parseDenyNoteCustomId, parseDenyReasonCustomId,
+    parseReviewCustomId
+} from "./reviewActions";
+import { getMemberRoleIds } from "../utils/permissions";
+
+const TARGET_STATES: Record<ReviewAction, ApplicationState> = {
+    accept: 'accepted',
+    deny: 'denied',
+    hold: 'under_review'
+};
+
+export class ReviewService {
+    private readonly services: Omit<ApplicationCycleServices, 'databaseService'>;
+    private readonly holdStatusId: number | null;
+
+    constructor(services: Omit<ApplicationCycleServices, 'databaseService'>, holdStatusId: number | null) {
+        this.services = services;
+        this.holdStatusId = holdStatusId;
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        try {
+            if (interaction.isButton()) {
+                await this.handleButton(interaction);
+            } else if (interaction.isStringSelectMenu()) {
+                await this.handleDenyReason(interaction);
+            } else if (interaction.isModalSubmit()) {
+                await this.handleDenyNote(interaction);
+            }
+        } catch (error) {
+            console.error('Error handling application review:', error);
+            if (interaction.isRepliable()) {
+                await this.respond(interaction, 'Failed to update this application. Please try again or update it in PERSCOM.');
+            }
+        }
+    }
+
+    private statusIdFor(action: ReviewAction): number | null {
+        switch (action) {
+            case 'accept':
+                return SUBMISSION_STATUSES.ACCEPTED;
+            case 'deny':
+                return SUBMISSION_STATUSES.DENIED;
+            case 'hold':
+                return this.holdStatusId;
+        }
+    }
+
+    private async respond(interaction: RepliableInteraction, content: string): Promise<void> {
+        if (interaction.replied || interaction.deferred) {
+            await interaction.followUp({ content, ephemeral: true }).catch(() => {});
+        } else {
+            await interaction.reply({ content, ephemeral: true }).catch(() => {});
+        }
+    }
+
+    /**
+     * Loads the application and checks that the user may move it to `target`,
+     * telling them why not otherwise.
+     */
+    private async loadForDecision(
+        databaseService: DatabaseService,
+        interaction: RepliableInteraction,
+        formId: number,
+        target: ApplicationState
+    ): Promise<Application | null> {
+        const application = await databaseService.getApplication(formId);
+        if (!application) {
+            await this.respond(interaction, 'This application is no longer tracked.');
+            return null;
+        }
+
+        const routing = new ReviewerRouting(await databaseService.getReviewerRoutes());
+        const roleIds = getMemberRoleIds(interaction.member);
+        if (!routing.isReviewer(application.preferred_position, interaction.user.id, roleIds)) {
+            await this.respond(interaction, `Only reviewers for ${application.preferred_position} can decide on this application.`);
+            return null;
+        }
+
+        if (application.state === target || !canTransition(application.state, target, 'discord')) {
+            await this.respond(interaction, `This application is already ${application.state.replace('_', ' ')}.`);
+            return null;
+        }
+
+        return application;
+    }
+
+    /**
+     * Records the decision locally before writing it to PERSCOM, so a reviewer
+     * who lost a race with another decision doesn't overwrite it there.
+     * Returns false, after telling the reviewer, when the decision lost.
+     */
+    private async decide(
+        databaseService: DatabaseService,
+        interaction: RepliableInteraction,
+        application: Application,
+        action: ReviewAction,
+        message: Message | null,
+        denial?: ApplicationDenial
+    ): Promise<boolean> {
+        const reviewerId = interaction.user.id;
+        const statusId = this.statusIdFor(action);
+        let perscomUpdated = true;
+
+        const applied = await applyApplicationTransitions(
+            { ...this.services, databaseService },
+            [{ application, target: TARGET_STATES[action], denial }],
+            'discord',
+            reviewerId,
+            denial?.note ?? null,
+            async () => {
+                if (statusId === null) return;
+                try {
+                    await this.services.perscomService.setSubmissionStatus(application.form_id, statusId);
+                } catch (error) {
+                    console.error(`Error setting the PERSCOM status of #${application.form_id}:`, error);
+                    perscomUpdated = false;
+                }
+            }
+        );
+        if (applied.length === 0) {
+            const current = await databaseService.getApplication(application.form_id);
+            const state = current ? `now ${current.state.replace('_', ' ')}` : 'no longer tracked';
+            await this.respond(interaction, `Someone else decided first; this application is ${state}.`);
+            return false;
+        }
+        // Deliver the decision now rather than on the outbox job's next tick.
+        jobScheduler.trigger(APPLICATION_JOBS.NOTIFICATION_OUTBOX);
+
+        if (message) {
+            const detail = denial?.reason_label ? `Reason: ${denial.reason_label}` : undefined;
+            await this.services.notificationService.markReviewDecision(message, application, action, reviewerId, detail);
+        }
+        if (!perscomUpdated) {
+            await this.respond(
+                interaction,
+                'The decision was recorded, but PERSCOM could not be updated. Please set the submission status in PERSCOM.'
+            );
+        }
+        return true;
+    }
+
+    private async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const parsed = parseReviewCustomId(interaction.customId);
+        if (!parsed) return;
+
+        const { action, formId } = parsed;
+
+        await withApplicationDatabase(async databaseService => {
+            const application = await this.loadForDecision(databaseService, interaction, formId, TARGET_STATES[action]);
+            if (!application) return;
+
+            // Without a PERSCOM hold status the next sync would read the old status and undo the hold.
+            if (action === 'hold' && this.holdStatusId === null) {
+                await this.respond(interaction, 'Hold is unavailable until an admin sets `PERSCOM_HOLD_STATUS_ID`. '
+                    + 'Accept or deny instead, or set the status in PERSCOM.');
+                return;
+            }
+
+            if (action === 'deny') {
+                const reasons = await databaseService.getDenialReasons();
+                if (reasons.length === 0) {
+                    await this.respond(interaction, 'No denial reasons are configured. An admin can add some with `/nswg-denial-reasons add`.');
+                    return;
+                }
+
+                const select = new StringSelectMenuBuilder()
+                    .setCustomId(denyReasonCustomId(formId, interaction.message.id))
+                    .setPlaceholder('Select a denial reason')
+                    .addOptions(reasons.slice(0, 25).map(reason => ({
+                        label: reason.label,
+                        value: reason.id.toString(),
+                        description: reason.message.slice(0, 100)
+                    })));
+
+                await interaction.reply({
+                    content: `Why is ${application.first_name}'s application being denied?`,
+                    components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select)],
+                    ephemeral: true
+                });
+                return;
+            }
+
+            await interaction.deferUpdate();
+            await this.decide(databaseService, interaction, application, action, interaction.message);
+        });
+    }
+
+    private async handleDenyReason(interaction: StringSelectMenuInteraction): Promise<void> {
+        const parsed = parseDenyReasonCustomId(interaction.customId);
+        if (!parsed) return;
+
+        const reasonId = parseInt(interaction.values[0], 10);
+        const noteInput = new TextInputBuilder()
+            .setCustomId('denial-note')
+            .setLabel('Note for the applicant (optional)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(false)
+            .setMaxLength(1000);
+
+        const modal = new ModalBuilder()
+            .setCustomId(denyNoteCustomId(parsed.formId, reasonId, parsed.messageId))
+            .setTitle('Deny Application')
+            .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(noteInput));
+
+        await interaction.showModal(modal);
+    }
+
+    private async handleDenyNote(interaction: ModalSubmitInteraction): Promise<void> {
+        const parsed = parseDenyNoteCustomId(interaction.customId);
+        if (!parsed) return;
+
+        if (interaction.isFromMessage()) {
+            await interaction.deferUpdate();
+        } else {
+            await interaction.deferReply({ ephemeral: true });
+        }
+
+        await withApplicationDatabase(async databaseService => {
+            const application = await this.loadForDecision(databaseService, interaction, parsed.formId, 'denied');
+            if (!application) return;
+
+            const reason = await databaseService.getDenialReason(parsed.reasonId);
+            if (!reason) {
+                await this.respond(interaction, 'That denial reason no longer exists. Please pick another one.');
+                return;
+            }
+
+            const note = interaction.fields.getTextInputValue('denial-note').trim() || null;
+            const message = await interaction.channel?.messages.fetch(parsed.messageId).catch(() => null) ?? null;
+
+            const decided = await this.decide(databaseService, interaction, application, 'deny', message, {
+                reason_id: reason.id,
+                reason_label: reason.label,
+                reason_message: reason.message,
+                note,
+                denied_by: interaction.user.id
+            });
+            if (!decided) return;
+
+            await interaction.editReply({
+                content: `Denied ${application.first_name}'s application: ${reason.label}.`,
+                components: []
+            });
+        });
+    }
+}
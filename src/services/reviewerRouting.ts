@@ -0,0 +1,51 @@
+export const DEFAULT_ROUTE = 'default';
+
+export type ReviewerTargetType = 'role' | 'user';
+
+export interface ReviewerRoute {
+    position: string;
+    target_type: ReviewerTargetType;
+    target_id: string;
+}
+
+function normalizePosition(position: string): string {
+    return position.trim().toLowerCase();
+}
+
+/**
+ * Resolves which reviewers own a position. Positions without their own routes
+ * fall back to the default route.
+ */
+export class ReviewerRouting {
+    private readonly routes: ReviewerRoute[];
+
+    constructor(routes: ReviewerRoute[]) {
+        this.routes = routes;
+    }
+
+    routesFor(position: string): ReviewerRoute[] {
+        const normalized = normalizePosition(position);
+        const specific = this.routes.filter(route => normalizePosition(route.position) === normalized);
+        return specific.length > 0
+            ? specific
+            : this.routes.filter(route => normalizePosition(route.position) === DEFAULT_ROUTE);
+    }
+
+    mentionsFor(position: string): string[] {
+        return this.routesFor(position).map(route =>
+            route.target_type === 'role' ? `<@&${route.target_id}>` : `<@${route.target_id}>`
+        );
+    }
+
+    isAnyReviewer(userId: string, roleIds: string[]): boolean {
+        return this.routes.some(route =>
+            route.target_type === 'role' ? roleIds.includes(route.target_id) : route.target_id === userId
+        );
+    }
+
+    isReviewer(position: string, userId: string, roleIds: string[]): boolean {
+        return this.routesFor(position).some(route =>
+            route.target_type === 'role' ? roleIds.includes(route.target_id) : route.target_id === userId
+        );
+    }
+}
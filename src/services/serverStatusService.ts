@@ -1,6 +1,10 @@
 import express, { Request, Response, Router, NextFunction } from 'express';
 import { EventEmitter } from 'events';
+import { Client, TextChannel } from 'discord.js';
 import { config } from '../config/config';
+import { RawBodyRequest, createPerscomWebhookHandler } from './perscomWebhook';
+import { APPLICATION_JOBS, jobScheduler } from './applicationJobs';
+import { createAttendanceExportHandler } from './attendanceExportService';
 
 interface ServerData {
     onlinePlayers: number;
@@ -66,7 +70,11 @@ class ServerStatusService extends EventEmitter {
 
 const app = express();
 const router = Router();
-app.use(express.json());
+app.use(express.json({
+    verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+    }
+}));
 
 const serverStatus = ServerStatusService.getInstance();
 
@@ -108,6 +116,18 @@ const getServerStatus = async (_req: Request, res: Response): Promise<void> => {
 router.post('/server-status', authenticateApiKey, postServerStatus);
 router.get('/server-status', authenticateApiKey, getServerStatus);
 
+// PERSCOM events run the same application cycle as the poll, which keeps going as a slower reconciliation.
+router.post('/webhooks/perscom', createPerscomWebhookHandler(config.PERSCOM_WEBHOOK_SECRET, () => {
+    jobScheduler.trigger(APPLICATION_JOBS.APPLICATION_CYCLE);
+}));
+
 app.use('/api', router);
 
-export { app, ServerStatusService, ServerData };
\ No newline at end of file
+/** The attendance export reads the roster of the staff channel's server, so it is mounted once the client exists. */
+function mountAttendanceApi(client: Client): void {
+    router.get('/attendance', authenticateApiKey, createAttendanceExportHandler(() =>
+        (client.channels.cache.get(config.NEW_APPLICATION_CHANNEL_ID) as TextChannel | undefined)?.guild ?? null
+    ));
+}
+
+export { app, mountAttendanceApi, ServerStatusService, ServerData };
\ No newline at end of file
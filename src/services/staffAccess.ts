@@ -0,0 +1,13 @@
+import { Interaction } from "discord.js";
+import { DatabaseService } from "./database";
+import { ReviewerRouting } from "./reviewerRouting";
+import { getMemberRoleIds, hasAdminRole } from "../utils/permissions";
+
+/** Admins and anyone routed as a reviewer for at least one position. */
+export async function isApplicationStaff(databaseService: DatabaseService, interaction: Interaction): Promise<boolean> {
+    if (hasAdminRole(interaction.member)) {
+        return true;
+    }
+    const routing = new ReviewerRouting(await databaseService.getReviewerRoutes());
+    return routing.isAnyReviewer(interaction.user.id, getMemberRoleIds(interaction.member));
+}
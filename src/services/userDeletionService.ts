@@ -0,0 +1,259 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonInteraction, ButtonStyle, Client, Colors, EmbedBuilder, Interaction, TextChannel
+} from "discord.js";
+import { DatabaseService } from "./database";
+import { DeniedUsers, PerscomService } from "./request_perscom";
+import { withApplicationDatabase } from "./applicationDatabase";
+import {
+    DeletionGuardOptions, UserDeletion, confirmDeletionCustomId, keepDeletionCustomId, parseDeletionCustomId,
+    planDeletions
+} from "./deletionGuard";
+import { buildApplicantArchive } from "./applicantArchive";
+import { hasAdminRole } from "../utils/permissions";
+
+export interface DeletionResult {
+    deleted: UserDeletion[];
+    failed: UserDeletion[];
+}
+
+/**
+ * Queues denied applicants for removal from PERSCOM and only deletes them
+ * when the guard allows it: optionally after an admin approves each one, and
+ * never when a single batch is larger than the configured limit. A tripped
+ * guard suspends all deletions until an admin resumes them.
+ */
+export class UserDeletionService {
+    private readonly client: Client;
+    private readonly staffChannelId: string;
+    private readonly perscomService: PerscomService;
+    private readonly options: DeletionGuardOptions;
+
+    constructor(client: Client, staffChannelId: string, perscomService: PerscomService, options: DeletionGuardOptions) {
+        this.client = client;
+        this.staffChannelId = staffChannelId;
+        this.perscomService = perscomService;
+        this.options = options;
+    }
+
+    private async getStaffChannel(): Promise<TextChannel | null> {
+        const channel = this.client.channels.cache.get(this.staffChannelId) as TextChannel;
+        if (!channel) {
+            console.error(`Channel with ID ${this.staffChannelId} not found.`);
+            return null;
+        }
+        return channel;
+    }
+
+    /**
+     * Queues the denied users as one batch. `requireApproval` asks an admin to
+     * approve each deletion even when the guard would delete them straight away.
+     */
+    async requestDeletions(databaseService: DatabaseService, users: DeniedUsers[], requireApproval = false): Promise<void> {
+        const queued = users.filter((user): user is DeniedUsers & { form_id: number } => user.form_id !== undefined);
+        if (queued.length === 0) return;
+
+        await databaseService.queueUserDeletions(queued);
+        const suspension = await databaseService.getDeletionSuspension();
+        const plan = planDeletions(
+            queued.length,
+            { ...this.options, requireApproval: this.options.requireApproval || requireApproval },
+            suspension !== null
+        );
+
+        switch (plan) {
+            case 'delete': {
+                const deletions: UserDeletion[] = [];
+                for (const user of queued) {
+                    if (await databaseService.decideUserDeletion(user.form_id, 'approved', null)) {
+                        deletions.push(this.toDeletion(user));
+                    }
+                }
+                await this.deleteApproved(databaseService, deletions);
+                break;
+            }
+            case 'approve':
+                for (const user of queued) {
+                    await this.postApprovalRequest(this.toDeletion(user));
+                }
+                break;
+            case 'trip': {
+                const reason = `${queued.length} denials in one batch is over the limit of ${this.options.maxPerCycle}`;
+                await databaseService.suspendDeletions(reason);
+                console.warn(`PERSCOM user deletions suspended: ${reason}`);
+                await this.postToStaff(new EmbedBuilder()
+                    .setColor(Colors.Red)
+                    .setTitle('PERSCOM Deletions Suspended')
+                    .setDescription(`${reason}, so nobody was deleted. Check the denials in PERSCOM, then use `
+                        + '`/nswg-deletions approve` or `/nswg-deletions keep` and `/nswg-deletions resume`.')
+                    .addFields({ name: 'Queued', value: this.formatUsers(queued) })
+                    .setTimestamp());
+                break;
+            }
+            case 'hold':
+                console.warn(`PERSCOM user deletions are suspended; queued ${queued.length} more.`);
+                await this.postToStaff(new EmbedBuilder()
+                    .setColor(Colors.Orange)
+                    .setTitle('PERSCOM Deletions Still Suspended')
+                    .setDescription(`Queued without deleting (suspended: ${suspension!.reason}).`)
+                    .addFields({ name: 'Queued', value: this.formatUsers(queued) })
+                    .setTimestamp());
+                break;
+        }
+    }
+
+    /**
+     * Archives and then deletes deletions that were already moved to approved,
+     * recording how each went. Nobody is deleted without an archive.
+     */
+    async deleteApproved(databaseService: DatabaseService, deletions: UserDeletion[]): Promise<DeletionResult> {
+        const result: DeletionResult = { deleted: [], failed: [] };
+        const archived: UserDeletion[] = [];
+
+        for (const deletion of deletions) {
+            try {
+                await this.archive(databaseService, deletion);
+                archived.push(deletion);
+            } catch (error) {
+                const detail = `Not archived: ${error instanceof Error ? error.message : String(error)}`;
+                console.error(`Skipping deletion of PERSCOM user ${deletion.perscom_user_id}. ${detail}`);
+                await databaseService.finishUserDeletion(deletion.form_id, 'failed', detail);
+                result.failed.push(deletion);
+            }
+        }
+
+        const deleted = await this.perscomService.deleteUsers(archived.map(deletion => ({
+            first_name: deletion.first_name,
+            discord_name: '',
+            user_id: deletion.perscom_user_id,
+            preferred_position: '',
+            form_id: deletion.form_id
+        })));
+        const deletedIds = new Set(deleted.map(user => user.form_id));
+
+        for (const deletion of archived) {
+            if (deletedIds.has(deletion.form_id)) {
+                await databaseService.finishUserDeletion(deletion.form_id, 'deleted');
+                result.deleted.push(deletion);
+            } else {
+                await databaseService.finishUserDeletion(deletion.form_id, 'failed', 'PERSCOM rejected the deletion');
+                result.failed.push(deletion);
+            }
+        }
+        return result;
+    }
+
+    private async archive(databaseService: DatabaseService, deletion: UserDeletion): Promise<void> {
+        const application = await databaseService.getApplication(deletion.form_id);
+        if (!application) {
+            throw new Error(`application #${deletion.form_id} is not tracked`);
+        }
+        if (application.state !== 'denied') {
+            throw new Error(`application #${deletion.form_id} is no longer denied`);
+        }
+        const [denial, submission] = await Promise.all([
+            databaseService.getDenial(deletion.form_id),
+            this.perscomService.getSubmission(deletion.form_id)
+        ]);
+        await databaseService.saveApplicantArchive(buildApplicantArchive(application, denial, submission));
+    }
+
+    async handleInteraction(interaction: Interaction): Promise<void> {
+        if (!interaction.isButton()) return;
+        try {
+            await this.handleButton(interaction);
+        } catch (error) {
+            console.error('Error handling PERSCOM deletion:', error);
+            await interaction.reply({ content: 'Failed to update this deletion. Please use `/nswg-deletions`.', ephemeral: true })
+                .catch(() => {});
+        }
+    }
+
+    private async handleButton(interaction: ButtonInteraction): Promise<void> {
+        const parsed = parseDeletionCustomId(interaction.customId);
+        if (!parsed) return;
+
+        if (!hasAdminRole(interaction.member)) {
+            await interaction.reply({ content: 'Only admins can approve PERSCOM deletions.', ephemeral: true });
+            return;
+        }
+
+        await withApplicationDatabase(async databaseService => {
+            const deletion = await databaseService.getUserDeletion(parsed.formId);
+            const decision = parsed.action === 'confirm' ? 'approved' : 'kept';
+            if (!deletion || !await databaseService.decideUserDeletion(parsed.formId, decision, interaction.user.id)) {
+                await interaction.reply({
+                    content: `This deletion was already ${deletion?.status ?? 'removed'}.`,
+                    ephemeral: true
+                });
+                return;
+            }
+
+            const embed = EmbedBuilder.from(interaction.message.embeds[0]);
+            if (decision === 'kept') {
+                embed.setColor(Colors.Grey).addFields({ name: 'Kept', value: `Kept in PERSCOM by <@${interaction.user.id}>` });
+            } else {
+                const result = await this.deleteApproved(databaseService, [deletion]);
+                embed.setColor(result.deleted.length > 0 ? Colors.Green : Colors.Red).addFields({
+                    name: result.deleted.length > 0 ? 'Deleted' : 'Deletion Failed',
+                    value: result.deleted.length > 0
+                        ? `Deleted from PERSCOM by <@${interaction.user.id}>`
+                        : 'PERSCOM rejected the deletion; remove the user by hand.'
+                });
+            }
+
+            await interaction.update({ embeds: [embed], components: [], allowedMentions: { parse: [] } });
+        });
+    }
+
+    private async postApprovalRequest(deletion: UserDeletion): Promise<void> {
+        const embed = new EmbedBuilder()
+            .setColor(Colors.Orange)
+            .setTitle('Delete Denied Applicant from PERSCOM?')
+            .setDescription(`**${deletion.first_name}** was denied.`)
+            .addFields(
+                { name: 'PERSCOM User', value: deletion.perscom_user_id.toString(), inline: true },
+                { name: 'Submission', value: `#${deletion.form_id}`, inline: true }
+            )
+            .setTimestamp();
+        const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(confirmDeletionCustomId(deletion.form_id))
+                .setLabel('Delete')
+                .setStyle(ButtonStyle.Danger),
+            new ButtonBuilder()
+                .setCustomId(keepDeletionCustomId(deletion.form_id))
+                .setLabel('Keep')
+                .setStyle(ButtonStyle.Secondary)
+        );
+        const channel = await this.getStaffChannel();
+        await channel?.send({ embeds: [embed], components: [row], allowedMentions: { parse: [] } })
+            .catch(error => console.error('Error posting deletion approval:', error));
+    }
+
+    private async postToStaff(embed: EmbedBuilder): Promise<void> {
+        const channel = await this.getStaffChannel();
+        await channel?.send({ embeds: [embed], allowedMentions: { parse: [] } })
+            .catch(error => console.error('Error posting to staff channel:', error));
+    }
+
+    private formatUsers(users: (DeniedUsers & { form_id: number })[]): string {
+        const lines = users.slice(0, 20).map(user => `#${user.form_id} ${user.first_name} (PERSCOM user ${user.user_id})`);
+        if (users.length > lines.length) {
+            lines.push(`…and ${users.length - lines.length} more`);
+        }
+        return lines.join('\n').slice(0, 1024);
+    }
+
+    private toDeletion(user: DeniedUsers & { form_id: number }): UserDeletion {
+        return {
+            form_id: user.form_id,
+            perscom_user_id: user.user_id,
+            first_name: user.first_name,
+            status: 'pending',
+            requested_at: new Date(),
+            decided_by: null,
+            decided_at: null,
+            detail: null
+        };
+    }
+}
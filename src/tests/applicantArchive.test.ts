@@ -0,0 +1,96 @@
+import { buildApplicantArchive, formatAnswerLabel, submissionAnswers } from '../services/applicantArchive';
+import { Application } from '../services/applicationLifecycle';
+import { DatabaseService } from '../services/database';
+import { PoolConnection } from 'mysql2/promise';
+
+const application: Application = {
+    form_id: 12,
+    user_id: 340,
+    first_name: 'Local Name',
+    discord_name: 'local.discord',
+    preferred_position: 'Rifleman',
+    date_of_birth: '2000-01-01',
+    email_address: 'local@example.com',
+    arma_3_id: '765611',
+    state: 'denied',
+    created_at: new Date('2025-03-01T00:00:00Z'),
+    state_changed_at: new Date('2025-03-02T00:00:00Z')
+};
+
+describe('buildApplicantArchive', () => {
+    test('keeps every form answer and the denial', () => {
+        const archive = buildApplicantArchive(
+            application,
+            { reason_id: 1, reason_label: 'Age', reason_message: 'Too young', note: null, denied_by: '555' },
+            {
+                id: 12,
+                form_id: 1,
+                user_id: 340,
+                first_name: 'Perscom Name',
+                discord_name: '',
+                previous_unit: 3,
+                why_do_you_want_to_join_red_squadron: 'Teamwork',
+                updated_at: '2025-03-01T00:00:00Z'
+            }
+        );
+
+        expect(archive).toEqual({
+            form_id: 12,
+            perscom_user_id: 340,
+            first_name: 'Perscom Name',
+            discord_name: 'local.discord',
+            date_of_birth: '2000-01-01',
+            email_address: 'local@example.com',
+            arma_3_id: '765611',
+            preferred_position: 'Rifleman',
+            answers: { previous_unit: 3, why_do_you_want_to_join_red_squadron: 'Teamwork' },
+            reason_label: 'Age',
+            reason_message: 'Too young',
+            denied_by: '555'
+        });
+    });
+
+    test('falls back to the local copy when PERSCOM no longer has the submission', () => {
+        const archive = buildApplicantArchive(application, null, null);
+
+        expect(archive.first_name).toBe('Local Name');
+        expect(archive.answers).toBeNull();
+        expect(archive.reason_message).toBeNull();
+    });
+});
+
+describe('answer helpers', () => {
+    test('drops PERSCOM bookkeeping fields', () => {
+        expect(submissionAnswers({ id: 1, label: 'x', statuses: [], hobbies: 'chess' })).toEqual({ hobbies: 'chess' });
+    });
+
+    test('labels field names', () => {
+        expect(formatAnswerLabel('why_do_you_want_to_join')).toBe('Why do you want to join');
+    });
+});
+
+describe('purgeApplicantArchives', () => {
+    test('redacts the stored submission and deletion name along with the archive', async () => {
+        const statements: string[] = [];
+        const connection = {
+            async beginTransaction() { statements.push('BEGIN'); },
+            async query(sql: string) {
+                statements.push(sql.replace(/\s+/g, ' '));
+                return [{ affectedRows: 2 }];
+            },
+            async commit() { statements.push('COMMIT'); },
+            async rollback() { statements.push('ROLLBACK'); }
+        };
+
+        const purged = await new DatabaseService(connection as unknown as PoolConnection).purgeApplicantArchives(new Date());
+
+        expect(purged).toBe(2);
+        expect(statements).toEqual([
+            'BEGIN',
+            expect.stringMatching(/^UPDATE form1_submissions SET first_name = '', .*arma_3_id = NULL WHERE form_id IN \(SELECT form_id FROM applicant_archives /),
+            expect.stringMatching(/^UPDATE perscom_user_deletions SET first_name = '' WHERE form_id IN \(SELECT form_id FROM applicant_archives /),
+            expect.stringMatching(/^UPDATE applicant_archives SET .*purged_at = CURRENT_TIMESTAMP/),
+            'COMMIT'
+        ]);
+    });
+});
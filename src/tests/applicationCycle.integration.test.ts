@@ -0,0 +1,992 @@
+import { Client, EmbedBuilder } from 'discord.js';
+import {
+    ApplicationCycleOptions, ApplicationCycleServices, applyApplicationTransitions, runApplicationCycle
+} from '../services/applicationCycle';
+import { PerscomClient, PerscomHttpError } from '../services/perscomClient';
+import { PerscomService, AcceptedUsers, DeniedUsers, Form1Submission, SubmissionSyncCursor } from '../services/request_perscom';
+import { DatabaseService } from '../services/database';
+import {
+    ACCEPTED_RECHECK_DAYS, Application, ApplicationDenial, ApplicationHistoryEntry, ApplicationState, DEFAULT_DENIAL_REASON,
+    TransitionSource
+} from '../services/applicationLifecycle';
+import { NotificationService } from '../services/notificationService';
+import { ReviewerRoute } from '../services/reviewerRouting';
+import { AccountLinkService } from '../services/accountLinkService';
+import { MemberProvisioningService } from '../services/memberProvisioning';
+import { CooldownFlag, DenialIdentities, DenialRecord } from '../services/reapplicationCooldown';
+import { UserDeletionService } from '../services/userDeletionService';
+import { DeletionGuardOptions, DeletionSuspension, UserDeletion } from '../services/deletionGuard';
+import { DeliveryOutcome, NotificationDelivery, NotificationDeliveryRecord } from '../services/notificationDelivery';
+import {
+    MAX_OUTBOX_ATTEMPTS, NewOutboxMessage, NotificationOutboxDispatcher, OutboxMessage, outboxKey
+} from '../services/notificationOutbox';
+import { EligibilityRule, EligibilitySummary } from '../services/eligibility';
+import { MOCK_PERSCOM_TOKEN, MOCK_STATUSES, MockPerscomServer, startMockPerscomServer } from './mocks/perscomMockServer';
+
+// Only the deletion service's approval buttons open their own connection, and nothing here presses them.
+jest.mock('../services/applicationDatabase', () => ({ withApplicationDatabase: jest.fn() }));
+
+/** The old bot's `old_forms` form ids and `accepted_users` PERSCOM user ids. */
+interface LegacyTables {
+    oldForms: number[];
+    acceptedUserIds: number[];
+}
+
+function createMemoryDatabase(eligibilityRules: EligibilityRule[] = [], legacy: LegacyTables | null = null) {
+    const submissions = new Map<number, Form1Submission>();
+    const applications = new Map<number, { state: ApplicationState; created_at: Date; state_changed_at: Date }>();
+    const history: ApplicationHistoryEntry[] = [];
+    // What migrateLegacyTables leaves behind: every old form received and waiting to be settled.
+    const legacyApplications = new Set(legacy?.oldForms ?? []);
+    for (const formId of legacyApplications) {
+        applications.set(formId, { state: 'received', created_at: new Date(), state_changed_at: new Date() });
+        history.push({
+            form_id: formId, from_state: null, to_state: 'received', source: 'migration', actor_id: null, note: null, created_at: new Date()
+        });
+    }
+    const denials = new Map<number, ApplicationDenial>();
+    const denialRecords: DenialRecord[] = [];
+    const deliveries: NotificationDeliveryRecord[] = [];
+    const outbox: OutboxMessage[] = [];
+    const userDeletions = new Map<number, UserDeletion>();
+    let deletionSuspension: DeletionSuspension | null = null;
+    let cursor: SubmissionSyncCursor | null = null;
+
+    const toApplication = (formId: number): Application => ({
+        ...submissions.get(formId)!,
+        ...applications.get(formId)!
+    });
+
+    const queue = (messages: NewOutboxMessage[], id: number) => {
+        for (const message of messages) {
+            const key = outboxKey(message.kind, id);
+            if (outbox.some(existing => existing.idempotency_key === key)) continue;
+            outbox.push({
+                ...message, id: outbox.length + 1, idempotency_key: key, status: 'pending', attempts: 0,
+                next_attempt_at: new Date(), last_error: null, created_at: new Date(), sent_at: null
+            });
+        }
+    };
+    const outboxMessage = (id: number) => outbox.find(message => message.id === id)!;
+
+    const service = {
+        async getSyncCursor(): Promise<SubmissionSyncCursor | null> {
+            return cursor;
+        },
+        async saveSyncCursor(next: SubmissionSyncCursor): Promise<void> {
+            cursor = next;
+        },
+        async upsertSubmissions(data: Form1Submission[]): Promise<void> {
+            data.forEach(submission => submissions.set(submission.form_id, submission));
+        },
+        async settleLegacyApplications(): Promise<number> {
+            let settled = 0;
+            for (const formId of legacyApplications) {
+                const submission = submissions.get(formId);
+                if (!submission) continue;
+                const application = applications.get(formId)!;
+                if (application.state === 'received' && legacy!.acceptedUserIds.includes(submission.user_id)) {
+                    application.state = 'accepted';
+                    history.push({
+                        form_id: formId, from_state: 'received', to_state: 'accepted', source: 'migration', actor_id: null,
+                        note: 'Accepted by the previous bot', created_at: new Date()
+                    });
+                    settled++;
+                }
+                legacyApplications.delete(formId);
+            }
+            return settled;
+        },
+        async getExistingApplicationIds(formIds: number[]): Promise<Set<number>> {
+            return new Set(formIds.filter(id => applications.has(id)));
+        },
+        async createApplications(data: Form1Submission[], source: TransitionSource, messages: NewOutboxMessage[] = []) {
+            for (const submission of data) {
+                if (applications.has(submission.form_id)) continue;
+                applications.set(submission.form_id, { state: 'received', created_at: new Date(), state_changed_at: new Date() });
+                history.push({
+                    form_id: submission.form_id, from_state: null, to_state: 'received',
+                    source, actor_id: null, note: null, created_at: new Date()
+                });
+                queue(messages.filter(message => message.form_id === submission.form_id), submission.form_id);
+            }
+        },
+        async getApplications(states?: ApplicationState[]): Promise<Application[]> {
+            return Array.from(applications.keys())
+                .filter(id => !states || states.includes(applications.get(id)!.state))
+                .map(toApplication);
+        },
+        async getApplication(formId: number): Promise<Application | null> {
+            return applications.has(formId) ? toApplication(formId) : null;
+        },
+        async transitionApplication(
+            formId: number,
+            from: ApplicationState,
+            to: ApplicationState,
+            source: TransitionSource,
+            actorId: string | null = null,
+            note: string | null = null,
+            messages: NewOutboxMessage[] = []
+        ): Promise<boolean> {
+            const application = applications.get(formId);
+            if (!application || application.state !== from) {
+                return false;
+            }
+            application.state = to;
+            application.state_changed_at = new Date();
+            history.push({ form_id: formId, from_state: from, to_state: to, source, actor_id: actorId, note, created_at: new Date() });
+            queue(messages, history.length);
+            return true;
+        },
+        async getApplicationHistory(formId: number): Promise<ApplicationHistoryEntry[]> {
+            return history.filter(entry => entry.form_id === formId);
+        },
+        async recordDenial(formId: number, denial: ApplicationDenial): Promise<void> {
+            denials.set(formId, denial);
+        },
+        async getReviewerRoutes(): Promise<ReviewerRoute[]> {
+            return [];
+        },
+        async getEligibilityRules(): Promise<EligibilityRule[]> {
+            return eligibilityRules;
+        },
+        async saveApplicationPosts(): Promise<void> {},
+        async saveDenialRecords(records: Omit<DenialRecord, 'denied_at'>[]): Promise<void> {
+            denialRecords.push(...records.map(record => ({ ...record, denied_at: new Date() })));
+        },
+        async getDenialRecordsSince(since: Date, identities: DenialIdentities): Promise<DenialRecord[]> {
+            return denialRecords.filter(record => record.denied_at >= since && (
+                identities.discordIds.includes(record.discord_id ?? '')
+                || identities.emails.includes(record.email_address ?? '')
+                || identities.armaIds.includes(record.arma_3_id ?? '')
+            ));
+        },
+        async saveNotificationDeliveries(records: NotificationDelivery[]): Promise<void> {
+            deliveries.push(...records.map(record => ({ ...record, created_at: new Date() })));
+        },
+        async getNotificationDeliveries(formId: number): Promise<NotificationDeliveryRecord[]> {
+            return deliveries.filter(record => record.form_id === formId);
+        },
+        async getDueOutboxMessages(limit: number): Promise<OutboxMessage[]> {
+            return outbox
+                .filter(message => message.status === 'pending' && message.next_attempt_at <= new Date())
+                .slice(0, limit)
+                .map(message => ({ ...message }));
+        },
+        async markOutboxSent(id: number, attempts: number): Promise<void> {
+            Object.assign(outboxMessage(id), { status: 'sent', attempts, last_error: null, sent_at: new Date() });
+        },
+        async rescheduleOutboxMessage(id: number, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+            Object.assign(outboxMessage(id), { attempts, next_attempt_at: nextAttemptAt, last_error: error });
+        },
+        async markOutboxFailed(id: number, attempts: number, error: string): Promise<void> {
+            Object.assign(outboxMessage(id), { status: 'failed', attempts, last_error: error });
+        },
+        async queueUserDeletions(users: { form_id: number; user_id: number; first_name: string }[]): Promise<void> {
+            for (const user of users) {
+                if (userDeletions.has(user.form_id)) continue;
+                userDeletions.set(user.form_id, {
+                    form_id: user.form_id, perscom_user_id: user.user_id, first_name: user.first_name, status: 'pending',
+                    requested_at: new Date(), decided_by: null, decided_at: null, detail: null
+                });
+            }
+        },
+        async getDeletionSuspension(): Promise<DeletionSuspension | null> {
+            return deletionSuspension;
+        },
+        async suspendDeletions(reason: string): Promise<boolean> {
+            if (deletionSuspension) return false;
+            deletionSuspension = { reason, suspended_at: new Date() };
+            return true;
+        }
+    };
+
+    return {
+        service: service as unknown as DatabaseService,
+        applications,
+        history,
+        denials,
+        denialRecords,
+        deliveries,
+        outbox,
+        userDeletions,
+        getCursor: () => cursor,
+        getDeletionSuspension: () => deletionSuspension
+    };
+}
+
+function deliveryFor(
+    user: { user_id: number; form_id?: number },
+    discordId: string | undefined,
+    outcome: DeliveryOutcome
+): NotificationDelivery[] {
+    return [{
+        form_id: user.form_id ?? null, perscom_user_id: user.user_id, discord_id: discordId ?? null, outcome,
+        method: discordId ? 'dm' : 'channel', status: 'delivered', detail: null
+    }];
+}
+
+function createRecordingNotifications() {
+    const sent = {
+        newApplications: [] as Form1Submission[],
+        accepted: [] as AcceptedUsers[],
+        denied: [] as DeniedUsers[],
+        mentions: new Map<number, string>(),
+        cooldownFlags: new Map<number, CooldownFlag>(),
+        outboxFailures: [] as OutboxMessage[],
+        eligibility: new Map<number, EligibilitySummary>()
+    };
+
+    let failures = 0;
+    const fail = () => {
+        if (failures > 0) {
+            failures--;
+            throw new Error('Discord is unavailable');
+        }
+    };
+
+    const service = {
+        async announceNewApplication(
+            submission: Form1Submission,
+            _routing: unknown,
+            _discordId: string | undefined,
+            cooldownFlag?: CooldownFlag,
+            eligibility?: EligibilitySummary
+        ) {
+            fail();
+            sent.newApplications.push(submission);
+            if (cooldownFlag) sent.cooldownFlags.set(submission.form_id, cooldownFlag);
+            if (eligibility) sent.eligibility.set(submission.form_id, eligibility);
+            return { form_id: submission.form_id, channel_id: 'staff', message_id: `${submission.form_id}` };
+        },
+        async notifyAcceptedUser(user: AcceptedUsers, _routing: unknown, discordId: string | undefined) {
+            fail();
+            sent.accepted.push(user);
+            if (discordId) sent.mentions.set(user.user_id, discordId);
+            return deliveryFor(user, discordId, 'accepted');
+        },
+        async notifyDeniedUser(user: DeniedUsers, discordId: string | undefined) {
+            fail();
+            sent.denied.push(user);
+            if (discordId) sent.mentions.set(user.user_id, discordId);
+            return deliveryFor(user, discordId, 'denied');
+        },
+        async notifyOutboxFailure(message: OutboxMessage) {
+            sent.outboxFailures.push(message);
+        }
+    };
+
+    /** Makes the next `count` sends throw, as if Discord were down. */
+    const failNext = (count: number) => {
+        failures = count;
+    };
+
+    return { service: service as unknown as NotificationService, sent, failNext };
+}
+
+function createAccountLinks(links: Map<number, string> = new Map()) {
+    const service = {
+        async resolveDiscordIds(_databaseService: DatabaseService, applicants: Form1Submission[]): Promise<Map<number, string>> {
+            return new Map(applicants
+                .filter(applicant => links.has(applicant.user_id))
+                .map(applicant => [applicant.user_id, links.get(applicant.user_id)!]));
+        }
+    };
+
+    return { service: service as unknown as AccountLinkService };
+}
+
+function createProvisioning() {
+    const provisioned: AcceptedUsers[] = [];
+    const service = {
+        async provisionAcceptedUsers(_databaseService: DatabaseService, users: AcceptedUsers[]) {
+            provisioned.push(...users);
+            return [];
+        }
+    };
+
+    return { service: service as unknown as MemberProvisioningService, provisioned };
+}
+
+/** Deletes straight away, as the guard does for a small batch without approval. */
+function createDeletions(perscomService: PerscomService) {
+    const requested: DeniedUsers[] = [];
+    const service = {
+        async requestDeletions(_databaseService: DatabaseService, users: DeniedUsers[]) {
+            requested.push(...users);
+            await perscomService.deleteUsers(users);
+        }
+    };
+
+    return { service: service as unknown as UserDeletionService, requested };
+}
+
+/** The real deletion service, posting to a recorded staff channel instead of Discord. */
+function createGuardedDeletions(perscomService: PerscomService, options: DeletionGuardOptions) {
+    const staffPosts: string[] = [];
+    const channel = {
+        async send({ embeds }: { embeds: EmbedBuilder[] }) {
+            staffPosts.push(embeds[0].data.title ?? '');
+        }
+    };
+    const client = { channels: { cache: new Map([['staff', channel]]) } } as unknown as Client;
+
+    return { service: new UserDeletionService(client, 'staff', perscomService, options), staffPosts };
+}
+
+/** Runs a cycle and then delivers what it queued, as the outbox job does right after. */
+async function runCycle(services: ApplicationCycleServices, options?: ApplicationCycleOptions) {
+    const report = await runApplicationCycle(services, options);
+    await dispatchOutbox(services);
+    return report;
+}
+
+function dispatchOutbox(services: ApplicationCycleServices) {
+    return new NotificationOutboxDispatcher(services.notificationService, services.accountLinkService)
+        .dispatch(services.databaseService);
+}
+
+describe('Application cycle against mock PERSCOM', () => {
+    let perscom: MockPerscomServer;
+    let perscomService: PerscomService;
+
+    beforeEach(async () => {
+        perscom = await startMockPerscomServer({ perPage: 2 });
+        perscomService = new PerscomService(new PerscomClient(MOCK_PERSCOM_TOKEN, {
+            baseUrl: perscom.baseUrl,
+            retryDelayMs: 1
+        }));
+    });
+
+    afterEach(async () => {
+        await perscom.close();
+    });
+
+    test('announces, accepts and denies submissions across cycles', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101, first_name: 'Accepted Applicant' });
+        perscom.addSubmission({ id: 2, user_id: 102, first_name: 'Denied Applicant' });
+        perscom.addSubmission({ id: 3, user_id: 103, form_id: 2 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+
+        expect(perscom.cacheClears).toBe(1);
+        expect(notifications.sent.newApplications.map(s => s.form_id)).toEqual([1, 2]);
+        expect(notifications.sent.accepted).toHaveLength(0);
+        expect(notifications.sent.denied).toHaveLength(0);
+
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(2, MOCK_STATUSES.DENIED);
+
+        await runCycle(services);
+
+        expect(notifications.sent.newApplications).toHaveLength(2);
+        expect(notifications.sent.accepted.map(u => u.user_id)).toEqual([101]);
+        expect(notifications.sent.denied.map(u => u.user_id)).toEqual([102]);
+        expect(notifications.sent.denied[0].denial_reason).toBe(DEFAULT_DENIAL_REASON);
+        expect(perscom.users.has(102)).toBe(false);
+        expect(database.applications.get(1)?.state).toBe('accepted');
+        expect(database.applications.get(2)?.state).toBe('denied');
+
+        await runCycle(services);
+
+        expect(notifications.sent.accepted).toHaveLength(1);
+        expect(notifications.sent.denied).toHaveLength(1);
+        expect((await database.service.getApplicationHistory(2)).map(h => [h.from_state, h.to_state, h.source])).toEqual([
+            [null, 'received', 'perscom_poll'],
+            ['received', 'denied', 'perscom_poll']
+        ]);
+    });
+
+    test('moves applications under review and keeps polling them', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        perscom.setSubmissionStatus(1, 5);
+        await runCycle(services);
+
+        expect(database.applications.get(1)?.state).toBe('under_review');
+
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        await runCycle(services);
+
+        expect(database.applications.get(1)?.state).toBe('accepted');
+        expect(notifications.sent.accepted.map(u => u.form_id)).toEqual([1]);
+    });
+
+    test('dry run reports writes without making them', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101, first_name: 'Tracked Applicant' });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const deletions = createDeletions(perscomService);
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: deletions.service
+        };
+
+        await runCycle(services);
+        perscom.addSubmission({ id: 2, user_id: 102, first_name: 'New Applicant' });
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.DENIED);
+        const cursor = database.getCursor();
+
+        const report = await runCycle(services, { dryRun: true });
+
+        expect(report.dryRun).toBe(true);
+        expect(report.skippedWrites).toEqual([
+            'Store 1 synced submission(s)',
+            'Track and announce new application #2 (New Applicant, SO Special Warfare Operator)',
+            'Advance the sync cursor to submission #2',
+            'Move #1 (Tracked Applicant) from received to denied',
+            'Record the denial of #1 (Tracked Applicant), notify them and queue PERSCOM user 101 for deletion'
+        ]);
+        expect(database.applications.get(1)?.state).toBe('received');
+        expect(database.applications.has(2)).toBe(false);
+        expect(database.getCursor()).toEqual(cursor);
+        expect(notifications.sent.newApplications).toHaveLength(1);
+        expect(notifications.sent.denied).toHaveLength(0);
+        expect(deletions.requested).toHaveLength(0);
+        expect(perscom.users.has(101)).toBe(true);
+    });
+
+    test('only fetches submissions past the sync cursor', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101, updated_at: '2025-03-01T10:00:00.000Z' });
+        perscom.addSubmission({ id: 2, user_id: 102, updated_at: '2025-03-01T10:00:00.000Z' });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+
+        expect(database.getCursor()).toEqual({ last_submission_id: 2, last_updated_at: '2025-03-01T10:00:00.000Z' });
+
+        perscom.addSubmission({ id: 3, user_id: 103, updated_at: '2025-03-02T10:00:00.000Z' });
+        perscom.requests.length = 0;
+
+        await runCycle(services);
+
+        expect(perscom.requests.some(r => r.path === '/submissions')).toBe(false);
+        expect(notifications.sent.newApplications.map(s => s.form_id)).toEqual([1, 2, 3]);
+        expect(database.getCursor()?.last_submission_id).toBe(3);
+    });
+
+    test('backfill walks every page and picks up skipped submissions', async () => {
+        for (let id = 1; id <= 5; id++) {
+            perscom.addSubmission({ id, user_id: 100 + id, updated_at: `2025-03-0${id}T10:00:00.000Z` });
+        }
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await database.service.saveSyncCursor({ last_submission_id: 5, last_updated_at: '2025-03-05T10:00:00.000Z' });
+        await runCycle(services);
+
+        expect(notifications.sent.newApplications).toHaveLength(0);
+
+        await runCycle(services, { backfill: true });
+
+        expect(notifications.sent.newApplications.map(s => s.form_id)).toEqual([1, 2, 3, 4, 5]);
+        expect(perscom.requests.filter(r => r.path === '/submissions')).toHaveLength(3);
+        expect(database.getCursor()?.last_submission_id).toBe(5);
+    });
+
+    test('records Discord decisions without announcing them twice', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+
+        const application = (await database.service.getApplication(1))!;
+        await perscomService.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        const applied = await applyApplicationTransitions(services, [{ application, target: 'accepted' }], 'discord', '42');
+
+        expect(applied).toHaveLength(1);
+        expect(perscom.submissionStatuses.get(1)?.map(s => s.id)).toEqual([MOCK_STATUSES.ACCEPTED]);
+
+        await runCycle(services);
+
+        expect(notifications.sent.accepted.map(u => u.form_id)).toEqual([1]);
+        expect(database.history.filter(h => h.to_state === 'accepted')).toEqual([
+            expect.objectContaining({ source: 'discord', actor_id: '42' })
+        ]);
+    });
+
+    test('leaves PERSCOM alone when a Discord decision loses the race', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: createRecordingNotifications().service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+
+        // Both reviewers loaded the application before either decided.
+        const application = (await database.service.getApplication(1))!;
+        const writeStatus = (statusId: number) => () => perscomService.setSubmissionStatus(1, statusId);
+        const accepted = await applyApplicationTransitions(
+            services, [{ application, target: 'accepted' }], 'discord', '42', null, writeStatus(MOCK_STATUSES.ACCEPTED)
+        );
+        const denied = await applyApplicationTransitions(
+            services, [{ application, target: 'denied' }], 'discord', '43', null, writeStatus(MOCK_STATUSES.DENIED)
+        );
+
+        expect(accepted).toHaveLength(1);
+        expect(denied).toHaveLength(0);
+        expect(perscom.submissionStatuses.get(1)?.map(s => s.id)).toEqual([MOCK_STATUSES.ACCEPTED]);
+        expect(perscom.users.has(101)).toBe(true);
+    });
+
+    test('keeps a Discord acceptance when PERSCOM still shows the old status', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.setSubmissionStatus(1, 5);
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const provisioning = createProvisioning();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: provisioning.service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        // Accepted in Discord, but the PERSCOM write failed.
+        const application = (await database.service.getApplication(1))!;
+        await applyApplicationTransitions(services, [{ application, target: 'accepted' }], 'discord', '42');
+        await runCycle(services);
+
+        expect(database.applications.get(1)?.state).toBe('accepted');
+        expect(notifications.sent.accepted.map(user => user.form_id)).toEqual([1]);
+        expect(provisioning.provisioned.map(user => user.form_id)).toEqual([1]);
+    });
+
+    test('stores and announces the reviewer-chosen denial reason', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+
+        const denial: ApplicationDenial = {
+            reason_id: 3,
+            reason_label: 'Incomplete application',
+            reason_message: 'Please answer every question.',
+            note: 'The motivation answer was blank.',
+            denied_by: '42'
+        };
+        const application = (await database.service.getApplication(1))!;
+        await applyApplicationTransitions(services, [{ application, target: 'denied', denial }], 'discord', '42', denial.note);
+        await dispatchOutbox(services);
+
+        expect(database.denials.get(1)).toEqual(denial);
+        expect(notifications.sent.denied).toEqual([
+            expect.objectContaining({
+                form_id: 1,
+                denial_reason: 'Please answer every question.',
+                denial_note: 'The motivation answer was blank.'
+            })
+        ]);
+        expect(perscom.users.has(101)).toBe(false);
+    });
+
+    test('keeps announcements queued until Discord accepts them', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        notifications.failNext(1);
+        await runCycle(services);
+
+        expect(database.applications.get(1)?.state).toBe('received');
+        expect(notifications.sent.newApplications).toHaveLength(0);
+        expect(database.outbox).toEqual([expect.objectContaining({
+            idempotency_key: 'new-1', status: 'pending', attempts: 1, last_error: 'Discord is unavailable'
+        })]);
+
+        database.outbox[0].next_attempt_at = new Date(0);
+        await runCycle(services);
+
+        expect(notifications.sent.newApplications.map(s => s.form_id)).toEqual([1]);
+        expect(database.outbox).toEqual([expect.objectContaining({ status: 'sent', attempts: 2 })]);
+    });
+
+    test('reports notifications that keep failing to staff', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        notifications.failNext(MAX_OUTBOX_ATTEMPTS);
+        await runCycle(services);
+        for (let attempt = 1; attempt < MAX_OUTBOX_ATTEMPTS; attempt++) {
+            database.outbox[1].next_attempt_at = new Date(0);
+            await dispatchOutbox(services);
+        }
+
+        expect(database.applications.get(1)?.state).toBe('accepted');
+        expect(notifications.sent.accepted).toHaveLength(0);
+        expect(database.outbox[1]).toEqual(expect.objectContaining({
+            idempotency_key: 'accepted-2', status: 'failed', attempts: MAX_OUTBOX_ATTEMPTS
+        }));
+        expect(notifications.sent.outboxFailures.map(message => message.idempotency_key)).toEqual(['accepted-2']);
+    });
+
+    test('mentions and provisions applicants through their stored account link', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.addSubmission({ id: 2, user_id: 102 });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const provisioning = createProvisioning();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks(new Map([[101, '900000000000000001']])).service,
+            memberProvisioningService: provisioning.service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(2, MOCK_STATUSES.DENIED);
+        await runCycle(services);
+
+        expect(notifications.sent.mentions.get(101)).toBe('900000000000000001');
+        expect(notifications.sent.mentions.has(102)).toBe(false);
+        expect(provisioning.provisioned.map(u => u.user_id)).toEqual([101]);
+        expect(database.deliveries.map(d => [d.form_id, d.outcome, d.method])).toEqual([
+            [1, 'accepted', 'dm'],
+            [2, 'denied', 'channel']
+        ]);
+    });
+
+    test('takes over from the old bot without repeating its announcements', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.addSubmission({ id: 2, user_id: 102 });
+        perscom.addSubmission({ id: 3, user_id: 103 });
+        perscom.addSubmission({ id: 4, user_id: 104 });
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(2, MOCK_STATUSES.ACCEPTED);
+
+        const database = createMemoryDatabase([], { oldForms: [1, 2, 3], acceptedUserIds: [101] });
+        const notifications = createRecordingNotifications();
+        const provisioning = createProvisioning();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: provisioning.service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        await runCycle(services);
+
+        // Only the submission the old bot never saw is new, and only the acceptance it missed is announced.
+        expect(notifications.sent.newApplications.map(s => s.form_id)).toEqual([4]);
+        expect(notifications.sent.accepted.map(u => u.user_id)).toEqual([102]);
+        expect(provisioning.provisioned.map(u => u.user_id)).toEqual([102]);
+        expect([1, 2, 3, 4].map(id => database.applications.get(id)?.state)).toEqual(['accepted', 'accepted', 'received', 'received']);
+        expect((await database.service.getApplicationHistory(1)).map(h => [h.from_state, h.to_state, h.source])).toEqual([
+            [null, 'received', 'migration'],
+            ['received', 'accepted', 'migration']
+        ]);
+    });
+
+    test('flags reapplications inside the cooldown window', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101, email_address: 'Repeat@Example.com' });
+
+        const database = createMemoryDatabase();
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.DENIED);
+        await runCycle(services);
+
+        expect(database.denialRecords).toEqual([expect.objectContaining({
+            form_id: 1,
+            email_address: 'repeat@example.com',
+            reason_message: DEFAULT_DENIAL_REASON
+        })]);
+
+        perscom.addSubmission({ id: 2, user_id: 201, email_address: 'repeat@example.com ' });
+        perscom.addSubmission({ id: 3, user_id: 301 });
+        await runCycle(services, { reapplyCooldownDays: 14 });
+
+        expect(Array.from(notifications.sent.cooldownFlags.keys())).toEqual([2]);
+        expect(notifications.sent.cooldownFlags.get(2)?.matchedOn).toEqual(['email']);
+        expect(notifications.sent.cooldownFlags.get(2)?.denial.form_id).toBe(1);
+    });
+
+    test('checks eligibility on arrival and acts on clear failures', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.addSubmission({ id: 2, user_id: 102, date_of_birth: '2099-01-01' });
+        perscom.addSubmission({ id: 3, user_id: 103, date_of_birth: `${new Date().getUTCFullYear() - 10}-01-01` });
+        perscom.addSubmission({ id: 4, user_id: 104, arma_3_id: 'not-an-id' });
+
+        const rules: EligibilityRule[] = [
+            {
+                id: 1, type: 'min_age', value: '16', action: 'deny', denial_reason_id: 1,
+                reason_label: 'Age requirement', reason_message: 'Minimum age requirement is 16+.'
+            },
+            {
+                id: 2, type: 'arma_id_format', value: '^7656119\\d{10}$', action: 'hold', denial_reason_id: null,
+                reason_label: null, reason_message: null
+            }
+        ];
+        const database = createMemoryDatabase(rules);
+        const notifications = createRecordingNotifications();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: notifications.service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services, { holdStatusId: 5 });
+
+        expect(notifications.sent.eligibility.get(1)?.checks.map(check => check.status)).toEqual(['pass', 'pass']);
+        expect(notifications.sent.eligibility.get(2)).toEqual(expect.objectContaining({ action: null }));
+        expect(notifications.sent.eligibility.get(2)?.checks[0].status).toBe('unknown');
+        expect(notifications.sent.eligibility.get(3)).toEqual(expect.objectContaining({
+            action: 'deny', rule: 'At least 16 years old'
+        }));
+        expect(notifications.sent.eligibility.get(4)?.action).toBe('hold');
+
+        expect(Array.from(database.applications.entries()).map(([id, application]) => [id, application.state])).toEqual([
+            [1, 'received'], [2, 'received'], [3, 'denied'], [4, 'under_review']
+        ]);
+        expect(database.denials.get(3)).toEqual(expect.objectContaining({
+            reason_id: 1, reason_message: 'Minimum age requirement is 16+.'
+        }));
+        expect(notifications.sent.denied.map(user => [user.form_id, user.denial_reason])).toEqual([
+            [3, 'Minimum age requirement is 16+.']
+        ]);
+        expect(perscom.submissionStatuses.get(3)?.map(status => status.id)).toEqual([MOCK_STATUSES.DENIED]);
+        expect(perscom.submissionStatuses.get(4)?.map(status => status.id)).toEqual([5]);
+        expect(database.history.filter(entry => entry.source === 'eligibility').map(entry => entry.form_id)).toEqual([3, 4]);
+    });
+
+    test('sends automatic denials through the deletion guard as one batch', async () => {
+        const rules: EligibilityRule[] = [{
+            id: 1, type: 'min_age', value: '16', action: 'deny', denial_reason_id: 1,
+            reason_label: 'Age requirement', reason_message: 'Minimum age requirement is 16+.'
+        }];
+        const tooYoung = `${new Date().getUTCFullYear() - 10}-01-01`;
+        const database = createMemoryDatabase(rules);
+        const deletions = createGuardedDeletions(perscomService, { requireApproval: false, maxPerCycle: 2 });
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: createRecordingNotifications().service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: deletions.service
+        };
+
+        perscom.addSubmission({ id: 1, user_id: 101, date_of_birth: tooYoung });
+        await runCycle(services);
+
+        expect(deletions.staffPosts).toEqual(['Delete Denied Applicant from PERSCOM?']);
+        expect(database.userDeletions.get(1)?.status).toBe('pending');
+        expect(perscom.users.has(101)).toBe(true);
+
+        for (let id = 2; id <= 4; id++) {
+            perscom.addSubmission({ id, user_id: 100 + id, date_of_birth: tooYoung });
+        }
+        await runCycle(services);
+
+        expect(Array.from(database.applications.values()).map(application => application.state)).toEqual([
+            'denied', 'denied', 'denied', 'denied'
+        ]);
+        expect(database.getDeletionSuspension()?.reason).toBe('3 denials in one batch is over the limit of 2');
+        expect(deletions.staffPosts.slice(1)).toEqual(['PERSCOM Deletions Suspended']);
+        expect(Array.from(database.userDeletions.values()).map(deletion => deletion.status)).toEqual([
+            'pending', 'pending', 'pending', 'pending'
+        ]);
+        expect([101, 102, 103, 104].filter(userId => perscom.users.has(userId))).toHaveLength(4);
+    });
+
+    test('stops re-checking acceptances once they have settled', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.addSubmission({ id: 2, user_id: 102 });
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(2, MOCK_STATUSES.ACCEPTED);
+
+        const database = createMemoryDatabase();
+        const services = {
+            perscomService,
+            databaseService: database.service,
+            notificationService: createRecordingNotifications().service,
+            accountLinkService: createAccountLinks().service,
+            memberProvisioningService: createProvisioning().service,
+            userDeletionService: createDeletions(perscomService).service
+        };
+
+        await runCycle(services);
+        database.applications.get(1)!.state_changed_at = new Date(Date.now() - (ACCEPTED_RECHECK_DAYS + 1) * 24 * 60 * 60 * 1000);
+        perscom.requests.length = 0;
+        await runCycle(services);
+
+        expect(perscom.requests.filter(request => request.path.endsWith('/statuses')).map(request => request.path))
+            .toEqual([expect.stringContaining('/2/')]);
+    });
+
+    test('resolves each submission status once per cycle', async () => {
+        for (let id = 1; id <= 6; id++) {
+            perscom.addSubmission({ id, user_id: 100 + id });
+        }
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.DENIED);
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(2, MOCK_STATUSES.DENIED);
+        perscom.setSubmissionStatus(3, 5);
+
+        const statuses = await perscomService.resolveSubmissionStatuses(
+            perscom.submissions.map(s => ({ ...s, form_id: s.id })),
+            3
+        );
+
+        expect(perscom.requests.filter(r => r.path.endsWith('/statuses'))).toHaveLength(6);
+        expect(statuses.get(1)?.id).toBe(MOCK_STATUSES.ACCEPTED);
+        expect(statuses.get(2)?.id).toBe(MOCK_STATUSES.DENIED);
+        expect(statuses.get(3)?.id).toBe(5);
+        expect(statuses.get(4)).toBeNull();
+    });
+
+    test('takes the most recently attached status rather than the last one listed', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.setSubmissionStatus(1, 5);
+        perscom.setSubmissionStatus(1, MOCK_STATUSES.ACCEPTED);
+        perscom.setSubmissionStatus(1, 5);
+
+        const statuses = await perscomService.resolveSubmissionStatuses([{ ...perscom.submissions[0], form_id: 1 }]);
+
+        expect(perscom.submissionStatuses.get(1)?.map(status => status.id)).toEqual([5, MOCK_STATUSES.ACCEPTED]);
+        expect(statuses.get(1)?.id).toBe(5);
+    });
+
+    test('retries rate-limited and failing requests', async () => {
+        perscom.addSubmission({ id: 1, user_id: 101 });
+        perscom.failNextRequests(1, { status: 429, retryAfter: '0' });
+        perscom.failNextRequests(1, { status: 503 });
+
+        await perscomService.clearCache();
+
+        expect(perscom.cacheClears).toBe(1);
+        expect(perscom.requests.filter(r => r.path === '/cache')).toHaveLength(3);
+    });
+
+    test('surfaces typed errors once retries are exhausted', async () => {
+        perscom.failNextRequests(10, { status: 500 });
+
+        await expect(perscomService.syncForm1Submissions(null)).rejects.toBeInstanceOf(PerscomHttpError);
+        expect(perscom.requests).toHaveLength(4);
+    });
+
+    test('does not retry client errors', async () => {
+        const service = new PerscomService(new PerscomClient('wrong-token', { baseUrl: perscom.baseUrl }));
+
+        await expect(service.syncForm1Submissions(null)).rejects.toMatchObject({ status: 401 });
+        expect(perscom.requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,28 @@
+import { formatHours, median, summarizeDecisionTimes } from '../services/applicationStats';
+import { chunkLines } from '../utils/pagination';
+
+describe('application statistics', () => {
+    test('takes the median of odd and even samples', () => {
+        expect(median([])).toBeNull();
+        expect(median([5, 1, 3])).toBe(3);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+    });
+
+    test('summarizes hours from receipt to decision', () => {
+        const received = new Date('2025-03-01T00:00:00.000Z');
+        const summary = summarizeDecisionTimes([
+            { created_at: received, decided_at: new Date('2025-03-01T06:00:00.000Z') },
+            { created_at: received, decided_at: new Date('2025-03-02T00:00:00.000Z') },
+            { created_at: received, decided_at: new Date('2025-03-04T00:00:00.000Z') }
+        ]);
+
+        expect(summary).toEqual({ decided: 3, medianHours: 24, averageHours: 34 });
+        expect(formatHours(summary.medianHours)).toBe('24h');
+        expect(formatHours(76)).toBe('3d 4h');
+    });
+
+    test('pages lines by count and length', () => {
+        expect(chunkLines(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['c']]);
+        expect(chunkLines(['aaaa', 'bbbb'], 10, 6)).toEqual([['aaaa'], ['bbbb']]);
+    });
+});
@@ -0,0 +1,55 @@
+import { buildAttendanceExport, parseExportQuery, toAttendanceCsv } from '../services/attendanceExport';
+import { RaidSchedule } from '../services/raidSchedule';
+
+const schedule = new RaidSchedule([
+    { id: 1, weekday: 3, label: null, effective_from: '2025-02-08', effective_until: null },
+    { id: 2, weekday: 6, label: null, effective_from: '2025-02-08', effective_until: null }
+], [], '2025-02-08');
+const range = { from: '2025-03-01', to: '2025-03-08' };
+
+describe('attendance export', () => {
+    const data = buildAttendanceExport(schedule, [
+        { id: '2', displayName: '=HYPERLINK("x")' },
+        { id: '1', displayName: 'Alpha One' }
+    ], [
+        { date: new Date('2025-03-02T01:00:00Z'), minutes: 90, raid_type: 'SAT', player: 'AlphaOne' },
+        { date: new Date('2025-03-02T04:30:00Z'), minutes: 30, raid_type: 'SAT', player: 'Alpha One' },
+        { date: new Date('2025-03-06T01:00:00Z'), minutes: 0, raid_type: 'WED', status: 'LOA', player: 'Alpha One' }
+    ], [], range, new Date('2025-03-10T00:00:00Z'));
+
+    test('summarizes each member and their raid nights', () => {
+        expect(data.raids).toEqual(['2025-03-01', '2025-03-05', '2025-03-08']);
+        expect(data.members.find(member => member.discord_id === '1')).toEqual({
+            discord_id: '1',
+            name: 'Alpha One',
+            rate: 50,
+            attended: 1,
+            expected: 2,
+            excused: 1,
+            nights: [
+                { date: '2025-03-01', status: 'present', minutes: 120 },
+                { date: '2025-03-05', status: 'excused', minutes: 0 },
+                { date: '2025-03-08', status: 'absent', minutes: 0 }
+            ]
+        });
+    });
+
+    test('writes one CSV row per member per night and defuses formulas', () => {
+        const lines = toAttendanceCsv(data).trimEnd().split('\r\n');
+
+        expect(lines[0]).toBe('date,discord_id,member,status,minutes,rate');
+        expect(lines[4]).toBe('2025-03-01,1,Alpha One,present,120,50');
+        expect(lines[1]).toBe('2025-03-01,2,"\'=HYPERLINK(""x"")",absent,0,0');
+        expect(lines).toHaveLength(7);
+    });
+
+    test('reads API query filters', () => {
+        expect(parseExportQuery({ from: '2025-03-01', to: '2025-03-08', member: '1,2', format: 'csv' }, '2025-03-10', '2025-02-08'))
+            .toEqual({ filter: { range, memberIds: ['1', '2'], roleId: null }, format: 'csv' });
+        expect(parseExportQuery({ month: '02/2025', role: '42' }, '2025-03-10', '2025-02-08'))
+            .toEqual({ filter: { range: { from: '2025-02-08', to: '2025-02-28' }, memberIds: [], roleId: '42' }, format: 'json' });
+        expect(parseExportQuery({ format: 'xlsx' }, '2025-03-10', '2025-02-08')).toMatch(/format/);
+        expect(parseExportQuery({ member: 'bob' }, '2025-03-10', '2025-02-08')).toMatch(/Discord IDs/);
+        expect(parseExportQuery({ to: '2025-03-08' }, '2025-03-10', '2025-02-08')).toBe('Give a from date as well as a to date.');
+    });
+});
@@ -0,0 +1,58 @@
+import { buildAttendanceReport, resolveReportRange, sortAttendanceReport } from '../services/attendanceReport';
+import { RaidSchedule } from '../services/raidSchedule';
+
+// Wednesdays and Saturdays: Mar 1, 5, 8, 12 and 15 in the range below.
+const schedule = new RaidSchedule([
+    { id: 1, weekday: 3, label: null, effective_from: '2025-02-08', effective_until: null },
+    { id: 2, weekday: 6, label: null, effective_from: '2025-02-08', effective_until: null }
+], [], '2025-02-08');
+const range = { from: '2025-03-01', to: '2025-03-15' };
+
+function record(player: string, iso: string, status?: string) {
+    return { date: new Date(iso), minutes: 120, raid_type: 'SAT', status, player };
+}
+
+describe('attendance report', () => {
+    const rows = buildAttendanceReport(schedule, [
+        { id: '1', displayName: 'Alpha One' },
+        { id: '2', displayName: 'Bravo' },
+        { id: '3', displayName: 'Charlie' },
+        { id: '4', displayName: 'Delta' }
+    ], [
+        record('AlphaOne', '2025-03-02T01:00:00Z'),
+        record('Alpha One', '2025-03-06T01:00:00Z'),
+        record('Alpha One', '2025-03-09T01:00:00Z'),
+        record('Bravo', '2025-03-02T01:00:00Z'),
+        record('Bravo', '2025-03-06T01:00:00Z', 'Excused')
+    ], [
+        {
+            id: 1, discord_id: '4', start_date: '2025-02-20', end_date: '2025-03-20', reason: 'Deployment',
+            status: 'approved', requested_at: new Date(), decided_by: '9', decided_at: new Date()
+        }
+    ], range);
+
+    test('tallies every member against the same raid nights', () => {
+        const byName = new Map(rows.map(row => [row.displayName, row]));
+
+        expect(byName.get('Alpha One')).toMatchObject({ rate: 60, tally: { attended: ['2025-03-01', '2025-03-05', '2025-03-08'] } });
+        expect(byName.get('Bravo')).toMatchObject({ rate: 25, tally: { excused: ['2025-03-05'] } });
+        expect(byName.get('Charlie')?.rate).toBe(0);
+        expect(byName.get('Delta')).toMatchObject({ rate: null, tally: { raidDays: [] } });
+    });
+
+    test('sorts with members who had nothing to count last', () => {
+        expect(sortAttendanceReport(rows, 'rate_asc').map(row => row.displayName)).toEqual(['Charlie', 'Bravo', 'Alpha One', 'Delta']);
+        expect(sortAttendanceReport(rows, 'rate_desc').map(row => row.displayName)).toEqual(['Alpha One', 'Bravo', 'Charlie', 'Delta']);
+        expect(sortAttendanceReport(rows, 'missed').map(row => row.displayName)).toEqual(['Charlie', 'Bravo', 'Alpha One', 'Delta']);
+        expect(sortAttendanceReport(rows, 'name').map(row => row.displayName)).toEqual(['Alpha One', 'Bravo', 'Charlie', 'Delta']);
+    });
+
+    test('resolves months and ranges up to today', () => {
+        expect(resolveReportRange(null, null, null, '2025-03-15', '2025-02-08')).toEqual({ from: '2025-03-01', to: '2025-03-15' });
+        expect(resolveReportRange('02/2025', null, null, '2025-03-15', '2025-02-08')).toEqual({ from: '2025-02-08', to: '2025-02-28' });
+        expect(resolveReportRange('02/2025', '2025-03-01', null, '2025-03-15', '2025-02-08')).toEqual({ from: '2025-03-01', to: '2025-03-15' });
+        expect(resolveReportRange(null, null, '2025-03-10', '2025-03-15', '2025-02-08')).toMatch(/from/);
+        expect(resolveReportRange('13/2025', null, null, '2025-03-15', '2025-02-08')).toMatch(/MM\/YYYY/);
+        expect(resolveReportRange('01/2025', null, null, '2025-03-15', '2025-02-08')).toMatch(/tracking began/);
+    });
+});
@@ -0,0 +1,34 @@
+import {
+    confirmDeletionCustomId, isDeletionCustomId, keepDeletionCustomId, parseDeletionCustomId, planDeletions
+} from '../services/deletionGuard';
+
+describe('planDeletions', () => {
+    const automatic = { requireApproval: false, maxPerCycle: 3 };
+
+    test('deletes small batches straight away', () => {
+        expect(planDeletions(3, automatic, false)).toBe('delete');
+    });
+
+    test('asks for approval when configured', () => {
+        expect(planDeletions(1, { ...automatic, requireApproval: true }, false)).toBe('approve');
+    });
+
+    test('trips the guard on batches over the limit', () => {
+        expect(planDeletions(4, automatic, false)).toBe('trip');
+        expect(planDeletions(4, { ...automatic, requireApproval: true }, false)).toBe('trip');
+    });
+
+    test('holds everything while suspended', () => {
+        expect(planDeletions(1, automatic, true)).toBe('hold');
+    });
+});
+
+describe('deletion custom ids', () => {
+    test('round-trip', () => {
+        expect(parseDeletionCustomId(confirmDeletionCustomId(42))).toEqual({ action: 'confirm', formId: 42 });
+        expect(parseDeletionCustomId(keepDeletionCustomId(7))).toEqual({ action: 'keep', formId: 7 });
+        expect(parseDeletionCustomId('perscom-delete-confirm-x')).toBeNull();
+        expect(isDeletionCustomId(keepDeletionCustomId(7))).toBe(true);
+        expect(isDeletionCustomId('account-link-none-7')).toBe(false);
+    });
+});
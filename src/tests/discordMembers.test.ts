@@ -0,0 +1,38 @@
+import { DiscordMember, matchDiscordMember } from '../utils/discordMembers';
+
+const member = (username: string, displayName = username, nickname: string | null = null): DiscordMember => ({
+    username,
+    discord_id: `id-${username}`,
+    nickname,
+    displayName
+});
+
+describe('matchDiscordMember', () => {
+    const members = [
+        member('sparrow'),
+        member('sparrow_two'),
+        member('sparrowhawk', 'Hawk'),
+        member('ghost', 'Ghost', 'John')
+    ];
+
+    test('trusts a unique exact username match', () => {
+        const result = matchDiscordMember(members, ' Sparrow ', 'Someone');
+
+        expect(result.match?.discord_id).toBe('id-sparrow');
+        expect(result.candidates).toEqual([]);
+    });
+
+    test('only offers prefix and name matches as candidates', () => {
+        const result = matchDiscordMember(members, 'sparrowh', 'John');
+
+        expect(result.match).toBeNull();
+        expect(result.candidates.map(c => c.username)).toEqual(['sparrowhawk', 'ghost']);
+    });
+
+    test('does not prefix-match an empty Discord name', () => {
+        const result = matchDiscordMember(members, '   ', 'John');
+
+        expect(result.match).toBeNull();
+        expect(result.candidates.map(c => c.username)).toEqual(['ghost']);
+    });
+});
@@ -0,0 +1,59 @@
+import { EligibilityRule, ageOn, checkEligibility, parseRuleValue } from '../services/eligibility';
+import { Form1Submission } from '../services/request_perscom';
+
+const submission: Form1Submission = {
+    first_name: 'Applicant',
+    discord_name: 'applicant',
+    preferred_position: 'Special Warfare Operator',
+    user_id: 1,
+    form_id: 1,
+    date_of_birth: '2010-06-15',
+    arma_3_id: '76561198000000001'
+};
+
+function rule(overrides: Partial<EligibilityRule>): EligibilityRule {
+    return {
+        id: 1, type: 'min_age', value: '16', action: 'flag', denial_reason_id: null, reason_label: null, reason_message: null,
+        ...overrides
+    };
+}
+
+describe('eligibility rules', () => {
+    const now = new Date('2026-06-14T12:00:00Z');
+
+    test('counts age in whole years', () => {
+        expect(ageOn('2010-06-15', now)).toBe(15);
+        expect(ageOn('2010-06-14', now)).toBe(16);
+        expect(ageOn('not a date', now)).toBeNull();
+        expect(ageOn(undefined, now)).toBeNull();
+    });
+
+    test('picks the strongest action among failed rules', () => {
+        const result = checkEligibility(submission, [
+            rule({ id: 1, action: 'hold' }),
+            rule({ id: 2, type: 'position', value: 'Pilot, Medic', action: 'deny' }),
+            rule({ id: 3, type: 'arma_id_format', value: '^\\d{17}$', action: 'deny' })
+        ], now);
+
+        expect(result.checks.map(check => check.status)).toEqual(['fail', 'fail', 'pass']);
+        expect(result.action).toBe('deny');
+        expect(result.rule?.id).toBe(2);
+    });
+
+    test('never acts on flags or missing answers', () => {
+        const result = checkEligibility({ ...submission, arma_3_id: undefined }, [
+            rule({ action: 'flag' }),
+            rule({ id: 2, type: 'arma_id_format', value: '^\\d{17}$', action: 'deny' })
+        ], now);
+
+        expect(result.checks.map(check => check.status)).toEqual(['fail', 'unknown']);
+        expect(result.action).toBeNull();
+    });
+
+    test('validates rule values', () => {
+        expect(parseRuleValue('min_age', ' 16 ')).toBe('16');
+        expect(parseRuleValue('position', 'Pilot,  Medic ,')).toBe('Pilot, Medic');
+        expect(() => parseRuleValue('min_age', 'sixteen')).toThrow();
+        expect(() => parseRuleValue('arma_id_format', '([')).toThrow();
+    });
+});
@@ -0,0 +1,77 @@
+import {
+    findInactiveMembers, inactivityAlert, inactivityCustomId, inactivityWindow, parseInactivityCustomId, reportWeekKey,
+    trailingMisses
+} from '../services/inactivity';
+import { MemberAttendance } from '../services/attendanceReport';
+
+const raidDays = ['2025-03-01', '2025-03-05', '2025-03-08', '2025-03-12', '2025-03-15'];
+
+function member(displayName: string, attended: string[], days: string[] = raidDays): MemberAttendance {
+    return {
+        id: displayName.length.toString(),
+        displayName,
+        tally: { raidDays: days, attended, excused: [] },
+        rate: days.length > 0 ? Math.round((attended.length / days.length) * 100) : null
+    };
+}
+
+const options = { missedInARow: 3, minRate: 50, windowWeeks: 4 };
+
+describe('inactivity detection', () => {
+    test('counts misses back to the last attended raid', () => {
+        expect(trailingMisses({ raidDays, attended: ['2025-03-05'], excused: [] })).toEqual(['2025-03-08', '2025-03-12', '2025-03-15']);
+        expect(trailingMisses({ raidDays, attended: ['2025-03-15'], excused: [] })).toEqual([]);
+    });
+
+    test('flags long streaks and low rates, worst streak first', () => {
+        const inactive = findInactiveMembers([
+            member('Steady', raidDays),
+            member('Fading', ['2025-03-01', '2025-03-05']),
+            member('Gone', []),
+            member('Patchy', ['2025-03-01', '2025-03-15']),
+            member('OnLeave', [], [])
+        ], options);
+
+        expect(inactive.map(row => [row.displayName, row.reasons])).toEqual([
+            ['Gone', ['missed the last 5 raids', '0% over 4 weeks']],
+            ['Fading', ['missed the last 3 raids', '40% over 4 weeks']],
+            ['Patchy', ['40% over 4 weeks']]
+        ]);
+        expect(inactive[1].missedSince).toBe('2025-03-08');
+        expect(inactive[2].missedSince).toBeNull();
+    });
+
+    test('points rate-only alerts at the last raid missed', () => {
+        const range = { from: '2025-02-17', to: '2025-03-16' };
+        const [fading, patchy] = findInactiveMembers([
+            member('Fading', ['2025-03-01', '2025-03-05']),
+            member('Patchy', ['2025-03-01', '2025-03-15'])
+        ], options);
+
+        expect(inactivityAlert(fading, range)).toEqual({ reason: 'streak', start: '2025-03-08' });
+        expect(inactivityAlert(patchy, range)).toEqual({ reason: 'rate', start: '2025-03-12' });
+    });
+
+    test('covers whole weeks up to last night', () => {
+        expect(inactivityWindow('2025-03-17', 4)).toEqual({ from: '2025-02-17', to: '2025-03-16' });
+    });
+
+    test('posts once per week from the configured day and hour', () => {
+        // Monday 16:00 UTC
+        expect(reportWeekKey(new Date('2025-03-17T15:59:00Z'), 1, 16)).toBe('2025-03-10');
+        expect(reportWeekKey(new Date('2025-03-17T16:00:00Z'), 1, 16)).toBe('2025-03-17');
+        expect(reportWeekKey(new Date('2025-03-22T09:00:00Z'), 1, 16)).toBe('2025-03-17');
+    });
+
+    test('round-trips button IDs', () => {
+        const customId = inactivityCustomId('leave', '249242679211196417', '2025-03-08');
+        expect(customId.length).toBeLessThanOrEqual(100);
+        expect(parseInactivityCustomId(customId)).toEqual({
+            action: 'leave', discordId: '249242679211196417', start: '2025-03-08', reason: 'streak'
+        });
+        expect(parseInactivityCustomId(inactivityCustomId('checkin', '1', '2025-03-12', 'rate'))).toEqual({
+            action: 'checkin', discordId: '1', start: '2025-03-12', reason: 'rate'
+        });
+        expect(parseInactivityCustomId('inactivity-leave-1-20250230')).toBeNull();
+    });
+});
@@ -0,0 +1,18 @@
+import {
+    bookInterviewCustomId, interviewSlotCustomId, isInterviewCustomId, parseBookInterviewCustomId,
+    parseInterviewSlotCustomId, parseSlotStart
+} from '../services/interviewActions';
+
+describe('interview actions', () => {
+    test('round-trips booking custom IDs', () => {
+        expect(parseBookInterviewCustomId(bookInterviewCustomId(42))).toEqual({ formId: 42 });
+        expect(parseInterviewSlotCustomId(interviewSlotCustomId(42, 7))).toEqual({ formId: 42, slotId: 7 });
+        expect(isInterviewCustomId('application-review-accept-42')).toBe(false);
+    });
+
+    test('parses slot start times as UTC', () => {
+        expect(parseSlotStart('2025-03-10 23:30')?.toISOString()).toBe('2025-03-10T23:30:00.000Z');
+        expect(parseSlotStart('2025-02-30 10:00')).toBeNull();
+        expect(parseSlotStart('10/03/2025 23:30')).toBeNull();
+    });
+});
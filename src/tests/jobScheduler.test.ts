@@ -0,0 +1,126 @@
+import { JobRun, JobScheduler, JobState, JobStore, nextDelay } from '../services/jobScheduler';
+
+function createMemoryStore(saved: JobState[] = []) {
+    const runs: Array<{ name: string; run: JobRun; consecutiveFailures: number }> = [];
+    const paused = new Map<string, boolean>();
+    const store: JobStore = {
+        async getJobStates() {
+            return saved;
+        },
+        async saveJobRun(name, run, consecutiveFailures) {
+            runs.push({ name, run, consecutiveFailures });
+        },
+        async setJobPaused(name, value) {
+            paused.set(name, value);
+        }
+    };
+    return { store, runs, paused };
+}
+
+describe('nextDelay', () => {
+    const options = { jitterRatio: 0.1, maxBackoffMs: 60 * 60 * 1000 };
+
+    test('uses the interval while healthy and jitters it', () => {
+        expect(nextDelay(300000, 0, options, () => 0.5)).toBe(300000);
+        expect(nextDelay(300000, 0, options, () => 0)).toBe(270000);
+        expect(nextDelay(300000, 0, options, () => 1)).toBe(330000);
+    });
+
+    test('backs off exponentially after failures up to the cap', () => {
+        expect(nextDelay(300000, 1, options, () => 0.5)).toBe(600000);
+        expect(nextDelay(300000, 3, options, () => 0.5)).toBe(2400000);
+        expect(nextDelay(300000, 10, options, () => 0.5)).toBe(3600000);
+    });
+
+    test('never backs off below a long interval', () => {
+        expect(nextDelay(86400000, 2, options, () => 0.5)).toBe(86400000);
+    });
+});
+
+describe('JobScheduler', () => {
+    test('records successes and failure streaks', async () => {
+        const { store, runs } = createMemoryStore();
+        const scheduler = new JobScheduler(store);
+        let fail = true;
+        scheduler.register({
+            name: 'flaky',
+            description: 'Fails once',
+            intervalMs: 1000,
+            run: async () => {
+                if (fail) throw new Error('PERSCOM timed out');
+            }
+        });
+
+        const failed = await scheduler.runNow('flaky');
+        fail = false;
+        const succeeded = await scheduler.runNow('flaky');
+
+        expect(failed).toMatchObject({ status: 'ran', run: { result: 'failure', error: 'PERSCOM timed out' } });
+        expect(succeeded).toMatchObject({ status: 'ran', run: { result: 'success', error: null } });
+        expect(runs.map(entry => entry.consecutiveFailures)).toEqual([1, 0]);
+        expect(scheduler.list()[0]).toMatchObject({ name: 'flaky', last_result: 'success', consecutive_failures: 0 });
+    });
+
+    test('refuses to start a job that is already running', async () => {
+        const { store } = createMemoryStore();
+        const scheduler = new JobScheduler(store);
+        let finish: () => void = () => {};
+        scheduler.register({
+            name: 'slow',
+            description: 'Waits',
+            intervalMs: 1000,
+            run: () => new Promise<void>(resolve => { finish = resolve; })
+        });
+
+        const first = scheduler.runNow('slow');
+        expect(scheduler.list()[0].running).toBe(true);
+        await expect(scheduler.runNow('slow')).resolves.toEqual({ status: 'busy' });
+
+        finish();
+        await expect(first).resolves.toMatchObject({ status: 'ran' });
+        expect(scheduler.list()[0].running).toBe(false);
+    });
+
+    test('a trigger during a run queues exactly one more run', async () => {
+        const { store, runs } = createMemoryStore();
+        const scheduler = new JobScheduler(store);
+        const finishers: Array<() => void> = [];
+        scheduler.register({
+            name: 'cycle',
+            description: 'Cycle',
+            intervalMs: 1000,
+            run: () => new Promise<void>(resolve => { finishers.push(resolve); })
+        });
+
+        const first = scheduler.runNow('cycle');
+        expect(scheduler.trigger('cycle')).toBe(true);
+        expect(scheduler.trigger('cycle')).toBe(true);
+        finishers[0]();
+        await new Promise(resolve => setImmediate(resolve));
+        finishers[1]();
+        await first;
+
+        expect(finishers).toHaveLength(2);
+        expect(runs).toHaveLength(2);
+        expect(scheduler.trigger('missing')).toBe(false);
+    });
+
+    test('persists pauses and restores them on start', async () => {
+        const { store, paused } = createMemoryStore([{
+            name: 'digest', paused: true, last_started_at: null, last_finished_at: null, last_duration_ms: null,
+            last_result: 'failure', last_error: 'boom', consecutive_failures: 2
+        }]);
+        const scheduler = new JobScheduler(store);
+        const run = jest.fn(async () => {});
+        scheduler.register({ name: 'digest', description: 'Digest', intervalMs: 1000, run });
+
+        await scheduler.start();
+        scheduler.stop();
+
+        expect(scheduler.list()[0]).toMatchObject({ paused: true, consecutive_failures: 2, next_run_at: null });
+        expect(await scheduler.setPaused('digest', false)).toBe(true);
+        expect(await scheduler.setPaused('missing', false)).toBe(false);
+        expect(paused.get('digest')).toBe(false);
+        expect(await scheduler.runNow('missing')).toEqual({ status: 'unknown' });
+    });
+});
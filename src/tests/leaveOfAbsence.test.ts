@@ -0,0 +1,46 @@
+import {
+    LeaveRequest, findOverlappingLeave, isExcusedStatus, leaveDays, parseLeaveCustomId, approveLeaveCustomId,
+    validateLeaveDates
+} from '../services/leaveOfAbsence';
+
+function leave(id: number, start_date: string, end_date: string, status: LeaveRequest['status']): LeaveRequest {
+    return {
+        id, discord_id: '1', start_date, end_date, reason: 'Travel', status,
+        requested_at: new Date(), decided_by: null, decided_at: null
+    };
+}
+
+describe('leave of absence', () => {
+    test('rejects unusable date ranges', () => {
+        expect(validateLeaveDates('2025-03-10', '2025-03-20', '2025-03-05')).toBeNull();
+        expect(validateLeaveDates('2025-03-10', '10/03/2025', '2025-03-05')).toMatch(/YYYY-MM-DD/);
+        expect(validateLeaveDates('2025-03-10', '2025-03-09', '2025-03-05')).toMatch(/on or after/);
+        expect(validateLeaveDates('2025-02-01', '2025-03-09', '2025-03-05')).toMatch(/in the past/);
+        expect(validateLeaveDates('2025-03-10', '2025-06-20', '2025-03-05')).toMatch(/at most/);
+    });
+
+    test('only counts approved leave as excused days', () => {
+        const days = leaveDays([
+            leave(1, '2025-02-27', '2025-03-02', 'approved'),
+            leave(2, '2025-03-05', '2025-03-06', 'denied'),
+            leave(3, '2025-03-08', '2025-03-08', 'approved')
+        ], '2025-03-01', '2025-03-31');
+
+        expect([...days]).toEqual(['2025-03-01', '2025-03-02', '2025-03-08']);
+    });
+
+    test('blocks overlapping requests while pending or approved', () => {
+        const requests = [leave(1, '2025-03-01', '2025-03-10', 'pending'), leave(2, '2025-04-01', '2025-04-05', 'cancelled')];
+
+        expect(findOverlappingLeave(requests, '2025-03-10', '2025-03-12')?.id).toBe(1);
+        expect(findOverlappingLeave(requests, '2025-04-02', '2025-04-03')).toBeNull();
+    });
+
+    test('reads excused attendance statuses and button IDs', () => {
+        expect(isExcusedStatus(' LOA ')).toBe(true);
+        expect(isExcusedStatus('present')).toBe(false);
+        expect(isExcusedStatus(undefined)).toBe(false);
+        expect(parseLeaveCustomId(approveLeaveCustomId(42))).toEqual({ decision: 'approved', id: 42 });
+        expect(parseLeaveCustomId('loa-approve-x')).toBeNull();
+    });
+});
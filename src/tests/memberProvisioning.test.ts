@@ -0,0 +1,35 @@
+import { AcceptanceRoleRule, formatNickname, planProvisioning } from '../services/memberProvisioning';
+
+describe('planProvisioning', () => {
+    const rules: AcceptanceRoleRule[] = [
+        { position: 'all', action: 'add', role_id: 'recruit' },
+        { position: 'all', action: 'remove', role_id: 'applicant' },
+        { position: 'SO Special Warfare Operator', action: 'add', role_id: 'operator-pipeline' },
+        { position: 'Pilot', action: 'add', role_id: 'aviation' },
+        { position: 'Pilot', action: 'remove', role_id: 'recruit' }
+    ];
+
+    test('combines position rules with rules for every position', () => {
+        const plan = planProvisioning(rules, 'so special warfare operator', 'John', 'Rct. {first_name}');
+
+        expect(plan).toEqual({
+            addRoleIds: ['recruit', 'operator-pipeline'],
+            removeRoleIds: ['applicant'],
+            nickname: 'Rct. John'
+        });
+    });
+
+    test('keeps a role that is both added and removed', () => {
+        const plan = planProvisioning(rules, 'Pilot', 'Jane', '');
+
+        expect(plan.addRoleIds).toEqual(['recruit', 'aviation']);
+        expect(plan.removeRoleIds).toEqual(['applicant']);
+        expect(plan.nickname).toBeNull();
+    });
+});
+
+describe('formatNickname', () => {
+    test('truncates to the Discord nickname limit', () => {
+        expect(formatNickname('Rct. {first_name}', 'A'.repeat(40))).toHaveLength(32);
+    });
+});
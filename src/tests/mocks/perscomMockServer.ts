@@ -0,0 +1,286 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+export const MOCK_PERSCOM_TOKEN = 'mock-perscom-token';
+
+export const MOCK_STATUSES = {
+    ACCEPTED: 7,
+    DENIED: 8
+} as const;
+
+export interface MockSubmission {
+    id: number;
+    form_id: number;
+    user_id: number;
+    created_at: string;
+    updated_at: string;
+    arma_3_id: string;
+    discord_name: string;
+    first_name: string;
+    date_of_birth: string;
+    email_address: string;
+    previous_unit: number;
+    preferred_position: string;
+    why_do_you_want_to_join_red_squadron: string;
+    label: string;
+}
+
+export interface MockStatus {
+    id: number;
+    name: string;
+    color: string;
+    order: number;
+    created_at: string;
+    updated_at: string;
+    label: string;
+    pivot: { created_at: string; updated_at: string };
+}
+
+interface SearchFilter {
+    field: keyof MockSubmission;
+    operator: '=' | '>' | '>=' | '<' | '<=';
+    value: string | number;
+}
+
+interface SearchSort {
+    field: keyof MockSubmission;
+    direction?: 'asc' | 'desc';
+}
+
+interface MockFailure {
+    status: number;
+    retryAfter?: string;
+}
+
+export interface MockPerscomServer {
+    baseUrl: string;
+    submissions: MockSubmission[];
+    submissionStatuses: Map<number, MockStatus[]>;
+    users: Map<number, { id: number; name: string }>;
+    requests: Array<{ method: string; path: string }>;
+    cacheClears: number;
+    addSubmission(submission: Partial<MockSubmission> & { id: number; user_id: number }): MockSubmission;
+    setSubmissionStatus(submissionId: number, statusId: number): void;
+    touchSubmission(submissionId: number, updatedAt?: string): void;
+    failNextRequests(count: number, failure: MockFailure): void;
+    close(): Promise<void>;
+}
+
+export interface MockPerscomServerOptions {
+    perPage?: number;
+}
+
+export async function startMockPerscomServer(options: MockPerscomServerOptions = {}): Promise<MockPerscomServer> {
+    const perPage = options.perPage ?? 25;
+    const app = express();
+    app.use(express.json());
+
+    const failures: MockFailure[] = [];
+    // Attachments made in the same millisecond still get distinct, increasing pivot times.
+    let lastAttachedAt = 0;
+
+    const mock = {
+        baseUrl: '',
+        submissions: [] as MockSubmission[],
+        submissionStatuses: new Map<number, MockStatus[]>(),
+        users: new Map<number, { id: number; name: string }>(),
+        requests: [] as Array<{ method: string; path: string }>,
+        cacheClears: 0,
+
+        addSubmission(submission: Partial<MockSubmission> & { id: number; user_id: number }): MockSubmission {
+            const now = new Date().toISOString();
+            const created: MockSubmission = {
+                form_id: 1,
+                created_at: now,
+                updated_at: now,
+                arma_3_id: `7656119800000${submission.id.toString().padStart(4, '0')}`,
+                discord_name: `applicant${submission.id}`,
+                first_name: `Applicant ${submission.id}`,
+                date_of_birth: '2000-01-01',
+                email_address: `applicant${submission.id}@example.com`,
+                previous_unit: 0,
+                preferred_position: 'SO Special Warfare Operator',
+                why_do_you_want_to_join_red_squadron: 'Mock submission',
+                label: `Submission ${submission.id}`,
+                ...submission
+            };
+            mock.submissions.push(created);
+            mock.users.set(created.user_id, { id: created.user_id, name: created.first_name });
+            return created;
+        },
+
+        /** Like PERSCOM, re-attaching a status only refreshes its pivot and the list stays in status id order. */
+        setSubmissionStatus(submissionId: number, statusId: number): void {
+            lastAttachedAt = Math.max(Date.now(), lastAttachedAt + 1);
+            const now = new Date(lastAttachedAt).toISOString();
+            const statuses = mock.submissionStatuses.get(submissionId) || [];
+            const existing = statuses.find(status => status.id === statusId);
+            if (existing) {
+                existing.pivot.updated_at = now;
+                return;
+            }
+            statuses.push({
+                id: statusId,
+                name: `Status ${statusId}`,
+                color: '#000000',
+                order: statusId,
+                created_at: now,
+                updated_at: now,
+                label: `Status ${statusId}`,
+                pivot: { created_at: now, updated_at: now }
+            });
+            statuses.sort((a, b) => a.id - b.id);
+            mock.submissionStatuses.set(submissionId, statuses);
+        },
+
+        touchSubmission(submissionId: number, updatedAt: string = new Date().toISOString()): void {
+            const submission = mock.submissions.find(s => s.id === submissionId);
+            if (submission) {
+                submission.updated_at = updatedAt;
+            }
+        },
+
+        failNextRequests(count: number, failure: MockFailure): void {
+            for (let i = 0; i < count; i++) {
+                failures.push(failure);
+            }
+        },
+
+        close: async (): Promise<void> => {}
+    };
+
+    app.use((req: Request, res: Response, next: NextFunction) => {
+        mock.requests.push({ method: req.method, path: req.path });
+
+        if (req.header('Authorization') !== `Bearer ${MOCK_PERSCOM_TOKEN}`) {
+            res.status(401).json({ error: { message: 'Unauthenticated.' } });
+            return;
+        }
+
+        const failure = failures.shift();
+        if (failure) {
+            if (failure.retryAfter !== undefined) {
+                res.setHeader('Retry-After', failure.retryAfter);
+            }
+            res.status(failure.status).json({ error: { message: 'Mock failure' } });
+            return;
+        }
+
+        next();
+    });
+
+    const paginate = <T>(items: T[], page: number, path: string) => {
+        const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+        const data = items.slice((page - 1) * perPage, page * perPage);
+        return {
+            data,
+            links: {
+                first: `${path}?page=1`,
+                last: `${path}?page=${lastPage}`,
+                prev: page > 1 ? `${path}?page=${page - 1}` : null,
+                next: page < lastPage ? `${path}?page=${page + 1}` : null
+            },
+            meta: {
+                current_page: page,
+                from: (page - 1) * perPage + 1,
+                last_page: lastPage,
+                to: (page - 1) * perPage + data.length,
+                total: items.length,
+                path,
+                per_page: perPage,
+                links: []
+            }
+        };
+    };
+
+    app.get('/submissions', (req: Request, res: Response) => {
+        const page = Math.max(1, parseInt(String(req.query.page || '1'), 10));
+        res.json(paginate(mock.submissions, page, '/submissions'));
+    });
+
+    app.post('/submissions/search', (req: Request, res: Response) => {
+        const page = Math.max(1, parseInt(String(req.query.page || '1'), 10));
+        const filters: SearchFilter[] = req.body?.filters || [];
+        const sort: SearchSort[] = req.body?.sort || [];
+
+        const compare = (a: string | number, b: string | number): number => {
+            const dateA = typeof a === 'string' ? Date.parse(a) : NaN;
+            const dateB = typeof b === 'string' ? Date.parse(b) : NaN;
+            if (!Number.isNaN(dateA) && !Number.isNaN(dateB)) {
+                return dateA - dateB;
+            }
+            return a < b ? -1 : a > b ? 1 : 0;
+        };
+
+        const matches = mock.submissions.filter(submission => filters.every(filter => {
+            const result = compare(submission[filter.field], filter.value);
+            switch (filter.operator) {
+                case '=': return result === 0;
+                case '>': return result > 0;
+                case '>=': return result >= 0;
+                case '<': return result < 0;
+                case '<=': return result <= 0;
+            }
+        }));
+
+        matches.sort((a, b) => {
+            for (const { field, direction } of sort) {
+                const result = compare(a[field], b[field]);
+                if (result !== 0) {
+                    return direction === 'desc' ? -result : result;
+                }
+            }
+            return 0;
+        });
+
+        res.json(paginate(matches, page, '/submissions/search'));
+    });
+
+    app.get('/submissions/:id/statuses', (req: Request, res: Response) => {
+        const id = parseInt(req.params.id, 10);
+        if (!mock.submissions.some(submission => submission.id === id)) {
+            res.status(404).json({ error: { message: 'Submission not found.' } });
+            return;
+        }
+        res.json(paginate(mock.submissionStatuses.get(id) || [], 1, `/submissions/${id}/statuses`));
+    });
+
+    app.post('/submissions/:id/statuses/attach', (req: Request, res: Response) => {
+        const id = parseInt(req.params.id, 10);
+        if (!mock.submissions.some(submission => submission.id === id)) {
+            res.status(404).json({ error: { message: 'Submission not found.' } });
+            return;
+        }
+        const resources: number[] = req.body?.resources || [];
+        resources.forEach(statusId => mock.setSubmissionStatus(id, statusId));
+        res.json({ attached: resources, detached: [], updated: [] });
+    });
+
+    app.delete('/users/:id', (req: Request, res: Response) => {
+        const id = parseInt(req.params.id, 10);
+        const user = mock.users.get(id);
+        if (!user) {
+            res.status(404).json({ error: { message: 'User not found.' } });
+            return;
+        }
+        mock.users.delete(id);
+        res.json({ data: user });
+    });
+
+    app.post('/cache', (_req: Request, res: Response) => {
+        mock.cacheClears++;
+        res.json({ message: 'Cache cleared.' });
+    });
+
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+
+    mock.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    mock.close = () => new Promise<void>((resolve, reject) => {
+        server.close(error => error ? reject(error) : resolve());
+    });
+
+    return mock;
+}
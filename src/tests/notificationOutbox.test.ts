@@ -0,0 +1,99 @@
+import { Client } from 'discord.js';
+import { AccountLinkService } from '../services/accountLinkService';
+import { DatabaseService } from '../services/database';
+import { NotificationDeliveryRecord } from '../services/notificationDelivery';
+import { NotificationService } from '../services/notificationService';
+import {
+    NotificationOutboxDispatcher, OutboxMessage, outboxKey, parseOutboxPayload, retryDelayMs
+} from '../services/notificationOutbox';
+
+describe('notification outbox', () => {
+    test('keys fit in a Discord nonce', () => {
+        expect(outboxKey('new_application', 1234)).toBe('new-1234');
+        expect(outboxKey('denied', 2147483647)).toBe('denied-2147483647');
+        expect(outboxKey('accepted', 2147483647).length).toBeLessThanOrEqual(25);
+    });
+
+    test('backs off exponentially up to six hours', () => {
+        expect(retryDelayMs(1)).toBe(60000);
+        expect(retryDelayMs(2)).toBe(120000);
+        expect(retryDelayMs(4)).toBe(480000);
+        expect(retryDelayMs(20)).toBe(6 * 60 * 60000);
+    });
+
+    test('revives dates in stored payloads', () => {
+        const payload = parseOutboxPayload(JSON.stringify({
+            cooldownFlag: {
+                denial: { form_id: 1, denied_at: '2025-03-01T10:00:00.000Z' },
+                matchedOn: ['email'],
+                eligibleAt: '2025-03-15T10:00:00.000Z'
+            }
+        }));
+
+        expect(payload.cooldownFlag?.eligibleAt).toEqual(new Date('2025-03-15T10:00:00.000Z'));
+        expect(payload.cooldownFlag?.denial.denied_at).toEqual(new Date('2025-03-01T10:00:00.000Z'));
+        expect(parseOutboxPayload(null)).toEqual({});
+    });
+});
+
+describe('NotificationOutboxDispatcher', () => {
+    test('retries only the part of a notification that did not go through', async () => {
+        const message: OutboxMessage = {
+            id: 1, idempotency_key: 'accepted-7', kind: 'accepted', form_id: 1, payload: {}, status: 'pending', attempts: 0,
+            next_attempt_at: new Date(), last_error: null, created_at: new Date(Date.now() - 1000), sent_at: null
+        };
+        const deliveries: NotificationDeliveryRecord[] = [];
+        const database = {
+            async getDueOutboxMessages() {
+                return message.status === 'pending' ? [{ ...message }] : [];
+            },
+            async getApplication() {
+                return {
+                    form_id: 1, user_id: 101, first_name: 'Applicant', discord_name: 'applicant',
+                    preferred_position: 'SO Special Warfare Operator', date_of_birth: '2000-01-01'
+                };
+            },
+            async getReviewerRoutes() {
+                return [];
+            },
+            async saveNotificationDeliveries(records: NotificationDeliveryRecord[]) {
+                deliveries.push(...records.map(record => ({ ...record, created_at: new Date() })));
+            },
+            async getNotificationDeliveries() {
+                return deliveries;
+            },
+            async markOutboxSent(_id: number, attempts: number) {
+                Object.assign(message, { status: 'sent', attempts });
+            },
+            async rescheduleOutboxMessage(_id: number, attempts: number) {
+                message.attempts = attempts;
+            }
+        } as unknown as DatabaseService;
+
+        const dm = jest.fn().mockResolvedValue(undefined);
+        const post = jest.fn().mockRejectedValueOnce(new Error('Missing Permissions')).mockResolvedValue({ id: 'post' });
+        const client = {
+            channels: { cache: new Map([['main', { id: 'main', send: post }]]) },
+            users: { fetch: async () => ({ send: dm }) }
+        } as unknown as Client;
+        const accountLinks = {
+            async resolveDiscordIds() {
+                return new Map([[101, '555']]);
+            }
+        } as unknown as AccountLinkService;
+        const dispatcher = new NotificationOutboxDispatcher(
+            new NotificationService(client, 'main', 'staff', { accepted: 'both', denied: 'dm' }),
+            accountLinks
+        );
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await dispatcher.dispatch(database)).toEqual({ sent: 0, retrying: 1, failed: 0 });
+        expect(await dispatcher.dispatch(database)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+
+        expect(dm).toHaveBeenCalledTimes(1);
+        expect(post).toHaveBeenCalledTimes(2);
+        expect(deliveries.map(delivery => [delivery.method, delivery.status])).toEqual([
+            ['dm', 'delivered'], ['channel', 'failed'], ['channel', 'delivered']
+        ]);
+    });
+});
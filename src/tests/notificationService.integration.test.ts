@@ -2,6 +2,7 @@ import { Client, GatewayIntentBits } from 'discord.js';
 import { NotificationService } from '../services/notificationService';
 import { Form1Submission, AcceptedUsers } from '../services/request_perscom';
 import { config } from '../config/config';
+import { ReviewerRouting } from '../services/reviewerRouting';
 
 const mockFormData: Form1Submission[] = [
     {
@@ -78,7 +79,12 @@ describe('NotificationService Integration Tests', () => {
 
         try {
             console.log('Mock data:', { mockAcceptedUsers, mockFormData });
-            await notificationService.notifyAcceptedUsers(mockAcceptedUsers, mockFormData);
+            const routing = new ReviewerRouting([
+                { position: 'SO Special Warfare Operator', target_type: 'user', target_id: '667833642248175673' }
+            ]);
+            for (const user of mockAcceptedUsers) {
+                await notificationService.notifyAcceptedUser(user, routing, undefined);
+            }
             console.log('Accepted notifications sent successfully');
             expect(true).toBe(true);
         } catch (error) {
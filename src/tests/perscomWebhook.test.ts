@@ -0,0 +1,91 @@
+import { Response } from 'express';
+import {
+    PerscomWebhookEvent, RawBodyRequest, createPerscomWebhookHandler, parseWebhookEvent, signWebhookPayload,
+    verifyWebhookSignature
+} from '../services/perscomWebhook';
+
+const SECRET = 'webhook-secret';
+
+function createRequest(body: unknown, signature?: string): RawBodyRequest {
+    const rawBody = Buffer.from(JSON.stringify(body));
+    const headers: Record<string, string | undefined> = {
+        signature: signature ?? signWebhookPayload(rawBody, SECRET)
+    };
+    return { body, rawBody, header: (name: string) => headers[name.toLowerCase()] } as unknown as RawBodyRequest;
+}
+
+function createResponse() {
+    const sent: { status?: number; body?: unknown } = {};
+    const res = {
+        status(code: number) {
+            sent.status = code;
+            return res;
+        },
+        json(body: unknown) {
+            sent.body = body;
+            return res;
+        }
+    };
+    return { res: res as unknown as Response, sent };
+}
+
+describe('verifyWebhookSignature', () => {
+    const payload = Buffer.from('{"event":"submission.created"}');
+
+    test('accepts the HMAC of the raw body, with or without a prefix', () => {
+        const signature = signWebhookPayload(payload, SECRET);
+        expect(verifyWebhookSignature(payload, signature, SECRET)).toBe(true);
+        expect(verifyWebhookSignature(payload, `sha256=${signature}`, SECRET)).toBe(true);
+    });
+
+    test('rejects missing, malformed and foreign signatures', () => {
+        expect(verifyWebhookSignature(payload, undefined, SECRET)).toBe(false);
+        expect(verifyWebhookSignature(payload, 'not-hex', SECRET)).toBe(false);
+        expect(verifyWebhookSignature(payload, signWebhookPayload(payload, 'other'), SECRET)).toBe(false);
+    });
+});
+
+describe('parseWebhookEvent', () => {
+    test('reads submission events for the application form', () => {
+        expect(parseWebhookEvent({ event: 'submission.created', data: { id: 12, form_id: 1 } }))
+            .toEqual({ type: 'submission.created', submissionId: 12 });
+        expect(parseWebhookEvent({ event: 'submission.status_changed', data: { submission_id: 12, id: 99 } }))
+            .toEqual({ type: 'submission.status_changed', submissionId: 12 });
+    });
+
+    test('ignores other events and forms', () => {
+        expect(parseWebhookEvent({ event: 'user.created', data: { id: 1 } })).toBeNull();
+        expect(parseWebhookEvent({ event: 'submission.created', data: { id: 12, form_id: 2 } })).toBeNull();
+        expect(parseWebhookEvent('submission.created')).toBeNull();
+    });
+});
+
+describe('createPerscomWebhookHandler', () => {
+    test('hands verified events to the pipeline', () => {
+        const events: PerscomWebhookEvent[] = [];
+        const handler = createPerscomWebhookHandler(SECRET, event => events.push(event));
+        const { res, sent } = createResponse();
+
+        handler(createRequest({ event: 'submission.created', data: { id: 5, form_id: 1 } }), res);
+
+        expect(sent.status).toBe(202);
+        expect(events).toEqual([{ type: 'submission.created', submissionId: 5 }]);
+    });
+
+    test('rejects bad signatures without running anything', () => {
+        const onEvent = jest.fn();
+        const handler = createPerscomWebhookHandler(SECRET, onEvent);
+        const { res, sent } = createResponse();
+
+        handler(createRequest({ event: 'submission.created', data: { id: 5 } }, 'deadbeef'), res);
+
+        expect(sent.status).toBe(401);
+        expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    test('is unavailable until a secret is configured', () => {
+        const { res, sent } = createResponse();
+        createPerscomWebhookHandler(null, jest.fn())(createRequest({ event: 'submission.created' }), res);
+        expect(sent.status).toBe(503);
+    });
+});
@@ -0,0 +1,59 @@
+import { RaidSchedule, raidDateKey, tallyAttendance } from '../services/raidSchedule';
+
+const weekly = [
+    { id: 1, weekday: 3, label: 'Wednesday raid', effective_from: '2025-02-08', effective_until: '2025-03-01' },
+    { id: 2, weekday: 6, label: 'Saturday raid', effective_from: '2025-02-08', effective_until: null },
+    { id: 3, weekday: 4, label: 'Thursday raid', effective_from: '2025-03-01', effective_until: null }
+];
+
+describe('raid schedule', () => {
+    const schedule = new RaidSchedule(weekly, [
+        { date: '2025-03-08', kind: 'cancelled', label: 'Holiday' },
+        { date: '2025-03-10', kind: 'extra', label: 'Training op' }
+    ], '2025-02-08');
+
+    test('applies weekly rules only while they are in effect', () => {
+        expect(schedule.isRaidDay('2025-02-26')).toBe(true);
+        expect(schedule.isRaidDay('2025-03-05')).toBe(false);
+        expect(schedule.isRaidDay('2025-03-06')).toBe(true);
+        expect(schedule.isRaidDay('2025-02-01')).toBe(false);
+    });
+
+    test('drops cancelled dates and adds extra ops', () => {
+        expect(schedule.raidDays('2025-03-01', '2025-03-15')).toEqual([
+            '2025-03-01', '2025-03-06', '2025-03-10', '2025-03-13', '2025-03-15'
+        ]);
+        expect(schedule.isCancelled('2025-03-08')).toBe(true);
+        expect(schedule.raidOn('2025-03-10')).toEqual({ date: '2025-03-10', kind: 'extra', label: 'Training op' });
+    });
+
+    test('dates attendance by the Eastern raid night', () => {
+        // 9 PM Eastern on a Saturday is already Sunday in UTC.
+        expect(raidDateKey(new Date('2025-03-02T02:00:00Z'))).toBe('2025-03-01');
+        // Raids that run past midnight still count for the night they started.
+        expect(raidDateKey(new Date('2025-03-02T06:30:00Z'))).toBe('2025-03-01');
+        // Daylight saving time has started by mid-March.
+        expect(raidDateKey(new Date('2025-03-16T12:00:00Z'))).toBe('2025-03-16');
+    });
+
+    test('tallies attended raid nights once each', () => {
+        const tally = tallyAttendance(schedule, [
+            new Date('2025-03-02T01:00:00Z'),
+            new Date('2025-03-02T03:00:00Z'),
+            new Date('2025-03-11T00:00:00Z')
+        ], '2025-03-01', '2025-03-15');
+
+        expect(tally.attended).toEqual(['2025-03-01', '2025-03-10']);
+        expect(tally.raidDays).toHaveLength(5);
+    });
+
+    test('leaves excused nights out unless the member attended anyway', () => {
+        const tally = tallyAttendance(
+            schedule, [new Date('2025-03-02T01:00:00Z')], '2025-03-01', '2025-03-15', new Set(['2025-03-01', '2025-03-06'])
+        );
+
+        expect(tally.attended).toEqual(['2025-03-01']);
+        expect(tally.excused).toEqual(['2025-03-06']);
+        expect(tally.raidDays).toEqual(['2025-03-01', '2025-03-10', '2025-03-13', '2025-03-15']);
+    });
+});
@@ -0,0 +1,133 @@
+import { Client } from 'discord.js';
+import { DatabaseService } from '../services/database';
+import { PendingReview, ReviewReminderOptions, ReviewReminderService, dueReminderStage } from '../services/reviewReminders';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2025-03-10T12:00:00.000Z');
+
+const review = (hoursAgo: number, overrides: Partial<PendingReview> = {}): PendingReview => ({
+    form_id: 1,
+    user_id: 101,
+    first_name: 'Applicant',
+    discord_name: 'applicant',
+    preferred_position: 'SO Special Warfare Operator',
+    date_of_birth: '2000-01-01',
+    state: 'received',
+    created_at: new Date(now.getTime() - hoursAgo * HOUR_MS),
+    state_changed_at: new Date(now.getTime() - hoursAgo * HOUR_MS),
+    channel_id: 'channel',
+    message_id: 'message',
+    reminded_at: null,
+    escalated_at: null,
+    ...overrides
+});
+
+describe('dueReminderStage', () => {
+    const options: ReviewReminderOptions = {
+        reminderHours: 48,
+        escalationHours: 96,
+        escalationRoleId: 'fallback-role',
+        digestHourUtc: 14
+    };
+
+    test('waits until the reminder threshold', () => {
+        expect(dueReminderStage(review(47), options, now)).toBeNull();
+        expect(dueReminderStage(review(48), options, now)).toBe('remind');
+    });
+
+    test('reminds once, then escalates once', () => {
+        expect(dueReminderStage(review(60, { reminded_at: now }), options, now)).toBeNull();
+        expect(dueReminderStage(review(100, { reminded_at: now }), options, now)).toBe('escalate');
+        expect(dueReminderStage(review(200, { reminded_at: now, escalated_at: now }), options, now)).toBeNull();
+    });
+
+    test('falls back to a reminder when no escalation role is configured', () => {
+        expect(dueReminderStage(review(100), { ...options, escalationRoleId: null }, now)).toBe('remind');
+    });
+});
+
+describe('ReviewReminderService.sendDueReminders', () => {
+    const options: ReviewReminderOptions = {
+        reminderHours: 48, escalationHours: 96, escalationRoleId: 'fallback-role', digestHourUtc: 14
+    };
+
+    test('leaves applications migrated from the old bot to the digest', async () => {
+        const send = jest.fn().mockResolvedValue(undefined);
+        const markReviewReminder = jest.fn().mockResolvedValue(undefined);
+        const database = {
+            async getPendingReviews() {
+                return [
+                    review(500, { form_id: 2, channel_id: null, message_id: null }),
+                    review(60)
+                ];
+            },
+            async getReviewerRoutes() {
+                return [];
+            },
+            markReviewReminder
+        } as unknown as DatabaseService;
+        const channel = { send, messages: { fetch: jest.fn().mockRejectedValue(new Error('Unknown Message')) } };
+        const client = { channels: { cache: new Map([['staff', channel]]) } } as unknown as Client;
+
+        await new ReviewReminderService(client, 'staff', options).sendDueReminders(database, now);
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(markReviewReminder.mock.calls).toEqual([[1, 'remind']]);
+    });
+});
+
+describe('ReviewReminderService.sendDailyDigest', () => {
+    const options: ReviewReminderOptions = { reminderHours: 48, escalationHours: 96, escalationRoleId: null, digestHourUtc: 10 };
+
+    function setup(send: jest.Mock) {
+        const claimed = new Set<string>();
+        const database = {
+            async claimReviewDigest(date: string) {
+                if (claimed.has(date)) return false;
+                claimed.add(date);
+                return true;
+            },
+            async releaseReviewDigest(date: string) {
+                claimed.delete(date);
+            },
+            async getPendingReviews() {
+                return [review(3)];
+            }
+        } as unknown as DatabaseService;
+        const channel = { guild: { id: 'guild' }, send };
+        const client = { channels: { cache: new Map([['staff', channel]]) } } as unknown as Client;
+        return { database, client, claimed };
+    }
+
+    test('posts once a day', async () => {
+        const send = jest.fn().mockResolvedValue(undefined);
+        const { database, client } = setup(send);
+        const reminders = new ReviewReminderService(client, 'staff', options);
+
+        await reminders.sendDailyDigest(database, now);
+        await reminders.sendDailyDigest(database, now);
+
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    test('retries on the next run when posting fails', async () => {
+        const send = jest.fn().mockRejectedValueOnce(new Error('Discord is unavailable')).mockResolvedValue(undefined);
+        const { database, client } = setup(send);
+        const reminders = new ReviewReminderService(client, 'staff', options);
+
+        await expect(reminders.sendDailyDigest(database, now)).rejects.toThrow('Discord is unavailable');
+        await reminders.sendDailyDigest(database, now);
+
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    test('leaves the day unclaimed while the channel is missing', async () => {
+        const { database, claimed } = setup(jest.fn());
+        const reminders = new ReviewReminderService({ channels: { cache: new Map() } } as unknown as Client, 'staff', options);
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await reminders.sendDailyDigest(database, now);
+
+        expect(claimed.size).toBe(0);
+    });
+});
@@ -0,0 +1,112 @@
+import { Guild } from "discord.js";
+
+export type DiscordMember = {
+    username: string;
+    discord_id: string;
+    nickname: string | null;
+    displayName: string;
+};
+
+export interface DiscordMemberMatch {
+    /** Set only when exactly one member's username equals the saved Discord name. */
+    match: DiscordMember | null;
+    /** Plausible members for staff to choose from when there is no confident match. */
+    candidates: DiscordMember[];
+}
+
+const MAX_CANDIDATES = 4;
+
+export function cleanDiscordName(discordName: string): string {
+    return discordName.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Matches a PERSCOM applicant to a guild member. Only an exact, unique username
+ * match is trusted; prefix and display-name matches are returned as candidates
+ * for staff to confirm.
+ */
+export function matchDiscordMember(members: DiscordMember[], discordName: string, firstName?: string): DiscordMemberMatch {
+    const cleanName = cleanDiscordName(discordName);
+
+    const exact = cleanName ? members.filter(member => member.username.toLowerCase() === cleanName) : [];
+    if (exact.length === 1) {
+        return { match: exact[0], candidates: [] };
+    }
+
+    const prefix = members
+        .filter(member => cleanName && member.username.toLowerCase().startsWith(cleanName))
+        .sort((a, b) => a.username.length - b.username.length);
+    const byName = firstName
+        ? members.filter(member => member.displayName === firstName || member.nickname === firstName)
+        : [];
+
+    const candidates: DiscordMember[] = [];
+    for (const member of [...prefix, ...byName]) {
+        if (!candidates.some(candidate => candidate.discord_id === member.discord_id)) {
+            candidates.push(member);
+        }
+    }
+
+    return { match: null, candidates: candidates.slice(0, MAX_CANDIDATES) };
+}
+
+/** All guild members, from the cache when it is populated and falling back to it when fetching fails. */
+export async function fetchGuildMembers(guild: Guild) {
+    try {
+        console.log(`Attempting to fetch members for server: ${guild.name} (ID: ${guild.id})`);
+        console.log(`Current cache size: ${guild.members.cache.size}`);
+        
+        if (guild.members.cache.size > 0) {
+            console.log(`Using ${guild.members.cache.size} cached members from ${guild.name}`);
+            return Array.from(guild.members.cache.values());
+        }
+
+        if (guild.features.includes('COMMUNITY')) {
+            console.log(`${guild.name} is a community server, attempting chunk-based fetch...`);
+            try {
+                const members = await guild.members.fetch({ withPresences: false });
+                console.log(`Successfully fetched ${members.size} members from community server ${guild.name}`);
+                return Array.from(members.values());
+            } catch (chunkError) {
+                console.error(`Chunk fetch failed for community server ${guild.name}:`, chunkError);
+            }
+        }
+
+        console.log(`Fetching members for ${guild.name} using regular fetch...`);
+        const members = await guild.members.fetch({
+            time: 120000, 
+            withPresences: false
+        });
+        
+        console.log(`Successfully fetched ${members.size} members from ${guild.name}`);
+        
+        const sampleMembers = Array.from(members.values()).slice(0, 3);
+        sampleMembers.forEach(member => {
+            console.log(`Sample member: ${member.user.tag} (${member.displayName})`);
+        });
+        
+        return Array.from(members.values());
+    } catch (error) {
+        console.error(`Error fetching guild members for ${guild.name}:`, error);
+        if (error instanceof Error) {
+            console.error('Error details:', error.message);
+            if ('code' in error) {
+                const errorCode = (error as any).code;
+                console.error('Discord error code:', errorCode);
+                
+                if (errorCode === 50001) {
+                    console.error('Missing access - Bot lacks necessary permissions');
+                } else if (errorCode === 50013) {
+                    console.error('Missing permissions - Bot needs additional permissions');
+                }
+            }
+        }
+
+        if (guild.members.cache.size > 0) {
+            console.warn(`Falling back to cached members (${guild.members.cache.size} members) for ${guild.name}`);
+            return Array.from(guild.members.cache.values());
+        }
+        
+        return null;
+    }
+}
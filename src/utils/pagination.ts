@@ -0,0 +1,74 @@
+import {
+    ActionRowBuilder, ButtonBuilder, ButtonStyle, ChatInputCommandInteraction, ComponentType, EmbedBuilder
+} from "discord.js";
+
+const PAGE_TIMEOUT_MS = 120000;
+
+/** Splits lines into embed descriptions that stay under Discord's length limit. */
+export function chunkLines(lines: string[], maxLines: number, maxLength: number = 4000): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const line of lines) {
+        if (current.length > 0 && (current.length >= maxLines || length + line.length + 1 > maxLength)) {
+            chunks.push(current);
+            current = [];
+            length = 0;
+        }
+        current.push(line);
+        length += line.length + 1;
+    }
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+function pageRow(page: number, total: number): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId('page-prev')
+            .setLabel('◀ Previous')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page === 0),
+        new ButtonBuilder()
+            .setCustomId('page-next')
+            .setLabel('Next ▶')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page === total - 1)
+    );
+}
+
+/**
+ * Shows `pages` on a deferred reply with Previous/Next buttons for the user
+ * who ran the command. The buttons are removed once they time out.
+ */
+export async function sendPaginatedEmbeds(interaction: ChatInputCommandInteraction, pages: EmbedBuilder[]): Promise<void> {
+    if (pages.length <= 1) {
+        await interaction.editReply({ embeds: pages, components: [] });
+        return;
+    }
+
+    pages.forEach((page, index) => page.setFooter({ text: `Page ${index + 1}/${pages.length}` }));
+
+    let current = 0;
+    const message = await interaction.editReply({ embeds: [pages[current]], components: [pageRow(current, pages.length)] });
+
+    const collector = message.createMessageComponentCollector({
+        componentType: ComponentType.Button,
+        filter: button => button.user.id === interaction.user.id && button.customId.startsWith('page-'),
+        time: PAGE_TIMEOUT_MS
+    });
+
+    collector.on('collect', async button => {
+        current = button.customId === 'page-next'
+            ? Math.min(current + 1, pages.length - 1)
+            : Math.max(current - 1, 0);
+        await button.update({ embeds: [pages[current]], components: [pageRow(current, pages.length)] }).catch(() => {});
+    });
+
+    collector.on('end', async () => {
+        await interaction.editReply({ components: [] }).catch(() => {});
+    });
+}
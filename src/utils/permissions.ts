@@ -0,0 +1,15 @@
+import { APIInteractionGuildMember, GuildMember } from "discord.js";
+
+export const ALLOWED_ROLES = {
+    ADMIN: '1338753333518667817',
+} as const;
+
+export function getMemberRoleIds(member: GuildMember | APIInteractionGuildMember | null): string[] {
+    if (!member) return [];
+    return Array.isArray(member.roles) ? member.roles : Array.from(member.roles.cache.keys());
+}
+
+export function hasAdminRole(member: GuildMember | APIInteractionGuildMember | null): boolean {
+    const roleIds = getMemberRoleIds(member);
+    return Object.values(ALLOWED_ROLES).some(roleId => roleIds.includes(roleId));
+}